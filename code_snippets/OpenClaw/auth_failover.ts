@@ -7,25 +7,61 @@
  * Key ideas:
  * - Max retries scale with profile count: base + N * profiles
  * - Failed profiles enter cooldown (prevent hammering broken provider)
- * - Profiles in cooldown are skipped during rotation
+ * - Cooldown is per reason with exponential backoff on consecutive failures
+ *   (rate_limit backs off, auth_error parks the key, timeout just rotates)
+ * - Profile health lives in an on-disk ledger so cooldowns survive restarts
+ *   and are shared by every gateway process using the same keys
+ * - Ledger updates are read-modify-write under a generation-numbered O_EXCL
+ *   lock file, written via temp file + rename so readers never see a torn
+ *   JSON document
+ * - Rotation picks the healthiest remaining profile, not the next index
+ * - Rate limits use the provider's own reset time (rate_limit_headers.ts) as
+ *   the cooldown; when every profile is rate limited, wait for the earliest
+ *   reset instead of failing the run
  * - On success, the winning profile is remembered for next run
  */
 
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { rateLimitInfoFromError, type RateLimitInfo } from "./rate_limit_headers";
+
 // --- Types ---
 
-interface AuthProfile {
+type FailureReason = "timeout" | "auth_error" | "rate_limit" | "unknown";
+
+export interface AuthProfile {
   id: string;
   provider: string; // "anthropic" | "openai" | ...
   apiKey: string;
+}
+
+interface ProfileHealth {
+  failuresByReason: Partial<Record<FailureReason, number>>;
+  consecutiveFailures: number; // reset on success, drives backoff exponent
+  lastFailureAt?: number;
+  lastReason?: FailureReason;
   cooldownUntil?: number; // timestamp ms
+  lastSuccessAt?: number;
 }
 
-interface AuthStore {
+export interface AuthStore {
   profiles: AuthProfile[];
   lastUsedProfileId?: string;
-  failures: Map<string, { count: number; lastAt: number; reason: string }>;
+  failures: Map<string, ProfileHealth>;
+  /** JSON ledger shared across processes. Omit to keep health in memory only. */
+  ledgerPath?: string;
+  /** Ledger failures are reported here, never thrown into the run. Default: console.warn */
+  warn?: (message: string) => void;
 }
 
+type AuthLedgerFile = {
+  version: 1;
+  updatedAt: number;
+  lastUsedProfileId?: string;
+  profiles: Record<string, ProfileHealth>;
+};
+
 interface RunResult {
   text: string;
   usage: { inputTokens: number; outputTokens: number };
@@ -33,27 +69,257 @@ interface RunResult {
 
 // --- Cooldown logic ---
 
-const COOLDOWN_MS = 60_000; // 1 minute cooldown after failure
+const BASE_COOLDOWN_MS: Record<FailureReason, number> = {
+  rate_limit: 30_000,      // back off, the key itself is fine
+  auth_error: 10 * 60_000, // revoked/invalid keys rarely heal quickly
+  timeout: 0,              // rotate only: timeouts aren't a credential problem
+  unknown: 60_000,
+};
+const MAX_COOLDOWN_MS = 60 * 60_000; // cap exponential growth at 1 hour
 
-function isProfileInCooldown(store: AuthStore, profile: AuthProfile): boolean {
-  const failure = store.failures.get(profile.id);
-  if (!failure) return false;
-  return Date.now() < failure.lastAt + COOLDOWN_MS;
+/** base * 2^(consecutive - 1), capped. */
+function computeCooldownMs(reason: FailureReason, consecutiveFailures: number): number {
+  const base = BASE_COOLDOWN_MS[reason];
+  if (base === 0) return 0;
+  const exponent = Math.min(Math.max(0, consecutiveFailures - 1), 16);
+  return Math.min(MAX_COOLDOWN_MS, base * 2 ** exponent);
 }
 
-function markProfileFailure(
+function isProfileInCooldown(store: AuthStore, profile: AuthProfile, now = Date.now()): boolean {
+  const health = store.failures.get(profile.id);
+  return health?.cooldownUntil !== undefined && now < health.cooldownUntil;
+}
+
+function emptyHealth(): ProfileHealth {
+  return { failuresByReason: {}, consecutiveFailures: 0 };
+}
+
+function applyFailure(
+  health: ProfileHealth,
+  reason: FailureReason,
+  now: number,
+  rateLimit?: RateLimitInfo,
+): ProfileHealth {
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  // Provider told us exactly when the key is usable again: trust it over backoff
+  const cooldownMs = rateLimit?.retryAfterMs ?? computeCooldownMs(reason, consecutiveFailures);
+  return {
+    ...health,
+    failuresByReason: {
+      ...health.failuresByReason,
+      [reason]: (health.failuresByReason[reason] ?? 0) + 1,
+    },
+    consecutiveFailures,
+    lastFailureAt: now,
+    lastReason: reason,
+    cooldownUntil: cooldownMs > 0 ? now + cooldownMs : health.cooldownUntil,
+  };
+}
+
+function applySuccess(health: ProfileHealth, now: number): ProfileHealth {
+  // Lifetime per-reason counts are kept for auditing; only the streak resets.
+  return { ...health, consecutiveFailures: 0, cooldownUntil: undefined, lastSuccessAt: now };
+}
+
+async function markProfileFailure(
   store: AuthStore,
   profileId: string,
-  reason: "timeout" | "auth_error" | "rate_limit" | "unknown",
-): void {
-  const existing = store.failures.get(profileId) ?? { count: 0, lastAt: 0, reason: "" };
-  store.failures.set(profileId, {
-    count: existing.count + 1,
-    lastAt: Date.now(),
-    reason,
+  reason: FailureReason,
+  rateLimit?: RateLimitInfo,
+): Promise<void> {
+  await updateProfileHealth(store, profileId, (health, now) => applyFailure(health, reason, now, rateLimit));
+}
+
+async function markProfileSuccess(store: AuthStore, profileId: string): Promise<void> {
+  store.lastUsedProfileId = profileId;
+  await updateProfileHealth(store, profileId, (health, now) => applySuccess(health, now), {
+    lastUsed: true,
   });
 }
 
+/**
+ * Apply a health update in memory, and to the ledger when one is configured.
+ * With a ledger, the update runs against the on-disk record (another process
+ * may have written since we last read) and the whole store is refreshed.
+ * Ledger failures (lock timeout, full disk) only cost cross-process sharing:
+ * the update is kept in memory and the run carries on.
+ */
+async function updateProfileHealth(
+  store: AuthStore,
+  profileId: string,
+  update: (health: ProfileHealth, now: number) => ProfileHealth,
+  opts: { lastUsed?: boolean } = {},
+): Promise<void> {
+  const applyInMemory = () => {
+    store.failures.set(profileId, update(store.failures.get(profileId) ?? emptyHealth(), Date.now()));
+  };
+  if (!store.ledgerPath) return applyInMemory();
+
+  try {
+    const ledger = await withLedgerLock(store.ledgerPath, async (current) => {
+      current.profiles[profileId] = update(current.profiles[profileId] ?? emptyHealth(), Date.now());
+      // Only a success moves the pointer; a failure must not overwrite the
+      // profile a sibling process just succeeded with
+      if (opts.lastUsed) current.lastUsedProfileId = profileId;
+      return current;
+    });
+    hydrateStore(store, ledger);
+  } catch (err) {
+    (store.warn ?? console.warn)(`auth ledger update failed, keeping health in memory: ${String(err)}`);
+    applyInMemory();
+  }
+}
+
+// --- Persistent ledger ---
+
+const LEDGER_LOCK_TIMEOUT_MS = 5_000;
+const LEDGER_LOCK_STALE_MS = 30_000; // a ledger update takes milliseconds
+
+function emptyLedger(): AuthLedgerFile {
+  return { version: 1, updatedAt: 0, profiles: {} };
+}
+
+async function readLedger(ledgerPath: string): Promise<AuthLedgerFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(ledgerPath, "utf8"));
+    return parsed?.version === 1 && parsed.profiles ? parsed : emptyLedger();
+  } catch {
+    return emptyLedger(); // missing or corrupt → start fresh, never block a run
+  }
+}
+
+/** The ledger is the newest shared state: it wins over what this process remembers. */
+function hydrateStore(store: AuthStore, ledger: AuthLedgerFile): void {
+  store.failures = new Map(Object.entries(ledger.profiles));
+  if (ledger.lastUsedProfileId) store.lastUsedProfileId = ledger.lastUsedProfileId;
+}
+
+async function loadAuthLedger(store: AuthStore): Promise<void> {
+  if (store.ledgerPath) hydrateStore(store, await readLedger(store.ledgerPath));
+}
+
+/**
+ * Serialize read-modify-write across processes.
+ *
+ * Lock: a chain of generation files `<ledger>.lock.<n>`; the highest n is the
+ * lock. Every step is an O_EXCL create of the next generation, so exactly one
+ * process wins it and a held lock is never moved or deleted:
+ *   - acquire: the newest generation is released, or stale (dead PID, or
+ *     older than LEDGER_LOCK_STALE_MS) → create n+1 holding { pid, nonce, createdAt }
+ *   - release: create n+1 holding the released marker
+ * Only the creator of the newest generation deletes the ones below it, so the
+ * chain never restarts and a generation number is never reused.
+ * Write: temp file in the same directory + rename, atomic on POSIX.
+ */
+async function withLedgerLock(
+  ledgerPath: string,
+  mutate: (ledger: AuthLedgerFile) => Promise<AuthLedgerFile>,
+): Promise<AuthLedgerFile> {
+  await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+
+  const payload = JSON.stringify({ pid: process.pid, nonce: randomUUID(), createdAt: Date.now() });
+  const startedAt = Date.now();
+  let attempt = 0;
+  let held: number;
+
+  while (true) {
+    attempt++;
+    const newest = await newestLockGeneration(ledgerPath);
+    if (newest === 0 || (await isLockFree(lockGenerationPath(ledgerPath, newest)))) {
+      if (await createLockGeneration(ledgerPath, newest + 1, payload)) {
+        held = newest + 1;
+        break;
+      }
+      continue; // another process took this step first
+    }
+    if (Date.now() - startedAt > LEDGER_LOCK_TIMEOUT_MS) {
+      throw new Error(`auth ledger locked (timeout ${LEDGER_LOCK_TIMEOUT_MS}ms): ${lockGenerationPath(ledgerPath, newest)}`);
+    }
+    await new Promise((r) => setTimeout(r, Math.min(250, 10 * attempt)));
+  }
+
+  try {
+    const next = await mutate(await readLedger(ledgerPath));
+    next.updatedAt = Date.now();
+    const tmpPath = `${ledgerPath}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(next, null, 2), "utf8");
+    await fs.rename(tmpPath, ledgerPath);
+    return next;
+  } finally {
+    // If we ran past LEDGER_LOCK_STALE_MS the lock may have been reclaimed;
+    // then the next generation exists already and this create is a no-op
+    await createLockGeneration(ledgerPath, held + 1, LEDGER_LOCK_RELEASED);
+  }
+}
+
+const LEDGER_LOCK_RELEASED = JSON.stringify({ released: true });
+
+function lockGenerationPath(ledgerPath: string, generation: number): string {
+  return `${ledgerPath}.lock.${generation}`;
+}
+
+/** Generation numbers present on disk, ascending. */
+async function listLockGenerations(ledgerPath: string): Promise<number[]> {
+  const prefix = `${path.basename(ledgerPath)}.lock.`;
+  const names = await fs.readdir(path.dirname(ledgerPath)).catch(() => [] as string[]);
+  return names
+    .filter((name) => name.startsWith(prefix) && /^\d+$/.test(name.slice(prefix.length)))
+    .map((name) => Number(name.slice(prefix.length)))
+    .sort((a, b) => a - b);
+}
+
+/** 0 when no lock was ever taken. */
+async function newestLockGeneration(ledgerPath: string): Promise<number> {
+  return (await listLockGenerations(ledgerPath)).at(-1) ?? 0;
+}
+
+/**
+ * O_EXCL create of one generation. True only if it is the newest afterwards:
+ * a process that saw an old chain can still create a number the winner has
+ * since cleaned up, and must back off when it finds a higher one.
+ */
+async function createLockGeneration(ledgerPath: string, generation: number, content: string): Promise<boolean> {
+  const lockPath = lockGenerationPath(ledgerPath, generation);
+  try {
+    await fs.writeFile(lockPath, content, { encoding: "utf8", flag: "wx" });
+  } catch (err: any) {
+    if (err.code === "EEXIST") return false;
+    throw err;
+  }
+  const generations = await listLockGenerations(ledgerPath);
+  if (generations.some((g) => g > generation)) {
+    await fs.rm(lockPath, { force: true });
+    return false;
+  }
+  for (const older of generations.filter((g) => g < generation)) {
+    await fs.rm(lockGenerationPath(ledgerPath, older), { force: true });
+  }
+  return true;
+}
+
+/** Whether the next generation may be taken: released, stale, or already superseded. */
+async function isLockFree(lockPath: string): Promise<boolean> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(lockPath, "utf8");
+  } catch {
+    return true; // cleaned up by a newer generation; the create finds out
+  }
+  try {
+    const { pid, createdAt, released } = JSON.parse(raw);
+    if (released) return true;
+    if (Date.now() - createdAt > LEDGER_LOCK_STALE_MS) return true;
+    process.kill(pid, 0); // throws if the holder is gone
+    return false;
+  } catch (err: any) {
+    if (err.code === "EPERM") return false; // alive, owned by another user
+    if (err.code === "ESRCH") return true;
+    // Unreadable/half-written payload: fall back to file age
+    const stat = await fs.stat(lockPath).catch(() => null);
+    return !stat || Date.now() - stat.mtimeMs > LEDGER_LOCK_STALE_MS;
+  }
+}
+
 // --- Retry iteration limit ---
 
 function resolveMaxRetryIterations(profileCount: number): number {
@@ -64,58 +330,103 @@ function resolveMaxRetryIterations(profileCount: number): number {
 
 // --- Profile advancement ---
 
+/**
+ * Order profiles by health: out-of-cooldown first, then fewest consecutive
+ * failures, then fewest lifetime auth errors, then oldest last failure.
+ * Ties keep configured order, so a healthy fleet behaves like round-robin.
+ */
+function compareProfileHealth(store: AuthStore, a: AuthProfile, b: AuthProfile, now: number): number {
+  const ha = store.failures.get(a.id) ?? emptyHealth();
+  const hb = store.failures.get(b.id) ?? emptyHealth();
+  const cooldownA = isProfileInCooldown(store, a, now) ? 1 : 0;
+  const cooldownB = isProfileInCooldown(store, b, now) ? 1 : 0;
+  if (cooldownA !== cooldownB) return cooldownA - cooldownB;
+  if (ha.consecutiveFailures !== hb.consecutiveFailures) {
+    return ha.consecutiveFailures - hb.consecutiveFailures;
+  }
+  const authA = ha.failuresByReason.auth_error ?? 0;
+  const authB = hb.failuresByReason.auth_error ?? 0;
+  if (authA !== authB) return authA - authB;
+  return (ha.lastFailureAt ?? 0) - (hb.lastFailureAt ?? 0);
+}
+
 function advanceAuthProfile(
   store: AuthStore,
   candidates: AuthProfile[],
-  currentIndex: number,
+  attempted: Set<string>,
 ): { profile: AuthProfile; index: number } | null {
-  let nextIndex = currentIndex + 1;
+  const now = Date.now();
+  const available = candidates
+    .map((profile, index) => ({ profile, index }))
+    .filter(({ profile }) => !attempted.has(profile.id) && !isProfileInCooldown(store, profile, now))
+    .sort((a, b) => compareProfileHealth(store, a.profile, b.profile, now) || a.index - b.index);
 
-  while (nextIndex < candidates.length) {
-    const candidate = candidates[nextIndex];
-    if (!candidate || isProfileInCooldown(store, candidate)) {
-      nextIndex += 1;
-      continue;
-    }
-    return { profile: candidate, index: nextIndex };
-  }
+  return available[0] ?? null; // No more profiles available
+}
 
-  return null; // No more profiles available
+/** Earliest time any profile leaves cooldown, or undefined if none is cooling down. */
+function earliestCooldownEnd(store: AuthStore, candidates: AuthProfile[]): number | undefined {
+  const ends = candidates
+    .map((p) => store.failures.get(p.id)?.cooldownUntil)
+    .filter((t): t is number => t !== undefined && t > Date.now());
+  return ends.length > 0 ? Math.min(...ends) : undefined;
 }
 
 // --- Main retry loop ---
 
-async function runAgentWithFailover(params: {
+const MAX_RATE_LIMIT_WAIT_MS = 60_000; // longer than this → surface the error
+
+export async function runAgentWithFailover(params: {
   store: AuthStore;
   profiles: AuthProfile[];
   runAttempt: (profile: AuthProfile) => Promise<RunResult>;
 }): Promise<RunResult> {
   const { store, profiles, runAttempt } = params;
+  if (profiles.length === 0) throw new Error("No auth profiles configured");
   const maxIterations = resolveMaxRetryIterations(profiles.length);
 
-  let profileIndex = 0;
-  let currentProfile = profiles[0];
-  if (!currentProfile) throw new Error("No auth profiles configured");
+  // Pick up cooldowns recorded by earlier runs and sibling processes
+  await loadAuthLedger(store);
+
+  const attempted = new Set<string>();
+  const initial = advanceAuthProfile(store, profiles, attempted);
+  if (!initial) throw new Error("All auth profiles are in cooldown");
+  let currentProfile = initial.profile;
 
   for (let iteration = 0; iteration < maxIterations; iteration++) {
+    attempted.add(currentProfile.id);
     try {
       const result = await runAttempt(currentProfile);
-      // Success: remember this profile
-      store.lastUsedProfileId = currentProfile.id;
+      // Success: remember this profile and clear its failure streak
+      await markProfileSuccess(store, currentProfile.id);
       return result;
     } catch (error) {
-      const reason = classifyError(error);
+      const rateLimit = rateLimitInfoFromError(error);
+      const reason = rateLimit ? "rate_limit" : classifyError(error);
 
       if (reason === "auth_error" || reason === "rate_limit" || reason === "timeout") {
-        // Mark failure and try next profile
-        markProfileFailure(store, currentProfile.id, reason);
+        // Mark failure (refreshes health from the ledger) and try next profile
+        await markProfileFailure(store, currentProfile.id, reason, rateLimit);
 
-        const next = advanceAuthProfile(store, profiles, profileIndex);
+        const next = advanceAuthProfile(store, profiles, attempted);
         if (next) {
           currentProfile = next.profile;
-          profileIndex = next.index;
           continue; // Retry with new profile
         }
+
+        // Every profile is rate limited: sleep until the first reset, then
+        // start a fresh rotation rather than failing a run that can succeed.
+        const resumeAt = reason === "rate_limit" ? earliestCooldownEnd(store, profiles) : undefined;
+        if (resumeAt !== undefined && resumeAt - Date.now() <= MAX_RATE_LIMIT_WAIT_MS) {
+          await new Promise((r) => setTimeout(r, Math.max(0, resumeAt - Date.now())));
+          await loadAuthLedger(store);
+          attempted.clear();
+          const resumed = advanceAuthProfile(store, profiles, attempted);
+          if (resumed) {
+            currentProfile = resumed.profile;
+            continue;
+          }
+        }
       }
 
       // No more profiles or non-retryable error
@@ -128,7 +439,7 @@ async function runAgentWithFailover(params: {
 
 // --- Error classification ---
 
-function classifyError(error: unknown): "auth_error" | "rate_limit" | "timeout" | "unknown" {
+function classifyError(error: unknown): FailureReason {
   const message = error instanceof Error ? error.message : String(error);
 
   if (/401|403|invalid.*key|unauthorized/i.test(message)) return "auth_error";
@@ -148,6 +459,8 @@ const store: AuthStore = {
     { id: "openai",  provider: "openai",    apiKey: "sk-..." },
   ],
   failures: new Map(),
+  // Shared by every gateway process on this host; survives restarts
+  ledgerPath: "/var/lib/openclaw/auth-ledger.json",
 };
 
 const result = await runAgentWithFailover({
@@ -157,4 +470,16 @@ const result = await runAgentWithFailover({
     return await callLLM({ apiKey: profile.apiKey, messages: [...] });
   },
 });
+
+// Ledger after a rate limit on "primary" followed by success on "backup":
+// {
+//   "version": 1,
+//   "lastUsedProfileId": "backup",
+//   "profiles": {
+//     "primary": { "failuresByReason": { "rate_limit": 1 }, "consecutiveFailures": 1,
+//                  "lastReason": "rate_limit", "cooldownUntil": <now + 30s>, ... },
+//     "backup":  { "failuresByReason": {}, "consecutiveFailures": 0, "lastSuccessAt": <now> }
+//   }
+// }
+// A second "primary" rate limit while it is still failing doubles the cooldown to 60s.
 */
@@ -0,0 +1,278 @@
+/**
+ * Channel Capability Negotiation & Delivery Planning
+ *
+ * Pattern: Describe each channel once (message length, markdown dialect,
+ * media, voice, threading) and use that profile both to tell the model what
+ * the channel supports and to force whatever it wrote into a shape the
+ * channel accepts.
+ * From: OpenClaw src/auto-reply/reply/reply-delivery.ts, channel adapters
+ *
+ * Key ideas:
+ *   - One ChannelCapabilityProfile feeds buildAgentSystemPrompt (the model
+ *     is told the limits) and planDelivery (the limits are enforced) —
+ *     prompt and enforcement can't drift apart
+ *   - planDelivery turns one DeliveryPayload into an ordered list of sends:
+ *     text chunks first, then attachments
+ *   - Long text splits at the safest boundary in the window: paragraph →
+ *     line → sentence → word → hard cut; a split inside a code fence closes
+ *     the fence and reopens it (same language) in the next chunk
+ *   - Markdown is downgraded to the channel's dialect outside code blocks
+ *     (CommonMark → Slack mrkdwn → plain)
+ *   - Unsupported media becomes a link in the text; voice falls back to an
+ *     audio attachment, then to a link
+ *   - Reply-to maps onto the channel's threading model: first message only
+ *     (reply), every message (thread), or dropped (none)
+ */
+
+import type { DeliveryPayload } from "./response_directives";
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+export type MarkdownDialect = "commonmark" | "slack_mrkdwn" | "plain";
+
+export type MediaKind = "image" | "audio" | "video" | "file";
+
+export interface ChannelCapabilityProfile {
+  channel: string;
+  maxMessageChars: number;
+  markdown: MarkdownDialect;
+  /** Attachment kinds the channel can send natively. */
+  media: MediaKind[];
+  /** Audio as a voice note (push-to-talk bubble) rather than a file. */
+  voice: boolean;
+  /** reply: quote one message · thread: post inside a thread · none: flat */
+  threading: "reply" | "thread" | "none";
+}
+
+export type DeliveryStep =
+  | { kind: "text"; text: string; replyToId?: string }
+  | { kind: "media"; url: string; mediaKind: MediaKind; asVoice: boolean; replyToId?: string };
+
+// ─── Built-in profiles ─────────────────────────────────────────────────────
+
+export const CHANNEL_PROFILES: Record<string, ChannelCapabilityProfile> = {
+  discord: {
+    channel: "discord",
+    maxMessageChars: 2_000,
+    markdown: "commonmark",
+    media: ["image", "audio", "video", "file"],
+    voice: false,
+    threading: "reply",
+  },
+  slack: {
+    channel: "slack",
+    maxMessageChars: 4_000, // hard limit is 40K, but Slack truncates display at ~4K
+    markdown: "slack_mrkdwn",
+    media: ["image", "audio", "video", "file"],
+    voice: false,
+    threading: "thread",
+  },
+  sms: {
+    channel: "sms",
+    maxMessageChars: 1_600,
+    markdown: "plain",
+    media: ["image"], // MMS
+    voice: false,
+    threading: "none",
+  },
+};
+
+// ─── Media classification ──────────────────────────────────────────────────
+
+const MEDIA_EXTENSIONS: Record<Exclude<MediaKind, "file">, string[]> = {
+  image: ["png", "jpg", "jpeg", "gif", "webp", "heic"],
+  audio: ["mp3", "ogg", "oga", "opus", "m4a", "wav", "aac"],
+  video: ["mp4", "mov", "webm", "mkv"],
+};
+
+function classifyMedia(url: string): MediaKind {
+  const ext = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  if (ext) {
+    for (const [kind, exts] of Object.entries(MEDIA_EXTENSIONS)) {
+      if (exts.includes(ext)) return kind as MediaKind;
+    }
+  }
+  return "file";
+}
+
+// ─── Markdown downgrade ────────────────────────────────────────────────────
+
+const FENCE_RE = /^(\s*)(```|~~~)(.*)$/;
+
+/** Apply `fn` to prose only — fenced code blocks pass through untouched. */
+function mapOutsideCode(text: string, fn: (prose: string) => string): string {
+  const out: string[] = [];
+  let prose: string[] = [];
+  let fence: string | null = null;
+  for (const line of text.split("\n")) {
+    const marker = FENCE_RE.exec(line)?.[2];
+    if (fence === null && marker) {
+      out.push(...(prose.length ? fn(prose.join("\n")).split("\n") : []));
+      prose = [];
+      fence = marker;
+      out.push(line);
+    } else if (fence !== null) {
+      out.push(line);
+      if (marker === fence) fence = null;
+    } else {
+      prose.push(line);
+    }
+  }
+  if (prose.length) out.push(...fn(prose.join("\n")).split("\n"));
+  return out.join("\n");
+}
+
+function toSlackMrkdwn(prose: string): string {
+  return prose
+    .replace(/^#{1,6}\s+(.+)$/gm, "*$1*")                  // headings → bold line
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "*$1$2*")         // bold
+    .replace(/~~(.+?)~~/g, "~$1~")                         // strikethrough
+    .replace(/!?\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>");   // links (and image links)
+}
+
+function toPlain(prose: string): string {
+  return prose
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/!?\[([^\]]+)\]\(([^)\s]+)\)/g, "$1 ($2)")
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "$1$2")
+    .replace(/(^|[\s(])[*_]([^*_\s][^*_]*?)[*_](?=[\s).,!?:;]|$)/gm, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+/** The model writes CommonMark; channels that don't render it get a downgrade. */
+export function downgradeMarkdown(text: string, dialect: MarkdownDialect): string {
+  if (dialect === "commonmark") return text;
+  if (dialect === "slack_mrkdwn") return mapOutsideCode(text, toSlackMrkdwn);
+  // Plain: code blocks lose their fences but keep their content
+  return mapOutsideCode(text, toPlain).replace(/^\s*(```|~~~).*$\n?/gm, "").trimEnd();
+}
+
+// ─── Text splitting ────────────────────────────────────────────────────────
+
+/** Cut candidates, best first; each must leave at least half the window used. */
+const SPLIT_BOUNDARIES: RegExp[] = [/\n\s*\n/g, /\n/g, /[.!?](?=\s)/g, /\s/g];
+
+function findCut(window: string): number {
+  const floor = Math.floor(window.length / 2);
+  for (const boundary of SPLIT_BOUNDARIES) {
+    let cut = -1;
+    for (const match of window.matchAll(boundary)) {
+      const end = match.index! + match[0].length;
+      if (end >= floor && end <= window.length) cut = end;
+    }
+    if (cut > 0) return cut;
+  }
+  return window.length;
+}
+
+/** The fence still open at the end of `text`, if any ("```ts"). */
+function openFenceAtEnd(text: string): string | null {
+  let open: string | null = null;
+  for (const line of text.split("\n")) {
+    const m = FENCE_RE.exec(line);
+    if (!m) continue;
+    if (open === null) open = `${m[2]}${m[3]!.trim()}`;
+    else if (m[2] === open.slice(0, 3)) open = null;
+  }
+  return open;
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, at safe boundaries. A chunk
+ * that ends inside a code fence closes it; the next chunk reopens it.
+ */
+export function splitMessageText(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  let reopen = "";
+
+  while (reopen.length + rest.length > maxChars) {
+    const fenceClose = 4; // "\n```" in case this chunk ends inside a fence
+    const budget = Math.max(1, maxChars - reopen.length - fenceClose);
+    const cut = findCut(rest.slice(0, budget));
+    let chunk = reopen + rest.slice(0, cut).trimEnd();
+    const open = openFenceAtEnd(chunk);
+    // Indentation is content inside a code block; elsewhere drop the separator
+    rest = open ? rest.slice(cut).replace(/^[ \t]*\n/, "") : rest.slice(cut).trimStart();
+
+    if (open) {
+      chunk += `\n${open.slice(0, 3)}`;
+      reopen = `${open}\n`;
+    } else {
+      reopen = "";
+    }
+    if (chunk.trim()) chunks.push(chunk);
+  }
+
+  const last = reopen + rest;
+  if (last.trim()) chunks.push(last);
+  return chunks;
+}
+
+// ─── Delivery planner ──────────────────────────────────────────────────────
+
+/**
+ * Turn one DeliveryPayload into the channel-compliant sequence of sends.
+ *
+ * Media-only replies arrive with isSilent=true (their text is empty), so
+ * silence only suppresses delivery when there is nothing to attach.
+ */
+export function planDelivery(payload: DeliveryPayload, profile: ChannelCapabilityProfile): DeliveryStep[] {
+  if (payload.isSilent && payload.mediaUrls.length === 0) return [];
+
+  const attachments: Array<{ url: string; mediaKind: MediaKind; asVoice: boolean }> = [];
+  const linked: string[] = [];
+  for (const url of payload.mediaUrls) {
+    const mediaKind = classifyMedia(url);
+    const wantsVoice = payload.audioAsVoice && mediaKind === "audio";
+    if (wantsVoice && profile.voice) {
+      attachments.push({ url, mediaKind, asVoice: true });
+    } else if (profile.media.includes(mediaKind)) {
+      attachments.push({ url, mediaKind, asVoice: false });
+    } else {
+      linked.push(url); // unsupported here — the user can still open it
+    }
+  }
+
+  let text = downgradeMarkdown(payload.text, profile.markdown);
+  if (linked.length > 0) text = [text, ...linked].filter(Boolean).join("\n");
+
+  const steps: DeliveryStep[] = [
+    ...splitMessageText(text, profile.maxMessageChars).map((chunk) => ({ kind: "text" as const, text: chunk })),
+    ...attachments.map((a) => ({ kind: "media" as const, ...a })),
+  ];
+
+  // Threading: quote on the first send only, or keep every send in the thread
+  if (payload.replyToId && profile.threading !== "none") {
+    steps.forEach((step, i) => {
+      if (profile.threading === "thread" || i === 0) step.replyToId = payload.replyToId;
+    });
+  }
+  return steps;
+}
+
+// ─── Usage Example ─────────────────────────────────────────────────────────
+
+/*
+const profile = CHANNEL_PROFILES.sms;
+
+// Same profile tells the model what it can do...
+const systemPrompt = buildAgentSystemPrompt({ ...params, channelCapabilities: profile });
+
+// ...and enforces it on whatever the model wrote anyway:
+const payload = normalizeForDelivery(agentOutput, { currentMessageId });
+for (const step of planDelivery(payload, profile)) {
+  if (step.kind === "text") await sms.send(step.text);
+  else await sms.sendMms(step.url);
+}
+
+// "## Results\n**3 failures** — see [CI](https://ci.example.com/1)\nMEDIA:https://x/report.pdf"
+// on sms becomes:
+//   [{ kind: "text", text: "Results\n3 failures — see CI (https://ci.example.com/1)\nhttps://x/report.pdf" }]
+// (PDF isn't MMS-able → linked; markdown → plain)
+
+// 5,000 chars with a code block on discord (2,000):
+//   chunk 1 ends "...\n```"       (fence closed)
+//   chunk 2 starts "```ts\n..."   (fence reopened with its language)
+*/
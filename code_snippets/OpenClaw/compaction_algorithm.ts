@@ -10,16 +10,37 @@
  *   to context window (prevents single-message chunks from exceeding model limits)
  * - summarizeInStages: split history into N parts by token share, summarize each
  *   independently, then merge partial summaries into a final cohesive summary
+ * - summarizeIncrementally: rolling summary persisted next to the session file
+ *   with a high-water mark; each compaction summarizes only messages past the
+ *   mark and merges the result into the previous summary. Full rebuild when
+ *   the instructions/identifier policy change or the transcript was rewritten
  * - pruneHistoryForContextShare: iteratively drop oldest chunks until history
  *   fits within a token budget, repairing orphaned tool_result entries after each drop
  * - Identifier preservation: strict/custom/off policy — UUIDs, hashes, URLs,
  *   file names must survive summarization verbatim
- * - Safety margin (1.2x) compensates for token estimation inaccuracy
+ * - Token counts come from a pluggable Tokenizer (tokenizer.ts) resolved by
+ *   model id; without one, the chars/4 heuristic is used
+ * - Safety margin (1.2x) compensates for heuristic estimation inaccuracy;
+ *   exact BPE counts only need a small allowance for message framing
+ * - summarizeWithAudit: checks the summary against identifiers extracted from
+ *   the source (summary_audit.ts) and re-prompts once with the missing list.
+ *   summarizeInStages and summarizeIncrementally audit every stage and return
+ *   the final audit, which the engine passes on as CompactResult.result.audit
  * - Oversized message fallback: if a single message exceeds 50% of context,
  *   it's excluded from summarization and noted in the summary
  * - toolResult.details stripped before summarization (security: untrusted payloads)
  */
 
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import {
+  auditSummary,
+  buildMissingIdentifiersInstruction,
+  type IdentifierAuditOptions,
+  type SummaryAudit,
+} from "./summary_audit";
+import { countMessageTokens, heuristicTokenizer, type Tokenizer } from "./tokenizer";
+
 // --- Types ---
 
 type AgentMessage = { role: string; content: string; timestamp?: number };
@@ -31,11 +52,41 @@ type CompactionSummarizationInstructions = {
   identifierInstructions?: string;
 };
 
+/**
+ * Persisted at `<sessionFile>.summary.json`. Messages [0, highWaterMark) of
+ * the session transcript are folded into `summary`.
+ */
+type RollingSummaryState = {
+  version: 1;
+  summary: string;
+  highWaterMark: number;
+  /** Hash of the last folded message: detects transcript rewrites below the mark. */
+  anchorHash: string;
+  /** Hash of everything that shaped the summary (instructions, policy, merge prompt). */
+  fingerprint: string;
+  updatedAt: number;
+};
+
+type SummaryAuditParams = IdentifierAuditOptions & { maxReprompts?: number };
+
+type AuditedSummary = { summary: string; audit?: SummaryAudit };
+
+type RollingSummaryResult = {
+  summary: string;
+  mode: "incremental" | "full" | "unchanged";
+  rebuildReason?: "forced" | "no-state" | "fingerprint-changed" | "transcript-rewritten";
+  summarizedMessages: number; // how many messages were sent to the summarizer
+  state: RollingSummaryState;
+  /** Audit of this compaction's summary; undefined when "unchanged" or identifierPolicy is "off". */
+  audit?: SummaryAudit;
+};
+
 // --- Constants ---
 
 const BASE_CHUNK_RATIO = 0.4;   // Default: each chunk = 40% of context window
 const MIN_CHUNK_RATIO = 0.15;   // Floor when messages are very large
 const SAFETY_MARGIN = 1.2;      // 20% buffer for estimation inaccuracy
+const EXACT_SAFETY_MARGIN = 1.05; // exact BPE: only role/framing tokens uncounted
 const SUMMARIZATION_OVERHEAD_TOKENS = 4096; // Reserved for prompt/instructions
 const DEFAULT_PARTS = 2;
 
@@ -60,13 +111,17 @@ const MERGE_SUMMARIES_INSTRUCTIONS = [
 
 // --- Token estimation ---
 
-/** Rough estimation: ~4 chars per token. Applied with SAFETY_MARGIN. */
-function estimateTokens(message: AgentMessage): number {
-  return Math.ceil(message.content.length / 4);
+/** Tokenizer count (cached per message); chars/4 when no tokenizer is given. */
+function estimateTokens(message: AgentMessage, tokenizer: Tokenizer = heuristicTokenizer): number {
+  return countMessageTokens(message, tokenizer);
 }
 
-function estimateMessagesTokens(messages: AgentMessage[]): number {
-  return messages.reduce((sum, m) => sum + estimateTokens(m), 0);
+function estimateMessagesTokens(messages: AgentMessage[], tokenizer?: Tokenizer): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m, tokenizer), 0);
+}
+
+function resolveSafetyMargin(tokenizer?: Tokenizer): number {
+  return tokenizer?.exact ? EXACT_SAFETY_MARGIN : SAFETY_MARGIN;
 }
 
 // --- Adaptive Chunk Ratio ---
@@ -81,12 +136,16 @@ function estimateMessagesTokens(messages: AgentMessage[]): number {
  *
  * Triggers when avg message > 10% of context window.
  */
-function computeAdaptiveChunkRatio(messages: AgentMessage[], contextWindow: number): number {
+function computeAdaptiveChunkRatio(
+  messages: AgentMessage[],
+  contextWindow: number,
+  tokenizer?: Tokenizer,
+): number {
   if (messages.length === 0) return BASE_CHUNK_RATIO;
 
-  const totalTokens = estimateMessagesTokens(messages);
+  const totalTokens = estimateMessagesTokens(messages, tokenizer);
   const avgTokens = totalTokens / messages.length;
-  const safeAvgTokens = avgTokens * SAFETY_MARGIN;
+  const safeAvgTokens = avgTokens * resolveSafetyMargin(tokenizer);
   const avgRatio = safeAvgTokens / contextWindow;
 
   if (avgRatio > 0.1) {
@@ -104,19 +163,23 @@ function computeAdaptiveChunkRatio(messages: AgentMessage[], contextWindow: numb
  * Split messages into N chunks of roughly equal token count.
  * Used for parallel summarization stages.
  */
-function splitMessagesByTokenShare(messages: AgentMessage[], parts = DEFAULT_PARTS): AgentMessage[][] {
+function splitMessagesByTokenShare(
+  messages: AgentMessage[],
+  parts = DEFAULT_PARTS,
+  tokenizer?: Tokenizer,
+): AgentMessage[][] {
   if (messages.length === 0) return [];
   const normalizedParts = Math.min(Math.max(1, Math.floor(parts)), messages.length);
   if (normalizedParts <= 1) return [messages];
 
-  const totalTokens = estimateMessagesTokens(messages);
+  const totalTokens = estimateMessagesTokens(messages, tokenizer);
   const targetTokens = totalTokens / normalizedParts;
   const chunks: AgentMessage[][] = [];
   let current: AgentMessage[] = [];
   let currentTokens = 0;
 
   for (const msg of messages) {
-    const msgTokens = estimateTokens(msg);
+    const msgTokens = estimateTokens(msg, tokenizer);
     if (chunks.length < normalizedParts - 1 && current.length > 0 && currentTokens + msgTokens > targetTokens) {
       chunks.push(current);
       current = [];
@@ -135,15 +198,19 @@ function splitMessagesByTokenShare(messages: AgentMessage[], parts = DEFAULT_PAR
  * Applies safety margin to compensate for underestimation.
  * Oversized single messages get their own chunk to avoid unbounded growth.
  */
-function chunkMessagesByMaxTokens(messages: AgentMessage[], maxTokens: number): AgentMessage[][] {
+function chunkMessagesByMaxTokens(
+  messages: AgentMessage[],
+  maxTokens: number,
+  tokenizer?: Tokenizer,
+): AgentMessage[][] {
   if (messages.length === 0) return [];
-  const effectiveMax = Math.max(1, Math.floor(maxTokens / SAFETY_MARGIN));
+  const effectiveMax = Math.max(1, Math.floor(maxTokens / resolveSafetyMargin(tokenizer)));
   const chunks: AgentMessage[][] = [];
   let current: AgentMessage[] = [];
   let currentTokens = 0;
 
   for (const msg of messages) {
-    const msgTokens = estimateTokens(msg);
+    const msgTokens = estimateTokens(msg, tokenizer);
     if (current.length > 0 && currentTokens + msgTokens > effectiveMax) {
       chunks.push(current);
       current = [];
@@ -189,8 +256,8 @@ function buildSummarizationInstructions(
 // --- Oversized Message Detection ---
 
 /** Single message > 50% of context can't be summarized safely. */
-function isOversizedForSummary(msg: AgentMessage, contextWindow: number): boolean {
-  return estimateTokens(msg) * SAFETY_MARGIN > contextWindow * 0.5;
+function isOversizedForSummary(msg: AgentMessage, contextWindow: number, tokenizer?: Tokenizer): boolean {
+  return estimateTokens(msg, tokenizer) * resolveSafetyMargin(tokenizer) > contextWindow * 0.5;
 }
 
 // --- Staged Summarization ---
@@ -209,6 +276,7 @@ async function summarizeWithFallback(params: {
   summarize: (messages: AgentMessage[], instructions?: string) => Promise<string>;
   customInstructions?: string;
   summarizationInstructions?: CompactionSummarizationInstructions;
+  tokenizer?: Tokenizer;
 }): Promise<string> {
   if (params.messages.length === 0) return "No prior history.";
 
@@ -218,7 +286,7 @@ async function summarizeWithFallback(params: {
 
   // Try full summarization
   try {
-    const chunks = chunkMessagesByMaxTokens(params.messages, params.maxChunkTokens);
+    const chunks = chunkMessagesByMaxTokens(params.messages, params.maxChunkTokens, params.tokenizer);
     let summary: string | undefined;
     for (const chunk of chunks) {
       summary = await params.summarize(chunk, instructions);
@@ -230,8 +298,9 @@ async function summarizeWithFallback(params: {
   const small: AgentMessage[] = [];
   const oversizedNotes: string[] = [];
   for (const msg of params.messages) {
-    if (isOversizedForSummary(msg, params.contextWindow)) {
-      oversizedNotes.push(`[Large ${msg.role} (~${Math.round(estimateTokens(msg) / 1000)}K tokens) omitted]`);
+    if (isOversizedForSummary(msg, params.contextWindow, params.tokenizer)) {
+      const approxK = Math.round(estimateTokens(msg, params.tokenizer) / 1000);
+      oversizedNotes.push(`[Large ${msg.role} (~${approxK}K tokens) omitted]`);
     } else {
       small.push(msg);
     }
@@ -248,6 +317,60 @@ async function summarizeWithFallback(params: {
   return `Context contained ${params.messages.length} messages (${oversizedNotes.length} oversized). Summary unavailable.`;
 }
 
+/**
+ * Audit loop shared by every summarizer (also sqlite_context_engine.ts).
+ *
+ * The identifier instructions are a request, not a guarantee. The audit
+ * extracts identifiers from the source and diffs them against the summary;
+ * on failure `summarize` is called again with the exact missing list. The
+ * best attempt (most identifiers kept) wins.
+ */
+export async function auditWithReprompt(params: {
+  source: string;
+  summarize: (missingInstruction?: string) => Promise<string>;
+  audit?: SummaryAuditParams;
+}): Promise<{ summary: string; audit: SummaryAudit }> {
+  const { source } = params;
+  const maxReprompts = params.audit?.maxReprompts ?? 1;
+  const summary = await params.summarize();
+  let best = { summary, audit: auditSummary({ source, summary, options: params.audit }) };
+
+  for (let attempt = 2; !best.audit.passed && attempt <= maxReprompts + 1; attempt++) {
+    const retry = await params.summarize(buildMissingIdentifiersInstruction(best.audit.missing));
+    const audit = auditSummary({ source, summary: retry, options: params.audit, attempts: attempt });
+    if (audit.preserved >= best.audit.preserved) best = { summary: retry, audit };
+    else best.audit = { ...best.audit, attempts: attempt, reprompted: true };
+  }
+
+  return best;
+}
+
+/**
+ * Summarize, then verify identifier preservation (auditWithReprompt), with
+ * the missing list appended to the custom instructions on a retry.
+ * `auditMessages` is what the summary must cover when that differs from
+ * `messages` — a merge of partial summaries is checked against the history.
+ * Skipped when identifierPolicy is "off" — nothing was asked for.
+ */
+async function summarizeWithAudit(params: Parameters<typeof summarizeWithFallback>[0] & {
+  audit?: SummaryAuditParams;
+  auditMessages?: AgentMessage[];
+}): Promise<AuditedSummary> {
+  if (params.summarizationInstructions?.identifierPolicy === "off") {
+    return { summary: await summarizeWithFallback(params) };
+  }
+
+  return auditWithReprompt({
+    source: (params.auditMessages ?? params.messages).map((m) => m.content).join("\n"),
+    audit: params.audit,
+    summarize: (missingInstruction) =>
+      summarizeWithFallback({
+        ...params,
+        customInstructions: [params.customInstructions?.trim(), missingInstruction].filter(Boolean).join("\n\n"),
+      }),
+  });
+}
+
 /**
  * Multi-stage summarization: split -> summarize each part -> merge summaries.
  *
@@ -264,28 +387,30 @@ async function summarizeInStages(params: {
   summarizationInstructions?: CompactionSummarizationInstructions;
   parts?: number;
   minMessagesForSplit?: number;
-}): Promise<string> {
+  tokenizer?: Tokenizer;
+  audit?: SummaryAuditParams;
+}): Promise<AuditedSummary> {
   const { messages } = params;
-  if (messages.length === 0) return "No prior history.";
+  if (messages.length === 0) return { summary: "No prior history." };
 
   const minForSplit = Math.max(2, params.minMessagesForSplit ?? 4);
   const parts = Math.min(Math.max(1, Math.floor(params.parts ?? DEFAULT_PARTS)), messages.length);
-  const totalTokens = estimateMessagesTokens(messages);
+  const totalTokens = estimateMessagesTokens(messages, params.tokenizer);
 
   // Skip splitting if messages are few or small enough
   if (parts <= 1 || messages.length < minForSplit || totalTokens <= params.maxChunkTokens) {
-    return summarizeWithFallback(params);
+    return summarizeWithAudit(params);
   }
 
-  const splits = splitMessagesByTokenShare(messages, parts).filter((c) => c.length > 0);
-  if (splits.length <= 1) return summarizeWithFallback(params);
+  const splits = splitMessagesByTokenShare(messages, parts, params.tokenizer).filter((c) => c.length > 0);
+  if (splits.length <= 1) return summarizeWithAudit(params);
 
-  // Stage 1: Summarize each split independently
+  // Stage 1: Summarize each split independently. Each part is audited against
+  // its own chunk: an identifier a partial summary drops can't come back in the merge.
   const partialSummaries: string[] = [];
   for (const chunk of splits) {
-    partialSummaries.push(await summarizeWithFallback({ ...params, messages: chunk }));
+    partialSummaries.push((await summarizeWithAudit({ ...params, messages: chunk })).summary);
   }
-  if (partialSummaries.length === 1) return partialSummaries[0];
 
   // Stage 2: Merge partial summaries into final cohesive summary
   const mergeMessages: AgentMessage[] = partialSummaries.map((s) => ({
@@ -295,13 +420,130 @@ async function summarizeInStages(params: {
     ? `${MERGE_SUMMARIES_INSTRUCTIONS}\n\n${params.customInstructions}`
     : MERGE_SUMMARIES_INSTRUCTIONS;
 
-  return summarizeWithFallback({
+  return summarizeWithAudit({
     ...params,
     messages: mergeMessages,
     customInstructions: mergeInstructions,
+    auditMessages: messages,
   });
 }
 
+// --- Incremental (Rolling) Summarization ---
+
+function resolveSummaryStatePath(sessionFile: string): string {
+  return `${sessionFile}.summary.json`;
+}
+
+async function readSummaryState(sessionFile: string): Promise<RollingSummaryState | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(resolveSummaryStatePath(sessionFile), "utf8"));
+    return parsed?.version === 1 && typeof parsed.summary === "string" ? parsed : null;
+  } catch {
+    return null; // missing or corrupt → caller rebuilds
+  }
+}
+
+/** Temp file + rename so a crash mid-write never leaves a torn summary. */
+async function writeSummaryState(sessionFile: string, state: RollingSummaryState): Promise<void> {
+  const statePath = resolveSummaryStatePath(sessionFile);
+  const tmpPath = `${statePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), "utf8");
+  await fs.rename(tmpPath, statePath);
+}
+
+function hashMessage(message: AgentMessage | undefined): string {
+  if (!message) return "";
+  return createHash("sha256").update(message.role).update("\0").update(message.content).digest("hex");
+}
+
+/**
+ * Any change here invalidates the stored summary: a summary produced under
+ * identifierPolicy "off" can't be trusted to contain identifiers that
+ * "strict" would have kept.
+ */
+function computeSummaryFingerprint(
+  customInstructions?: string,
+  instructions?: CompactionSummarizationInstructions,
+): string {
+  return createHash("sha256")
+    .update(buildSummarizationInstructions(customInstructions, instructions) ?? "")
+    .update("\0")
+    .update(MERGE_SUMMARIES_INSTRUCTIONS)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Summarize only what's new since the last compaction.
+ *
+ * Why? summarizeInStages re-reads the whole history on every compaction, so
+ * cost grows with session length. With a stored summary + high-water mark,
+ * each compaction pays only for the delta plus one merge call.
+ *
+ * 1. No state / forced / fingerprint changed / transcript rewritten → full rebuild
+ * 2. Nothing past the mark → return stored summary unchanged
+ * 3. Otherwise summarize messages[mark..] and merge with the previous summary
+ *    using MERGE_SUMMARIES_INSTRUCTIONS (previous first, so recency ordering holds)
+ */
+async function summarizeIncrementally(params: Parameters<typeof summarizeInStages>[0] & {
+  sessionFile: string;
+  forceFullRebuild?: boolean;
+}): Promise<RollingSummaryResult> {
+  const { messages, sessionFile } = params;
+  const fingerprint = computeSummaryFingerprint(params.customInstructions, params.summarizationInstructions);
+  const previous = params.forceFullRebuild ? null : await readSummaryState(sessionFile);
+
+  let rebuildReason: RollingSummaryResult["rebuildReason"];
+  if (params.forceFullRebuild) rebuildReason = "forced";
+  else if (!previous) rebuildReason = "no-state";
+  else if (previous.fingerprint !== fingerprint) rebuildReason = "fingerprint-changed";
+  else if (
+    previous.highWaterMark > messages.length ||
+    hashMessage(messages[previous.highWaterMark - 1]) !== previous.anchorHash
+  ) {
+    rebuildReason = "transcript-rewritten";
+  }
+
+  const commit = async (
+    { summary, audit }: AuditedSummary,
+    mode: RollingSummaryResult["mode"],
+    summarized: number,
+  ) => {
+    const state: RollingSummaryState = {
+      version: 1,
+      summary,
+      highWaterMark: messages.length,
+      anchorHash: hashMessage(messages[messages.length - 1]),
+      fingerprint,
+      updatedAt: Date.now(),
+    };
+    if (mode !== "unchanged") await writeSummaryState(sessionFile, state);
+    return { summary, mode, rebuildReason, summarizedMessages: summarized, state, audit };
+  };
+
+  if (rebuildReason || !previous) {
+    return commit(await summarizeInStages(params), "full", messages.length);
+  }
+
+  const delta = messages.slice(previous.highWaterMark);
+  if (delta.length === 0) return commit({ summary: previous.summary }, "unchanged", 0);
+
+  const { summary: deltaSummary } = await summarizeInStages({ ...params, messages: delta });
+  const mergeInstructions = params.customInstructions?.trim()
+    ? `${MERGE_SUMMARIES_INSTRUCTIONS}\n\n${params.customInstructions}`
+    : MERGE_SUMMARIES_INSTRUCTIONS;
+  const previousMessage = { role: "user", content: previous.summary, timestamp: previous.updatedAt };
+  const merged = await summarizeWithAudit({
+    ...params,
+    messages: [previousMessage, { role: "user", content: deltaSummary, timestamp: Date.now() }],
+    customInstructions: mergeInstructions,
+    // Identifiers already in the stored summary must survive the merge too
+    auditMessages: [previousMessage, ...delta],
+  });
+
+  return commit(merged, "incremental", delta.length);
+}
+
 // --- History Pruning for Context Share ---
 
 /**
@@ -310,15 +552,22 @@ async function summarizeInStages(params: {
  * After each chunk drop, repairs orphaned tool_result entries (whose tool_use
  * was in the dropped chunk) to prevent API errors. Dropped messages are
  * collected for optional summarization.
+ *
+ * With `foldedThrough` (a rolling summary's highWaterMark, relative to
+ * params.messages[0]), dropped messages the summary already covers are split
+ * out: only `unsummarizedDropped` needs summarizing before it is lost.
  */
 function pruneHistoryForContextShare(params: {
   messages: AgentMessage[];
   maxContextTokens: number;
   maxHistoryShare?: number; // default 0.5 = 50% of context
   parts?: number;
+  tokenizer?: Tokenizer;
+  foldedThrough?: number;
 }): {
   messages: AgentMessage[];
   droppedMessages: AgentMessage[];
+  unsummarizedDropped: AgentMessage[];
   droppedChunks: number;
   budgetTokens: number;
 } {
@@ -329,8 +578,8 @@ function pruneHistoryForContextShare(params: {
   let droppedChunks = 0;
   const parts = Math.min(Math.max(1, Math.floor(params.parts ?? DEFAULT_PARTS)), kept.length);
 
-  while (kept.length > 0 && estimateMessagesTokens(kept) > budgetTokens) {
-    const chunks = splitMessagesByTokenShare(kept, parts);
+  while (kept.length > 0 && estimateMessagesTokens(kept, params.tokenizer) > budgetTokens) {
+    const chunks = splitMessagesByTokenShare(kept, parts, params.tokenizer);
     if (chunks.length <= 1) break;
 
     const [dropped, ...rest] = chunks;
@@ -345,32 +594,69 @@ function pruneHistoryForContextShare(params: {
     droppedChunks++;
   }
 
-  return { messages: kept, droppedMessages: allDropped, droppedChunks, budgetTokens };
+  // Pruning always drops from the head, so dropped[i] is params.messages[i]
+  const folded = Math.max(0, Math.min(params.foldedThrough ?? 0, allDropped.length));
+  return {
+    messages: kept,
+    droppedMessages: allDropped,
+    unsummarizedDropped: allDropped.slice(folded),
+    droppedChunks,
+    budgetTokens,
+  };
 }
 
 // --- Usage Example ---
 
 /*
 // Adaptive chunking for summarization:
-const ratio = computeAdaptiveChunkRatio(messages, 200_000);
+const tokenizer = resolveTokenizer(model.id); // falls back to chars/4 for unknown models
+const ratio = computeAdaptiveChunkRatio(messages, 200_000, tokenizer);
 // ratio = 0.4 (normal) or 0.2 (messages are large)
 
-// Staged summarization:
-const summary = await summarizeInStages({
+// Staged summarization (every stage audited, see summarizeWithAudit):
+const { summary, audit: stagedAudit } = await summarizeInStages({
   messages: longHistory,
   contextWindow: 200_000,
   maxChunkTokens: 80_000,
   summarize: (msgs, instructions) => llm.summarize(msgs, instructions),
   summarizationInstructions: { identifierPolicy: "strict" },
   parts: 3,
+  tokenizer,
+});
+
+// Incremental compaction: first call summarizes everything, later calls only
+// the messages appended since, merged into the stored summary.
+const rolling = await summarizeIncrementally({
+  sessionFile: "/data/sessions/agent-main.jsonl", // state → agent-main.jsonl.summary.json
+  messages: fullHistory,
+  contextWindow: 200_000,
+  maxChunkTokens: 80_000,
+  summarize: (msgs, instructions) => llm.summarize(msgs, instructions),
+  summarizationInstructions: { identifierPolicy: "strict" },
+  tokenizer,
+});
+// rolling.mode: "full" (rebuildReason: "no-state") → later "incremental"
+// rolling.audit → returned to the runtime as CompactResult.result.audit
+// Switching identifierPolicy to "custom" → "full" (rebuildReason: "fingerprint-changed")
+
+// Verified summarization: re-prompts once if identifiers went missing.
+const { summary: verified, audit } = await summarizeWithAudit({
+  messages: chunk,
+  contextWindow: 200_000,
+  maxChunkTokens: 80_000,
+  summarize: (msgs, instructions) => llm.summarize(msgs, instructions),
+  summarizationInstructions: { identifierPolicy: "strict" },
+  audit: { extraFamilies: [{ family: "order", pattern: /\bORD-\d{6}\b/g }] },
 });
+// audit: { checked: 12, preserved: 12, passed: true, attempts: 2, reprompted: true, ... }
 
 // Pruning for context share (e.g., before passing history to subagent):
 const pruned = pruneHistoryForContextShare({
   messages: fullHistory,
   maxContextTokens: 200_000,
   maxHistoryShare: 0.5,
+  foldedThrough: rolling.state.highWaterMark,
 });
 // pruned.messages fits within 100K tokens
-// pruned.droppedMessages can be summarized separately
+// pruned.unsummarizedDropped is the only part that still needs summarizing
 */
@@ -9,19 +9,30 @@
  * - Engines own how context is stored and retrieved; runtime owns transcript I/O
  * - Registry is process-global (Symbol.for) so duplicated bundles share state
  * - Two registration paths: core (trusted, can refresh) vs public SDK (unprivileged)
- * - Resolution: config slot override -> default engine id
+ * - Resolution: config slot override ("id" or "id@version") -> default engine id
+ * - Engines register with semver versions; resolution picks the highest
+ *   unless the slot pins one
+ * - Live swap: a LiveContextEngine handle gates new calls, drains in-flight
+ *   ones, bootstraps every active session on the new instance, then disposes
+ *   the old one — a failed swap leaves the old engine serving
+ * - Registry emits change events (registered / swapped / swap_failed) so the
+ *   gateway can upgrade engines without a restart
  * - Legacy compat proxy: auto-strips unrecognized params (sessionKey, prompt)
  *   when older engine plugins reject them, learned per-method and cached
- * - CompactResult carries token counts for before/after so caller can track savings
+ * - CompactResult carries token counts for before/after so caller can track savings,
+ *   plus an optional SummaryAudit of identifier preservation in the summary
  * - Subagent lifecycle hooks: prepareSubagentSpawn (with rollback) + onSubagentEnded
  * - Transcript rewrite: engines request rewrites via runtimeContext callback,
  *   keeping engine logic decoupled from session DAG implementation
  */
 
+import { EventEmitter } from "node:events";
+import type { SummaryAudit } from "./summary_audit";
+
 // --- Result Types ---
 
 /** Assembled context ready for the LLM prompt. */
-type AssembleResult = {
+export type AssembleResult = {
   messages: AgentMessage[];
   estimatedTokens: number;
   /** Extra instructions prepended to system prompt by the engine. */
@@ -29,7 +40,7 @@ type AssembleResult = {
 };
 
 /** Outcome of a compaction operation. */
-type CompactResult = {
+export type CompactResult = {
   ok: boolean;
   compacted: boolean;
   reason?: string;
@@ -38,15 +49,17 @@ type CompactResult = {
     firstKeptEntryId?: string;
     tokensBefore: number;
     tokensAfter?: number;
+    /** Identifier preservation check of `summary` (summary_audit.ts). */
+    audit?: SummaryAudit;
     details?: unknown;
   };
 };
 
-type IngestResult = { ingested: boolean };
-type IngestBatchResult = { ingestedCount: number };
-type BootstrapResult = { bootstrapped: boolean; importedMessages?: number; reason?: string };
+export type IngestResult = { ingested: boolean };
+export type IngestBatchResult = { ingestedCount: number };
+export type BootstrapResult = { bootstrapped: boolean; importedMessages?: number; reason?: string };
 
-type ContextEngineInfo = {
+export type ContextEngineInfo = {
   id: string;
   name: string;
   version?: string;
@@ -55,15 +68,15 @@ type ContextEngineInfo = {
   ownsCompaction?: boolean;
 };
 
-type SubagentSpawnPreparation = {
+export type SubagentSpawnPreparation = {
   /** Rollback pre-spawn setup when subagent launch fails. */
   rollback: () => void | Promise<void>;
 };
 
-type SubagentEndReason = "deleted" | "completed" | "swept" | "released";
+export type SubagentEndReason = "deleted" | "completed" | "swept" | "released";
 
 // Simplified stand-in for actual message type
-type AgentMessage = Record<string, unknown>;
+export type AgentMessage = Record<string, unknown>;
 
 // --- Transcript Rewrite (Engine -> Runtime boundary) ---
 
@@ -72,24 +85,24 @@ type AgentMessage = Record<string, unknown>;
  * updated on disk. This callback-based boundary prevents engines from
  * depending on internal session storage formats.
  */
-type TranscriptRewriteRequest = {
+export type TranscriptRewriteRequest = {
   replacements: Array<{ entryId: string; message: AgentMessage }>;
 };
 
-type TranscriptRewriteResult = {
+export type TranscriptRewriteResult = {
   changed: boolean;
   bytesFreed: number;
   rewrittenEntries: number;
   reason?: string;
 };
 
-type ContextEngineRuntimeContext = Record<string, unknown> & {
+export type ContextEngineRuntimeContext = Record<string, unknown> & {
   rewriteTranscriptEntries?: (req: TranscriptRewriteRequest) => Promise<TranscriptRewriteResult>;
 };
 
 // --- ContextEngine Interface ---
 
-interface ContextEngine {
+export interface ContextEngine {
   readonly info: ContextEngineInfo;
 
   /** Initialize engine for a session, optionally importing history. */
@@ -154,37 +167,89 @@ interface ContextEngine {
 
 // --- Registry (Process-Global Singleton) ---
 
-type ContextEngineFactory = () => ContextEngine | Promise<ContextEngine>;
-type RegistrationResult = { ok: true } | { ok: false; existingOwner: string };
+export type ContextEngineFactory = () => ContextEngine | Promise<ContextEngine>;
+export type RegistrationResult =
+  | { ok: true }
+  | { ok: false; existingOwner: string }
+  | { ok: false; reason: string };
+
+export type ContextEngineRegistryEvent =
+  | { type: "registered"; id: string; version: string; owner: string }
+  | { type: "swapped"; id: string; fromVersion: string; toVersion: string; sessions: number }
+  | { type: "swap_failed"; id: string; fromVersion: string; toVersion: string; error: string };
+
+type RegistryEntry = { owner: string; versions: Map<string, ContextEngineFactory> };
 
 /**
  * Process-global registry using Symbol.for so duplicated dist chunks
  * (different bundler outputs) still share one registry map at runtime.
  */
 const REGISTRY_KEY = Symbol.for("app.contextEngineRegistry");
-type RegistryState = { engines: Map<string, { factory: ContextEngineFactory; owner: string }> };
+type RegistryState = {
+  engines: Map<string, RegistryEntry>;
+  live: Map<string, LiveContextEngine>;
+  events: EventEmitter;
+};
 
 function getRegistry(): RegistryState {
   const g = globalThis as any;
-  if (!g[REGISTRY_KEY]) g[REGISTRY_KEY] = { engines: new Map() };
+  if (!g[REGISTRY_KEY]) g[REGISTRY_KEY] = { engines: new Map(), live: new Map(), events: new EventEmitter() };
   return g[REGISTRY_KEY];
 }
 
-const CORE_OWNER = "core";
-const PUBLIC_OWNER = "public-sdk";
+export const CORE_OWNER = "core";
+export const PUBLIC_OWNER = "public-sdk";
+
+/** Engines registered without a version (pre-versioning plugins). */
+const UNVERSIONED = "0.0.0";
+
+// --- Semver ---
+
+const SEMVER_RE = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+function parseSemver(version: string): [number, number, number, string | undefined] | null {
+  const m = SEMVER_RE.exec(version.trim());
+  return m ? [Number(m[1]), Number(m[2]), Number(m[3]), m[4]] : null;
+}
+
+/** Precedence per semver §11, simplified: a prerelease sorts before its release. */
+function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a)!;
+  const pb = parseSemver(b)!;
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return (pa[i] as number) - (pb[i] as number);
+  }
+  if (pa[3] === pb[3]) return 0;
+  if (pa[3] === undefined) return 1;
+  if (pb[3] === undefined) return -1;
+  return pa[3] < pb[3] ? -1 : 1;
+}
+
+function latestVersion(entry: RegistryEntry): string | undefined {
+  return [...entry.versions.keys()].sort(compareSemver).pop();
+}
+
+// --- Registration ---
 
 /**
  * Trusted registration path. Core can refresh its own registrations.
  * Rejects attempts to claim core-owned IDs from non-core owners.
+ * A new version from the same owner is always accepted; re-registering an
+ * existing version needs allowSameOwnerRefresh. An invalid semver version is
+ * rejected with a reason rather than thrown.
  */
-function registerContextEngineForOwner(
+export function registerContextEngineForOwner(
   id: string,
   factory: ContextEngineFactory,
   owner: string,
-  opts?: { allowSameOwnerRefresh?: boolean },
+  opts?: { allowSameOwnerRefresh?: boolean; version?: string },
 ): RegistrationResult {
   const registry = getRegistry().engines;
   const existing = registry.get(id);
+  const version = opts?.version?.trim() || UNVERSIONED;
+  if (!parseSemver(version)) {
+    return { ok: false, reason: `invalid semver version "${version}"` };
+  }
 
   // Protect core-owned IDs
   if (id === "legacy" && owner !== CORE_OWNER) {
@@ -193,50 +258,272 @@ function registerContextEngineForOwner(
   if (existing && existing.owner !== owner) {
     return { ok: false, existingOwner: existing.owner };
   }
-  if (existing && !opts?.allowSameOwnerRefresh) {
+  if (existing?.versions.has(version) && !opts?.allowSameOwnerRefresh) {
     return { ok: false, existingOwner: existing.owner };
   }
 
-  registry.set(id, { factory, owner });
+  const entry = existing ?? { owner, versions: new Map() };
+  entry.versions.set(version, factory);
+  registry.set(id, entry);
+  emitRegistryEvent({ type: "registered", id, version, owner });
   return { ok: true };
 }
 
 /** Public SDK entry point — unprivileged, cannot claim core IDs. */
-function registerContextEngine(id: string, factory: ContextEngineFactory): RegistrationResult {
-  return registerContextEngineForOwner(id, factory, PUBLIC_OWNER);
+export function registerContextEngine(
+  id: string,
+  factory: ContextEngineFactory,
+  opts?: { version?: string },
+): RegistrationResult {
+  return registerContextEngineForOwner(id, factory, PUBLIC_OWNER, opts);
 }
 
-function getContextEngineFactory(id: string): ContextEngineFactory | undefined {
-  return getRegistry().engines.get(id)?.factory;
+/** Latest version unless one is requested. */
+export function getContextEngineFactory(id: string, version?: string): ContextEngineFactory | undefined {
+  const entry = getRegistry().engines.get(id);
+  if (!entry) return undefined;
+  return entry.versions.get(version ?? latestVersion(entry) ?? UNVERSIONED);
 }
 
-function listContextEngineIds(): string[] {
+export function listContextEngineIds(): string[] {
   return [...getRegistry().engines.keys()];
 }
 
+/** Registered versions, ascending. */
+export function listContextEngineVersions(id: string): string[] {
+  const entry = getRegistry().engines.get(id);
+  return entry ? [...entry.versions.keys()].sort(compareSemver) : [];
+}
+
+// --- Registry change events ---
+
+function emitRegistryEvent(event: ContextEngineRegistryEvent): void {
+  getRegistry().events.emit("change", event);
+}
+
+/** Subscribe to registry changes; returns an unsubscribe function. */
+export function onContextEngineRegistryChange(listener: (event: ContextEngineRegistryEvent) => void): () => void {
+  const { events } = getRegistry();
+  events.on("change", listener);
+  return () => events.off("change", listener);
+}
+
 // --- Resolution ---
 
+type ContextEngineConfig = { plugins?: { slots?: { contextEngine?: string } } };
+
+/** "vector-rag@2.1.0" → { id: "vector-rag", version: "2.1.0" }. */
+function parseEngineSlot(config?: ContextEngineConfig): { id: string; version?: string } {
+  const slot = config?.plugins?.slots?.contextEngine?.trim() || "legacy";
+  const at = slot.lastIndexOf("@");
+  return at > 0 ? { id: slot.slice(0, at), version: slot.slice(at + 1) } : { id: slot };
+}
+
+function resolveEntryVersion(id: string, version?: string): { factory: ContextEngineFactory; version: string } {
+  const entry = getRegistry().engines.get(id);
+  const resolved = version ?? (entry ? latestVersion(entry) : undefined);
+  const factory = resolved ? entry?.versions.get(resolved) : undefined;
+  if (!factory || !resolved) {
+    const available = entry
+      ? `versions: ${listContextEngineVersions(id).join(", ")}`
+      : `available: ${listContextEngineIds().join(", ") || "(none)"}`;
+    throw new Error(`Context engine "${id}${version ? `@${version}` : ""}" not registered (${available})`);
+  }
+  return { factory, version: resolved };
+}
+
 /**
  * Resolve which ContextEngine to use.
  *
  * Resolution order:
- *   1. config.plugins.slots.contextEngine (explicit slot override)
+ *   1. config.plugins.slots.contextEngine (explicit slot override, optional @version pin)
  *   2. Default engine id ("legacy")
  *
  * The resolved engine is wrapped in a legacy-compat proxy that auto-strips
  * unrecognized params when older plugins reject them.
  */
-async function resolveContextEngine(config?: { plugins?: { slots?: { contextEngine?: string } } }): Promise<ContextEngine> {
-  const engineId = config?.plugins?.slots?.contextEngine?.trim() || "legacy";
-  const entry = getRegistry().engines.get(engineId);
+export async function resolveContextEngine(config?: ContextEngineConfig): Promise<ContextEngine> {
+  const { id, version } = parseEngineSlot(config);
+  return await resolveEntryVersion(id, version).factory();
+}
+
+// --- Live (hot-swappable) engine ---
+
+const SWAP_DRAIN_TIMEOUT_MS = 30_000;
+
+/**
+ * Stable handle the runtime holds instead of a raw engine. Every call goes
+ * through `run`, which waits while a swap is in progress and counts
+ * in-flight work so the swap can drain it.
+ */
+export class LiveContextEngine implements ContextEngine {
+  private inFlight = 0;
+  private idleWaiters: Array<() => void> = [];
+  private gate: Promise<void> | null = null;
+  /** sessionId → sessionFile, learned from calls that carry both. */
+  private readonly sessions = new Map<string, string>();
+
+  constructor(
+    readonly engineId: string,
+    private current: ContextEngine,
+    public version: string,
+  ) {}
+
+  get info(): ContextEngineInfo {
+    return this.current.info;
+  }
 
-  if (!entry) {
-    throw new Error(
-      `Context engine "${engineId}" not registered. Available: ${listContextEngineIds().join(", ") || "(none)"}`,
+  private async run<T>(fn: (engine: ContextEngine) => Promise<T>): Promise<T> {
+    while (this.gate) await this.gate;
+    this.inFlight++;
+    try {
+      return await fn(this.current);
+    } finally {
+      this.inFlight--;
+      if (this.inFlight === 0) this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  private track(sessionId: string, sessionFile?: string): void {
+    if (sessionFile) this.sessions.set(sessionId, sessionFile);
+  }
+
+  private waitForIdle(timeoutMs: number): Promise<void> {
+    if (this.inFlight === 0) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`drain timed out with ${this.inFlight} call(s) in flight`)), timeoutMs);
+      this.idleWaiters.push(() => { clearTimeout(timer); resolve(); });
+    });
+  }
+
+  /**
+   * Swap to another engine instance:
+   *   1. Close the gate (new calls queue), drain in-flight calls
+   *   2. Create the new instance and bootstrap every active session on it
+   *   3. Point the handle at the new instance, dispose the old one
+   *   4. Open the gate
+   * If 1–2 fail, the new instance is disposed and the old one keeps serving.
+   */
+  async swap(factory: ContextEngineFactory, toVersion: string, drainTimeoutMs = SWAP_DRAIN_TIMEOUT_MS): Promise<void> {
+    while (this.gate) await this.gate; // one swap at a time
+    let openGate!: () => void;
+    this.gate = new Promise((resolve) => { openGate = resolve; });
+    const fromVersion = this.version;
+
+    let next: ContextEngine | undefined;
+    try {
+      await this.waitForIdle(drainTimeoutMs);
+      next = await factory();
+      for (const [sessionId, sessionFile] of this.sessions) {
+        await next.bootstrap?.({ sessionId, sessionFile });
+      }
+
+      const previous = this.current;
+      this.current = next;
+      this.version = toVersion;
+      await previous.dispose?.().catch(() => {}); // old engine's cleanup must not fail the swap
+      emitRegistryEvent({ type: "swapped", id: this.engineId, fromVersion, toVersion, sessions: this.sessions.size });
+    } catch (err) {
+      if (next && next !== this.current) await next.dispose?.().catch(() => {});
+      emitRegistryEvent({ type: "swap_failed", id: this.engineId, fromVersion, toVersion, error: String(err) });
+      throw err;
+    } finally {
+      this.gate = null;
+      openGate();
+    }
+  }
+
+  // --- Delegated lifecycle ---
+
+  bootstrap(params: { sessionId: string; sessionFile: string }): Promise<BootstrapResult> {
+    this.track(params.sessionId, params.sessionFile);
+    return this.run(async (e) => (e.bootstrap ? e.bootstrap(params) : { bootstrapped: false, reason: "not supported" }));
+  }
+
+  maintain(params: Parameters<NonNullable<ContextEngine["maintain"]>>[0]): Promise<TranscriptRewriteResult> {
+    this.track(params.sessionId, params.sessionFile);
+    return this.run(async (e) =>
+      e.maintain ? e.maintain(params) : { changed: false, bytesFreed: 0, rewrittenEntries: 0, reason: "not supported" },
     );
   }
 
-  return await entry.factory();
+  ingest(params: Parameters<ContextEngine["ingest"]>[0]): Promise<IngestResult> {
+    return this.run((e) => e.ingest(params));
+  }
+
+  ingestBatch(params: Parameters<NonNullable<ContextEngine["ingestBatch"]>>[0]): Promise<IngestBatchResult> {
+    return this.run(async (e) => {
+      if (e.ingestBatch) return e.ingestBatch(params);
+      for (const message of params.messages) await e.ingest({ ...params, message });
+      return { ingestedCount: params.messages.length };
+    });
+  }
+
+  afterTurn(params: Parameters<NonNullable<ContextEngine["afterTurn"]>>[0]): Promise<void> {
+    this.track(params.sessionId, params.sessionFile);
+    return this.run(async (e) => { await e.afterTurn?.(params); });
+  }
+
+  assemble(params: Parameters<ContextEngine["assemble"]>[0]): Promise<AssembleResult> {
+    return this.run((e) => e.assemble(params));
+  }
+
+  compact(params: Parameters<ContextEngine["compact"]>[0]): Promise<CompactResult> {
+    this.track(params.sessionId, params.sessionFile);
+    return this.run((e) => e.compact(params));
+  }
+
+  prepareSubagentSpawn(
+    params: Parameters<NonNullable<ContextEngine["prepareSubagentSpawn"]>>[0],
+  ): Promise<SubagentSpawnPreparation | undefined> {
+    return this.run(async (e) => e.prepareSubagentSpawn?.(params));
+  }
+
+  onSubagentEnded(params: { childSessionKey: string; reason: SubagentEndReason }): Promise<void> {
+    this.sessions.delete(params.childSessionKey);
+    return this.run(async (e) => { await e.onSubagentEnded?.(params); });
+  }
+
+  async dispose(): Promise<void> {
+    await this.run(async (e) => { await e.dispose?.(); });
+    getRegistry().live.delete(this.engineId);
+  }
+}
+
+/**
+ * Like resolveContextEngine, but returns the process-wide swappable handle
+ * for the slot's engine id (created on first call). A later call whose slot
+ * pins a different version swaps the handle to it.
+ */
+export async function resolveLiveContextEngine(config?: ContextEngineConfig): Promise<LiveContextEngine> {
+  const { id, version } = parseEngineSlot(config);
+  const live = getRegistry().live;
+  const existing = live.get(id);
+  if (existing) {
+    if (version && version !== existing.version) {
+      await existing.swap(resolveEntryVersion(id, version).factory, version);
+    }
+    return existing;
+  }
+
+  const resolved = resolveEntryVersion(id, version);
+  const handle = new LiveContextEngine(id, await resolved.factory(), resolved.version);
+  live.set(id, handle);
+  return handle;
+}
+
+/**
+ * Swap the live engine for `id` to `version` (default: latest registered).
+ * Rejects when the swap fails, after emitting `swap_failed`; the old engine
+ * keeps serving. Also rejects, without an event, when `id` has no live
+ * instance or the version is not registered.
+ */
+export async function swapContextEngine(id: string, version?: string): Promise<void> {
+  const handle = getRegistry().live.get(id);
+  if (!handle) throw new Error(`Context engine "${id}" has no live instance to swap`);
+  const target = resolveEntryVersion(id, version);
+  if (target.version === handle.version) return;
+  await handle.swap(target.factory, target.version);
 }
 
 // --- Usage Example ---
@@ -250,8 +537,8 @@ registerContextEngineForOwner("legacy", () => new LegacyContextEngine(), "core",
   allowSameOwnerRefresh: true,
 });
 
-// Runtime resolves and uses:
-const engine = await resolveContextEngine(config);
+// Runtime resolves a swappable handle and uses it:
+const engine = await resolveLiveContextEngine(config); // slot "vector-rag" or "vector-rag@1.4.0"
 
 // Assemble context for a turn:
 const { messages, estimatedTokens } = await engine.assemble({
@@ -264,4 +551,20 @@ await engine.afterTurn?.({ sessionId, sessionFile, messages, prePromptMessageCou
 // Overflow recovery compaction:
 const result = await engine.compact({ sessionId, sessionFile, tokenBudget: 200_000, force: true });
 if (result.compacted) console.log(`Compacted: ${result.result?.tokensBefore} -> ${result.result?.tokensAfter} tokens`);
+if (result.result?.audit && !result.result.audit.passed) {
+  log.warn("compaction lost identifiers", result.result.audit.missing);
+}
+
+// Gateway: upgrade in place when a plugin reload registers a newer version
+// (subscribe first: the "registered" event fires synchronously)
+// (listeners are called synchronously and their return value is ignored, so
+// the swap's rejection is caught here)
+onContextEngineRegistryChange((event) => {
+  if (event.type === "registered" && event.id === "vector-rag") {
+    // drains, bootstraps active sessions, disposes 1.4.0; on failure 1.4.0 keeps serving
+    swapContextEngine(event.id).catch((err) => log.error("vector-rag swap failed", err));
+  }
+});
+const registered = registerContextEngine("vector-rag", () => new VectorRAGContextEngine(), { version: "1.5.0" });
+if (!registered.ok) log.error("vector-rag 1.5.0 rejected", registered);
 */
@@ -0,0 +1,385 @@
+/**
+ * ContextEngine Conformance Kit
+ *
+ * Pattern: One scripted session, run against any ContextEngineFactory, that
+ * checks the lifecycle contract and reports pass/fail/skip per method.
+ * Third-party engines registered under PUBLIC_OWNER use it to prove they
+ * behave like the reference engine (sqlite_context_engine.ts).
+ *
+ * Key ideas:
+ * - Contract checks, not behaviour snapshots: engines may summarize however
+ *   they like, but assemble must respect tokenBudget, compact with
+ *   force: false must be idempotent, dispose must release resources, etc.
+ * - Optional methods that aren't implemented are "skip", never "fail"
+ * - Every check runs in a fresh temp dir with its own session file, and a
+ *   thrown error fails only that check — the report is always complete
+ * - Token budget is checked two ways: the engine's own estimatedTokens, and
+ *   an independent heuristic count with tolerance (catches engines that
+ *   under-report)
+ * - dispose is checked by diffing process.getActiveResourcesInfo() and by
+ *   calling it twice (must be safe)
+ * - CLI: `context-engine-conformance <engine-id> [--plugin <module>]`,
+ *   where ids come from listContextEngineIds(); exit code 1 on any failure
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  getContextEngineFactory,
+  listContextEngineIds,
+  type AgentMessage,
+  type ContextEngine,
+  type ContextEngineFactory,
+  type TranscriptRewriteRequest,
+} from "./context_engine";
+import { heuristicTokenizer } from "./tokenizer";
+
+// --- Types ---
+
+type CheckStatus = "pass" | "fail" | "skip";
+
+export type ConformanceCheck = {
+  method: keyof ContextEngine;
+  name: string;
+  status: CheckStatus;
+  detail?: string;
+  durationMs: number;
+};
+
+export type ConformanceReport = {
+  engineId: string;
+  passed: boolean;
+  counts: Record<CheckStatus, number>;
+  checks: ConformanceCheck[];
+};
+
+type CheckContext = {
+  engine: ContextEngine;
+  sessionId: string;
+  sessionFile: string;
+};
+
+/** Thrown inside a check to fail it with a readable reason. */
+class ConformanceFailure extends Error {}
+
+/** Thrown inside a check when the optional method isn't implemented. */
+class ConformanceSkip extends Error {}
+
+// --- Constants ---
+
+/** Independent count may exceed the engine's estimate by this factor. */
+const BUDGET_TOLERANCE = 1.25;
+const SCRIPTED_TURNS = 12;
+const TURN_CHARS = 1_200; // ~300 tokens per message, 24 messages
+
+// --- Scripted session ---
+
+function scriptedMessages(turns = SCRIPTED_TURNS): AgentMessage[] {
+  const messages: AgentMessage[] = [];
+  for (let i = 0; i < turns; i++) {
+    const filler = `turn ${i} `.repeat(Math.ceil(TURN_CHARS / 8)).slice(0, TURN_CHARS);
+    messages.push({ role: "user", content: `Question ${i}: ${filler}`, entryId: `u${i}` });
+    messages.push({ role: "assistant", content: `Answer ${i}: ${filler}`, entryId: `a${i}` });
+  }
+  return messages;
+}
+
+function countTokens(messages: AgentMessage[]): number {
+  return messages.reduce((sum, m) => {
+    const text = typeof m.content === "string" ? m.content : JSON.stringify(m.content ?? "");
+    return sum + heuristicTokenizer.countTokens(text);
+  }, 0);
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new ConformanceFailure(message);
+}
+
+function requireMethod<K extends keyof ContextEngine>(engine: ContextEngine, method: K) {
+  const fn = engine[method];
+  if (typeof fn !== "function") throw new ConformanceSkip(`${String(method)} not implemented`);
+  return (fn as (...args: any[]) => any).bind(engine) as NonNullable<ContextEngine[K]>;
+}
+
+// --- Checks ---
+
+/** Seed the scripted session through whichever ingest path the engine has. */
+async function seed(ctx: CheckContext, messages = scriptedMessages()): Promise<void> {
+  if (ctx.engine.ingestBatch) {
+    await ctx.engine.ingestBatch({ sessionId: ctx.sessionId, messages });
+    return;
+  }
+  for (const message of messages) await ctx.engine.ingest({ sessionId: ctx.sessionId, message });
+}
+
+const CHECKS: Array<{
+  method: ConformanceCheck["method"];
+  name: string;
+  run: (ctx: CheckContext) => Promise<string | void>;
+}> = [
+  {
+    method: "bootstrap",
+    name: "imports an existing transcript and is safe to repeat",
+    async run(ctx) {
+      const bootstrap = requireMethod(ctx.engine, "bootstrap");
+      const lines = scriptedMessages(2).map((m) => JSON.stringify({ id: m.entryId, message: m }));
+      await fs.writeFile(ctx.sessionFile, lines.join("\n") + "\n", "utf8");
+      const first = await bootstrap({ sessionId: ctx.sessionId, sessionFile: ctx.sessionFile });
+      assert(first.bootstrapped, `first bootstrap returned bootstrapped=false (${first.reason ?? "no reason"})`);
+      await bootstrap({ sessionId: ctx.sessionId, sessionFile: ctx.sessionFile });
+      const { messages } = await ctx.engine.assemble({ sessionId: ctx.sessionId, messages: [] });
+      assert(messages.length <= 4, `repeated bootstrap duplicated history (${messages.length} messages)`);
+    },
+  },
+  {
+    method: "ingest",
+    name: "ingested messages appear in assemble, heartbeats do not",
+    async run(ctx) {
+      const marker = `conformance-${Date.now()}`;
+      const result = await ctx.engine.ingest({ sessionId: ctx.sessionId, message: { role: "user", content: marker } });
+      assert(result.ingested, "ingest returned ingested=false for a normal message");
+      await ctx.engine.ingest({
+        sessionId: ctx.sessionId,
+        message: { role: "user", content: `${marker}-heartbeat` },
+        isHeartbeat: true,
+      });
+      const { messages } = await ctx.engine.assemble({ sessionId: ctx.sessionId, messages: [] });
+      const texts = messages.map((m) => String(m.content));
+      assert(texts.includes(marker), "ingested message missing from assemble");
+      if (texts.includes(`${marker}-heartbeat`)) return "heartbeat message is assembled into context";
+    },
+  },
+  {
+    method: "ingestBatch",
+    name: "reports the number of messages ingested",
+    async run(ctx) {
+      const ingestBatch = requireMethod(ctx.engine, "ingestBatch");
+      const messages = scriptedMessages(3);
+      const { ingestedCount } = await ingestBatch({ sessionId: ctx.sessionId, messages });
+      assert(ingestedCount === messages.length, `ingestedCount ${ingestedCount}, expected ${messages.length}`);
+    },
+  },
+  {
+    method: "assemble",
+    name: "respects tokenBudget",
+    async run(ctx) {
+      await seed(ctx);
+      for (const tokenBudget of [500, 2_000, 1_000_000]) {
+        const result = await ctx.engine.assemble({ sessionId: ctx.sessionId, messages: [], tokenBudget });
+        assert(
+          result.estimatedTokens <= tokenBudget,
+          `estimatedTokens ${result.estimatedTokens} > tokenBudget ${tokenBudget}`,
+        );
+        const independent = countTokens(result.messages) +
+          heuristicTokenizer.countTokens(result.systemPromptAddition ?? "");
+        assert(
+          independent <= tokenBudget * BUDGET_TOLERANCE,
+          `~${independent} tokens assembled for tokenBudget ${tokenBudget} (engine reported ${result.estimatedTokens})`,
+        );
+      }
+    },
+  },
+  {
+    method: "compact",
+    name: "reduces tokens when forced, idempotent with force: false",
+    async run(ctx) {
+      await seed(ctx);
+      const args = { sessionId: ctx.sessionId, sessionFile: ctx.sessionFile, tokenBudget: 2_000 };
+      const forced = await ctx.engine.compact({ ...args, force: true });
+      assert(forced.ok, `forced compact failed: ${forced.reason ?? "no reason"}`);
+      if (forced.compacted && forced.result?.tokensAfter !== undefined) {
+        assert(
+          forced.result.tokensAfter < forced.result.tokensBefore,
+          `tokensAfter ${forced.result.tokensAfter} >= tokensBefore ${forced.result.tokensBefore}`,
+        );
+      }
+
+      const before = await ctx.engine.assemble({ sessionId: ctx.sessionId, messages: [] });
+      const first = await ctx.engine.compact({ ...args, force: false });
+      const second = await ctx.engine.compact({ ...args, force: false });
+      const after = await ctx.engine.assemble({ sessionId: ctx.sessionId, messages: [] });
+      assert(first.ok && second.ok, "unforced compact returned ok=false");
+      assert(!second.compacted, "second unforced compact compacted again (not idempotent)");
+      if (!first.compacted) {
+        assert(
+          JSON.stringify(before.messages) === JSON.stringify(after.messages),
+          "unforced compact with compacted=false still changed assembled context",
+        );
+      }
+    },
+  },
+  {
+    method: "maintain",
+    name: "only requests rewrites for entries it was given",
+    async run(ctx) {
+      const maintain = requireMethod(ctx.engine, "maintain");
+      const messages = scriptedMessages();
+      await seed(ctx, messages);
+      await ctx.engine.compact({ sessionId: ctx.sessionId, sessionFile: ctx.sessionFile, tokenBudget: 1_000, force: true });
+
+      const known = new Set(messages.map((m) => m.entryId));
+      const requests: TranscriptRewriteRequest[] = [];
+      const result = await maintain({
+        sessionId: ctx.sessionId,
+        sessionFile: ctx.sessionFile,
+        runtimeContext: {
+          rewriteTranscriptEntries: async (req) => {
+            requests.push(req);
+            return { changed: true, bytesFreed: 0, rewrittenEntries: req.replacements.length };
+          },
+        },
+      });
+      const unknown = requests.flatMap((r) => r.replacements).filter((r) => !known.has(r.entryId));
+      assert(unknown.length === 0, `rewrite requested for unknown entries: ${unknown.map((r) => r.entryId).join(", ")}`);
+      assert(result.rewrittenEntries >= 0, "rewrittenEntries is negative");
+    },
+  },
+  {
+    method: "prepareSubagentSpawn",
+    name: "returns a working rollback",
+    async run(ctx) {
+      const prepare = requireMethod(ctx.engine, "prepareSubagentSpawn");
+      await seed(ctx);
+      const childSessionKey = `${ctx.sessionId}:child`;
+      const prep = await prepare({ parentSessionKey: ctx.sessionId, childSessionKey, ttlMs: 60_000 });
+      if (!prep) return "no preparation returned (nothing to roll back)";
+      await prep.rollback();
+      await prep.rollback(); // must tolerate a double rollback from retry paths
+    },
+  },
+  {
+    method: "onSubagentEnded",
+    name: "accepts every end reason",
+    async run(ctx) {
+      const onEnded = requireMethod(ctx.engine, "onSubagentEnded");
+      for (const reason of ["completed", "released", "swept", "deleted"] as const) {
+        await onEnded({ childSessionKey: `${ctx.sessionId}:child-${reason}`, reason });
+      }
+    },
+  },
+  {
+    method: "dispose",
+    name: "releases resources and is safe to call twice",
+    async run(ctx) {
+      const dispose = requireMethod(ctx.engine, "dispose");
+      await seed(ctx);
+      const before = process.getActiveResourcesInfo().length;
+      await dispose();
+      await dispose();
+      const after = process.getActiveResourcesInfo().length;
+      assert(after <= before, `${after - before} active handle(s) left after dispose`);
+    },
+  },
+];
+
+// --- Runner ---
+
+/**
+ * Run every check against a fresh engine instance. Each check gets its own
+ * engine and temp dir so one failure can't cascade into the next.
+ */
+export async function runContextEngineConformance(
+  engineId: string,
+  factory: ContextEngineFactory,
+): Promise<ConformanceReport> {
+  const checks: ConformanceCheck[] = [];
+
+  for (const check of CHECKS) {
+    const startedAt = Date.now();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ctx-engine-conformance-"));
+    let engine: ContextEngine | undefined;
+    let status: CheckStatus = "pass";
+    let detail: string | undefined;
+
+    try {
+      engine = await factory();
+      const warning = await check.run({
+        engine,
+        sessionId: `conformance-${check.method}`,
+        sessionFile: path.join(dir, "session.jsonl"),
+      });
+      if (warning) detail = `warning: ${warning}`;
+    } catch (err) {
+      status = err instanceof ConformanceSkip ? "skip" : "fail";
+      detail = err instanceof Error ? err.message : String(err);
+    } finally {
+      if (check.method !== "dispose") await engine?.dispose?.().catch(() => {});
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    checks.push({ method: check.method, name: check.name, status, detail, durationMs: Date.now() - startedAt });
+  }
+
+  const counts = { pass: 0, fail: 0, skip: 0 };
+  for (const c of checks) counts[c.status]++;
+  return { engineId, passed: counts.fail === 0, counts, checks };
+}
+
+export function formatReport(report: ConformanceReport): string {
+  const icon: Record<CheckStatus, string> = { pass: "PASS", fail: "FAIL", skip: "SKIP" };
+  const lines = report.checks.map((c) =>
+    `${icon[c.status]}  ${String(c.method).padEnd(22)} ${c.name}${c.detail ? `\n      ${c.detail}` : ""}`,
+  );
+  const { pass, fail, skip } = report.counts;
+  return [`Context engine "${report.engineId}"`, ...lines, `${pass} passed, ${fail} failed, ${skip} skipped`].join("\n");
+}
+
+// --- CLI ---
+
+/**
+ * Usage: context-engine-conformance <engine-id> [--plugin <module>]... [--json]
+ * --plugin imports a module for its side effect of calling registerContextEngine.
+ */
+export async function main(argv: string[]): Promise<number> {
+  const plugins: string[] = [];
+  let engineId: string | undefined;
+  let json = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--plugin") plugins.push(argv[++i]);
+    else if (argv[i] === "--json") json = true;
+    else engineId ??= argv[i];
+  }
+
+  for (const plugin of plugins) await import(path.resolve(plugin));
+
+  const available = listContextEngineIds();
+  const factory = engineId ? getContextEngineFactory(engineId) : undefined;
+  if (!engineId || !factory) {
+    console.error(
+      `${engineId ? `Unknown engine "${engineId}". ` : ""}Available: ${available.join(", ") || "(none)"}`,
+    );
+    return 2;
+  }
+
+  const report = await runContextEngineConformance(engineId, factory);
+  console.log(json ? JSON.stringify(report, null, 2) : formatReport(report));
+  return report.passed ? 0 : 1;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main(process.argv.slice(2)).then((code) => { process.exitCode = code; });
+}
+
+// --- Usage Example ---
+
+/*
+// From a plugin's own test suite:
+import { runContextEngineConformance } from "./context_engine_conformance";
+
+const report = await runContextEngineConformance("vector-rag", () => new VectorRAGContextEngine());
+expect(report.passed).toBe(true);
+
+// From the shell, against anything registered:
+//   $ context-engine-conformance vector-rag --plugin ./dist/vector-rag-plugin.js
+//   Context engine "vector-rag"
+//   PASS  bootstrap              imports an existing transcript and is safe to repeat
+//   PASS  ingest                 ingested messages appear in assemble, heartbeats do not
+//   SKIP  ingestBatch            reports the number of messages ingested
+//         ingestBatch not implemented
+//   FAIL  assemble               respects tokenBudget
+//         estimatedTokens 2310 > tokenBudget 2000
+//   ...
+//   6 passed, 1 failed, 2 skipped
+*/
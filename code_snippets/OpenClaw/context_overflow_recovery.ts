@@ -1,22 +1,39 @@
 /**
- * 5-Tier Context Window Overflow Recovery
+ * Context Window Overflow Recovery Pipeline
  *
  * Pattern: Escalating recovery strategies when the LLM context window fills up,
- * with smart tool result truncation using head+tail preservation.
+ * run as an explicit, configurable pipeline, with smart tool result truncation
+ * using head+tail preservation.
  * From: OpenClaw src/agents/pi-embedded-runner/run.ts (lines 1051-1312),
  *       src/agents/pi-embedded-runner/tool-result-truncation.ts
  *
  * Key ideas:
- * - Tier 1: SDK auto-compaction already ran → retry without extra work
- * - Tier 2: Explicit compaction via pluggable context engine
- * - Tier 3: Tool result truncation (head+tail strategy preserves errors)
- * - Tier 4: Compaction failure → give up immediately
- * - Tier 5: All tiers exhausted → return user-facing error
+ * - Each recovery is an OverflowStrategy { id, maxAttempts, applies, run };
+ *   the pipeline is an ordered list of them, configurable per run
+ * - Default order, cheapest first: truncate oversized tool results → drop
+ *   thinking blocks → compact (retry-only when the SDK already compacted) →
+ *   downgrade to a larger-context model → fail
+ * - Every overflow walks the pipeline from the top and runs the first
+ *   strategy that applies and still has attempts left; a strategy with no
+ *   effect falls through to the next one within the same call
+ * - Every strategy run emits an OverflowAttemptRecord (strategy, tokens
+ *   before/after, outcome) so logs show which recovery saved the run
+ * - Compaction failure errors give up immediately
+ * - JSON, diffs, stack traces and logs are cut along their structure
+ *   (structured_truncation.ts); head+tail is the fallback for everything else
  * - Head+tail truncation: keeps beginning for context + end for errors/results
- * - Single tool result capped at 30% of context window (hard max 400K chars)
- * - Track attempts across tiers to prevent infinite recovery loops
+ * - Single tool result capped at 30% of context window (hard max 400K chars);
+ *   the token cap is converted to chars using the result's measured
+ *   chars/token when a tokenizer is available (CJK ≈ 1, prose ≈ 4)
+ * - Attempt counts live in OverflowRecoveryState, shared across retries of
+ *   one run, to prevent infinite recovery loops
  */
 
+import { classifyError, extractErrorFacts } from "./error_classification";
+import { truncateStructured } from "./structured_truncation";
+import { dropThinkingBlocks } from "./thinking_block_management";
+import { countMessageTokens, heuristicTokenizer, measureCharsPerToken, type Tokenizer } from "./tokenizer";
+
 // --- Types ---
 
 interface AgentMessage {
@@ -26,8 +43,9 @@ interface AgentMessage {
 }
 
 interface ContentBlock {
-  type: "text" | "image";
+  type: "text" | "image" | "thinking";
   text?: string;
+  thinking?: string;
 }
 
 // --- Constants ---
@@ -47,12 +65,13 @@ const MIDDLE_OMISSION_MARKER =
 
 // --- Overflow detection ---
 
-function isLikelyContextOverflowError(errorText: string): boolean {
-  const patterns = [
-    /context.?length/i, /token.?limit/i, /maximum.?context/i,
-    /too.?many.?tokens/i, /context.?window/i, /request.?too.?large/i,
-  ];
-  return patterns.some((p) => p.test(errorText));
+/**
+ * Same rule table the retry loop uses (error_classification.ts). Takes the
+ * thrown error itself: its status and code decide before the message text
+ * does, so a 429 "Request too large ... tokens per min" is not an overflow.
+ */
+function isLikelyContextOverflowError(error: unknown, provider?: string): boolean {
+  return classifyError(error, { provider }).type === "overflow";
 }
 
 function isCompactionFailureError(errorText: string): boolean {
@@ -83,10 +102,19 @@ function hasImportantTail(text: string): boolean {
  *
  * Budget split: 70% head, 30% tail (max 4K tail) when tail is important.
  * Cut points snap to newline boundaries to avoid mid-line breaks.
+ *
+ * Structured content (JSON, diffs, stack traces, logs) is tried first.
  */
 function truncateToolResultText(text: string, maxChars: number): string {
   if (text.length <= maxChars) return text;
 
+  const structured = truncateStructured(text, maxChars - TRUNCATION_SUFFIX.length);
+  if (structured) {
+    // No suffix on JSON: the pruned document must still parse, and its
+    // omission markers already say what was cut
+    return structured.kind === "json" ? structured.text : structured.text + TRUNCATION_SUFFIX;
+  }
+
   const budget = Math.max(MIN_KEEP_CHARS, maxChars - TRUNCATION_SUFFIX.length);
 
   // Head+tail strategy when tail looks important
@@ -119,19 +147,35 @@ function truncateToolResultText(text: string, maxChars: number): string {
 
 // --- Size limit calculation ---
 
-/** Max chars for a single tool result: 30% of context window, hard cap 400K. */
-function calculateMaxToolResultChars(contextWindowTokens: number): number {
+/**
+ * Max chars for a single tool result: 30% of context window, hard cap 400K.
+ * With a tokenizer, chars/token is measured on the result itself instead of
+ * assuming 4 — a CJK or minified-JSON result would otherwise blow the budget.
+ */
+function calculateMaxToolResultChars(
+  contextWindowTokens: number,
+  tokenizer?: Tokenizer,
+  sampleText?: string,
+): number {
   const maxTokens = Math.floor(contextWindowTokens * MAX_TOOL_RESULT_CONTEXT_SHARE);
-  return Math.min(maxTokens * CHARS_PER_TOKEN_ESTIMATE, HARD_MAX_TOOL_RESULT_CHARS);
+  const charsPerToken = tokenizer && sampleText
+    ? measureCharsPerToken(tokenizer, sampleText)
+    : CHARS_PER_TOKEN_ESTIMATE;
+  return Math.min(Math.floor(maxTokens * charsPerToken), HARD_MAX_TOOL_RESULT_CHARS);
 }
 
-function getToolResultTextLength(msg: AgentMessage): number {
-  if (msg.role !== "tool_result") return 0;
-  if (typeof msg.content === "string") return msg.content.length;
-  if (!Array.isArray(msg.content)) return 0;
+function getToolResultText(msg: AgentMessage): string {
+  if (msg.role !== "tool_result") return "";
+  if (typeof msg.content === "string") return msg.content;
+  if (!Array.isArray(msg.content)) return "";
   return msg.content
     .filter((b) => b.type === "text" && typeof b.text === "string")
-    .reduce((sum, b) => sum + (b.text?.length ?? 0), 0);
+    .map((b) => b.text ?? "")
+    .join("");
+}
+
+function getToolResultTextLength(msg: AgentMessage): number {
+  return getToolResultText(msg).length;
 }
 
 // --- Truncate oversized tool results in message array ---
@@ -139,13 +183,15 @@ function getToolResultTextLength(msg: AgentMessage): number {
 function truncateOversizedToolResults(
   messages: AgentMessage[],
   contextWindowTokens: number,
+  tokenizer?: Tokenizer,
 ): { messages: AgentMessage[]; truncatedCount: number } {
-  const maxChars = calculateMaxToolResultChars(contextWindowTokens);
   let truncatedCount = 0;
 
   const result = messages.map((msg) => {
     if (msg.role !== "tool_result") return msg;
-    const textLength = getToolResultTextLength(msg);
+    const text = getToolResultText(msg);
+    const textLength = text.length;
+    const maxChars = calculateMaxToolResultChars(contextWindowTokens, tokenizer, text);
     if (textLength <= maxChars) return msg;
 
     truncatedCount++;
@@ -169,108 +215,366 @@ function truncateOversizedToolResults(
 function sessionHasOversizedToolResults(
   messages: AgentMessage[],
   contextWindowTokens: number,
+  tokenizer?: Tokenizer,
 ): boolean {
-  const maxChars = calculateMaxToolResultChars(contextWindowTokens);
-  return messages.some((msg) => msg.role === "tool_result" && getToolResultTextLength(msg) > maxChars);
+  return messages.some((msg) => {
+    if (msg.role !== "tool_result") return false;
+    const text = getToolResultText(msg);
+    return text.length > calculateMaxToolResultChars(contextWindowTokens, tokenizer, text);
+  });
 }
 
-// --- 5-Tier recovery orchestrator ---
+// --- Token estimation ---
 
-async function handleContextOverflow(params: {
+function getMessageText(msg: AgentMessage): string {
+  if (typeof msg.content === "string") return msg.content;
+  return msg.content.map((b) => b.text ?? b.thinking ?? "").join("");
+}
+
+function estimateMessagesTokens(messages: AgentMessage[], tokenizer: Tokenizer = heuristicTokenizer): number {
+  return messages.reduce(
+    (sum, msg) => sum + countMessageTokens({ role: msg.role, content: getMessageText(msg) }, tokenizer),
+    0,
+  );
+}
+
+// --- Thinking block removal ---
+
+/**
+ * Strip thinking blocks from every assistant turn except the latest one —
+ * providers require the in-progress turn's thinking to stay intact when it
+ * precedes a tool call. Stripping itself is thinking_block_management.ts's
+ * (an all-thinking turn keeps an empty text block); only the count is ours.
+ */
+function dropEarlierThinking(messages: AgentMessage[]): { messages: AgentMessage[]; droppedCount: number } {
+  const lastAssistant = messages.map((msg) => msg.role).lastIndexOf("assistant");
+  const earlier = lastAssistant === -1 ? messages : messages.slice(0, lastAssistant);
+  const droppedCount = countDroppableThinking(earlier);
+  if (droppedCount === 0) return { messages, droppedCount };
+  return { messages: [...dropThinkingBlocks(earlier), ...messages.slice(earlier.length)], droppedCount };
+}
+
+function countDroppableThinking(messages: AgentMessage[]): number {
+  return messages.reduce(
+    (sum, msg) =>
+      msg.role !== "assistant" || typeof msg.content === "string"
+        ? sum
+        : sum + msg.content.filter((b) => b.type === "thinking").length,
+    0,
+  );
+}
+
+function hasDroppableThinking(messages: AgentMessage[]): boolean {
+  const lastAssistant = messages.map((msg) => msg.role).lastIndexOf("assistant");
+  return countDroppableThinking(lastAssistant === -1 ? messages : messages.slice(0, lastAssistant)) > 0;
+}
+
+// --- Strategy pipeline ---
+
+type CompactOutcome = {
+  ok: boolean;
+  compacted: boolean;
+  reason?: string;
+  result?: { tokensBefore: number; tokensAfter?: number };
+};
+
+type FallbackModel = { id: string; contextWindowTokens: number };
+
+type OverflowStrategyId =
+  | "truncate_tool_results"
+  | "drop_thinking"
+  | "compact"
+  | "downgrade_model"
+  | "fail";
+
+/** What a strategy sees: the run's current messages, window and model. */
+interface OverflowRecoveryContext {
   messages: AgentMessage[];
   contextWindowTokens: number;
-  errorText: string;
+  modelId?: string;
+  tokenizer?: Tokenizer;
   attemptCompactionCount: number;        // SDK auto-compactions this attempt
-  overflowCompactionAttempts: number;     // total across all tiers
-  toolResultTruncationAttempted: boolean; // one-shot flag
-  compact: () => Promise<{ ok: boolean; compacted: boolean; reason?: string }>;
-}): Promise<{
-  action: "retry" | "fail";
-  overflowCompactionAttempts: number;
-  toolResultTruncationAttempted: boolean;
-}> {
-  let { overflowCompactionAttempts, toolResultTruncationAttempted } = params;
+  fallbackModels: FallbackModel[];
+  compact: () => Promise<CompactOutcome>;
+}
 
-  // Verify this is actually a context overflow
-  if (!isLikelyContextOverflowError(params.errorText)) {
-    return { action: "fail", overflowCompactionAttempts, toolResultTruncationAttempted };
-  }
+interface StrategyResult {
+  outcome: "applied" | "no_effect" | "gave_up";
+  messages?: AgentMessage[];
+  contextWindowTokens?: number;
+  modelId?: string;
+  /** When the strategy knows better than re-estimating (e.g. compaction). */
+  tokensAfter?: number;
+  detail?: string;
+}
 
-  // --- Tier 4: Compaction failure → immediate give-up ---
-  if (isCompactionFailureError(params.errorText)) {
-    return { action: "fail", overflowCompactionAttempts, toolResultTruncationAttempted };
-  }
+interface OverflowStrategy {
+  id: OverflowStrategyId | (string & {});
+  /** Per run, across all overflow errors. */
+  maxAttempts: number;
+  /** Not applicable → skipped without using an attempt or emitting a record. */
+  applies?: (ctx: OverflowRecoveryContext) => boolean;
+  run: (ctx: OverflowRecoveryContext) => Promise<StrategyResult>;
+}
 
-  const hadAutoCompaction = params.attemptCompactionCount > 0;
+interface OverflowAttemptRecord {
+  strategy: string;
+  attempt: number;                       // 1-based, per strategy
+  tokensBefore: number;
+  tokensAfter: number;
+  contextWindowBefore: number;
+  contextWindowAfter: number;
+  outcome: StrategyResult["outcome"] | "error";
+  detail?: string;
+  durationMs: number;
+  at: number;
+}
 
-  // --- Tier 1: SDK already compacted → retry without extra compaction ---
-  if (hadAutoCompaction && overflowCompactionAttempts < MAX_OVERFLOW_COMPACTION_ATTEMPTS) {
-    overflowCompactionAttempts++;
-    return { action: "retry", overflowCompactionAttempts, toolResultTruncationAttempted };
-  }
+/** One per run; survives the retries between overflow errors. */
+interface OverflowRecoveryState {
+  attempts: Record<string, number>;
+  records: OverflowAttemptRecord[];
+}
 
-  // --- Tier 2: Explicit compaction via context engine ---
-  if (!hadAutoCompaction && overflowCompactionAttempts < MAX_OVERFLOW_COMPACTION_ATTEMPTS) {
-    overflowCompactionAttempts++;
-    const compactResult = await params.compact();
+function createOverflowRecoveryState(): OverflowRecoveryState {
+  return { attempts: {}, records: [] };
+}
 
-    if (compactResult.compacted) {
+const OVERFLOW_STRATEGIES: Record<OverflowStrategyId, OverflowStrategy> = {
+  truncate_tool_results: {
+    id: "truncate_tool_results",
+    maxAttempts: 1,
+    applies: (ctx) => sessionHasOversizedToolResults(ctx.messages, ctx.contextWindowTokens, ctx.tokenizer),
+    run: async (ctx) => {
+      const { messages, truncatedCount } = truncateOversizedToolResults(
+        ctx.messages, ctx.contextWindowTokens, ctx.tokenizer,
+      );
+      return truncatedCount > 0
+        ? { outcome: "applied", messages, detail: `truncated ${truncatedCount} tool result(s)` }
+        : { outcome: "no_effect" };
+    },
+  },
+
+  drop_thinking: {
+    id: "drop_thinking",
+    maxAttempts: 1,
+    applies: (ctx) => hasDroppableThinking(ctx.messages),
+    run: async (ctx) => {
+      const { messages, droppedCount } = dropEarlierThinking(ctx.messages);
+      return { outcome: "applied", messages, detail: `dropped ${droppedCount} thinking block(s)` };
+    },
+  },
+
+  compact: {
+    id: "compact",
+    maxAttempts: MAX_OVERFLOW_COMPACTION_ATTEMPTS,
+    run: async (ctx) => {
+      // SDK already compacted during the attempt → retry without compacting again
+      if (ctx.attemptCompactionCount > 0) {
+        return { outcome: "applied", detail: "sdk auto-compaction already ran" };
+      }
+      const result = await ctx.compact();
       // Context engine hooks (before/after_compaction) fire here in real impl
-      return { action: "retry", overflowCompactionAttempts, toolResultTruncationAttempted };
-    }
-  }
+      return result.compacted
+        ? { outcome: "applied", tokensAfter: result.result?.tokensAfter, detail: result.reason }
+        : { outcome: "no_effect", detail: result.reason };
+    },
+  },
+
+  downgrade_model: {
+    id: "downgrade_model",
+    maxAttempts: 2,
+    applies: (ctx) => ctx.fallbackModels.some((m) => m.contextWindowTokens > ctx.contextWindowTokens),
+    run: async (ctx) => {
+      // Smallest window that is still larger: cheapest model that fits
+      const next = ctx.fallbackModels
+        .filter((m) => m.contextWindowTokens > ctx.contextWindowTokens)
+        .sort((a, b) => a.contextWindowTokens - b.contextWindowTokens)[0]!;
+      return {
+        outcome: "applied",
+        modelId: next.id,
+        contextWindowTokens: next.contextWindowTokens,
+        detail: `${ctx.modelId ?? "current model"} → ${next.id}`,
+      };
+    },
+  },
+
+  fail: {
+    id: "fail",
+    maxAttempts: Infinity,
+    run: async () => ({ outcome: "gave_up", detail: "recovery strategies exhausted" }),
+  },
+};
+
+const DEFAULT_OVERFLOW_PIPELINE: OverflowStrategyId[] = [
+  "truncate_tool_results",
+  "drop_thinking",
+  "compact",
+  "downgrade_model",
+  "fail",
+];
+
+function resolvePipeline(pipeline: Array<OverflowStrategyId | OverflowStrategy>): OverflowStrategy[] {
+  return pipeline.map((entry) => (typeof entry === "string" ? OVERFLOW_STRATEGIES[entry] : entry));
+}
 
-  // --- Tier 3: Truncate oversized tool results (one-shot) ---
-  if (!toolResultTruncationAttempted) {
-    const hasOversized = sessionHasOversizedToolResults(
-      params.messages, params.contextWindowTokens,
-    );
+// --- Recovery orchestrator ---
 
-    if (hasOversized) {
-      toolResultTruncationAttempted = true;
-      const truncResult = truncateOversizedToolResults(
-        params.messages, params.contextWindowTokens,
-      );
+type OverflowRecoveryResult = {
+  action: "retry" | "fail";
+  /** Possibly rewritten history — use these for the retry. */
+  messages: AgentMessage[];
+  contextWindowTokens: number;
+  modelId?: string;
+  /** The record that decided this call (applied or gave up). */
+  record?: OverflowAttemptRecord;
+};
 
-      if (truncResult.truncatedCount > 0) {
-        // Do NOT reset overflowCompactionAttempts — global cap must remain
-        // enforced to prevent unbounded compaction cycles.
-        return { action: "retry", overflowCompactionAttempts, toolResultTruncationAttempted };
-      }
+/**
+ * Walk the pipeline and stop at the first strategy that changed something
+ * (retry) or gave up (fail). Mutates `state`: attempt counts and records.
+ */
+async function handleContextOverflow(params: {
+  messages: AgentMessage[];
+  contextWindowTokens: number;
+  modelId?: string;
+  error: unknown;                         // as thrown, not stringified
+  provider?: string;
+  attemptCompactionCount: number;
+  state: OverflowRecoveryState;
+  tokenizer?: Tokenizer;                  // resolveTokenizer(modelId); chars/4 if absent
+  compact: () => Promise<CompactOutcome>;
+  fallbackModels?: FallbackModel[];
+  pipeline?: Array<OverflowStrategyId | OverflowStrategy>;
+  onAttempt?: (record: OverflowAttemptRecord) => void;
+}): Promise<OverflowRecoveryResult> {
+  const { state } = params;
+  const ctx: OverflowRecoveryContext = {
+    messages: params.messages,
+    contextWindowTokens: params.contextWindowTokens,
+    modelId: params.modelId,
+    tokenizer: params.tokenizer,
+    attemptCompactionCount: params.attemptCompactionCount,
+    fallbackModels: params.fallbackModels ?? [],
+    compact: params.compact,
+  };
+  const done = (action: "retry" | "fail", record?: OverflowAttemptRecord): OverflowRecoveryResult => ({
+    action,
+    messages: ctx.messages,
+    contextWindowTokens: ctx.contextWindowTokens,
+    modelId: ctx.modelId,
+    record,
+  });
+
+  // Verify this is actually a context overflow
+  if (!isLikelyContextOverflowError(params.error, params.provider)) return done("fail");
+
+  // Compaction itself failed → another compaction won't help
+  if (isCompactionFailureError(extractErrorFacts(params.error).message)) {
+    const tokens = estimateMessagesTokens(ctx.messages, ctx.tokenizer);
+    const record: OverflowAttemptRecord = {
+      strategy: "fail", attempt: 1, tokensBefore: tokens, tokensAfter: tokens,
+      contextWindowBefore: ctx.contextWindowTokens, contextWindowAfter: ctx.contextWindowTokens,
+      outcome: "gave_up", detail: "compaction failure", durationMs: 0, at: Date.now(),
+    };
+    state.records.push(record);
+    params.onAttempt?.(record);
+    return done("fail", record);
+  }
+
+  for (const strategy of resolvePipeline(params.pipeline ?? DEFAULT_OVERFLOW_PIPELINE)) {
+    const used = state.attempts[strategy.id] ?? 0;
+    if (used >= strategy.maxAttempts) continue;
+    if (strategy.applies && !strategy.applies(ctx)) continue;
+    state.attempts[strategy.id] = used + 1;
+
+    const startedAt = Date.now();
+    const tokensBefore = estimateMessagesTokens(ctx.messages, ctx.tokenizer);
+    const contextWindowBefore = ctx.contextWindowTokens;
+    let result: StrategyResult;
+    let outcome: OverflowAttemptRecord["outcome"];
+    try {
+      result = await strategy.run(ctx);
+      outcome = result.outcome;
+    } catch (err) {
+      // A broken strategy must not end recovery — record it and move on
+      result = { outcome: "no_effect", detail: err instanceof Error ? err.message : String(err) };
+      outcome = "error";
+    }
+
+    if (result.outcome === "applied") {
+      ctx.messages = result.messages ?? ctx.messages;
+      ctx.contextWindowTokens = result.contextWindowTokens ?? ctx.contextWindowTokens;
+      ctx.modelId = result.modelId ?? ctx.modelId;
     }
+
+    const record: OverflowAttemptRecord = {
+      strategy: strategy.id,
+      attempt: used + 1,
+      tokensBefore,
+      tokensAfter: result.tokensAfter ?? estimateMessagesTokens(ctx.messages, ctx.tokenizer),
+      contextWindowBefore,
+      contextWindowAfter: ctx.contextWindowTokens,
+      outcome,
+      detail: result.detail,
+      durationMs: Date.now() - startedAt,
+      at: startedAt,
+    };
+    state.records.push(record);
+    params.onAttempt?.(record);
+
+    if (result.outcome === "applied") return done("retry", record);
+    if (result.outcome === "gave_up") return done("fail", record);
   }
 
-  // --- Tier 5: All tiers exhausted ---
-  return { action: "fail", overflowCompactionAttempts, toolResultTruncationAttempted };
+  // Pipeline without a terminal "fail" strategy ran out
+  return done("fail");
+}
+
+/** The strategy that got the run past its last overflow, if any. */
+function recoveredBy(state: OverflowRecoveryState): OverflowAttemptRecord | undefined {
+  const last = state.records[state.records.length - 1];
+  return last?.outcome === "applied" ? last : undefined;
 }
 
 // --- Usage example ---
 
 /*
 // Inside the agent retry loop:
-let overflowCompactionAttempts = 0;
-let toolResultTruncationAttempted = false;
+const recoveryState = createOverflowRecoveryState();
+let model = { id: "claude-sonnet-4-5", contextWindowTokens: 200_000 };
 
 while (true) {
   try {
-    result = await runAttempt(messages);
+    result = await runAttempt(model.id, messages);
+    const saved = recoveredBy(recoveryState);
+    if (saved) log.info("overflow recovered", { strategy: saved.strategy, attempts: recoveryState.records });
     break;
   } catch (error) {
-    const errorText = error instanceof Error ? error.message : String(error);
     const recovery = await handleContextOverflow({
       messages,
-      contextWindowTokens: 200_000,
-      errorText,
+      contextWindowTokens: model.contextWindowTokens,
+      modelId: model.id,
+      error,
+      provider: providerOf(model.id),
       attemptCompactionCount: attempt.compactionCount,
-      overflowCompactionAttempts,
-      toolResultTruncationAttempted,
+      state: recoveryState,
+      tokenizer: resolveTokenizer(model.id),
       compact: () => contextEngine.compact({
-        sessionFile, tokenBudget: 200_000, force: true,
+        sessionId, sessionFile, tokenBudget: model.contextWindowTokens, force: true,
       }),
+      fallbackModels: [{ id: "gemini-2.5-pro", contextWindowTokens: 1_000_000 }],
+      onAttempt: (record) => log.info("overflow recovery attempt", record),
+      // e.g. never drop thinking for this agent:
+      // pipeline: ["truncate_tool_results", "compact", "downgrade_model", "fail"],
     });
+    // { strategy: "truncate_tool_results", attempt: 1, tokensBefore: 231_400,
+    //   tokensAfter: 148_900, outcome: "applied", detail: "truncated 1 tool result(s)", ... }
 
-    overflowCompactionAttempts = recovery.overflowCompactionAttempts;
-    toolResultTruncationAttempted = recovery.toolResultTruncationAttempted;
+    messages = recovery.messages;
+    if (recovery.modelId && recovery.modelId !== model.id) {
+      model = { id: recovery.modelId, contextWindowTokens: recovery.contextWindowTokens };
+    }
 
     if (recovery.action === "retry") continue;
     // Return user-facing error
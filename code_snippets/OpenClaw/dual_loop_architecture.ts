@@ -10,10 +10,30 @@
  *   - Inner loop: LLM call → tool execution → message building → done detection
  *   - Max iterations = 24 base + 8 per auth profile (min 32, max 160)
  *   - Done detection via stop_reason, not a "done" tool
- *   - Error classification drives recovery strategy selection
+ *   - Error classification (error_classification.ts rule table) yields a
+ *     retry hint; the hint, not the error class, picks the recovery tier
  *   - 5-tier escalating recovery
+ *   - Ordered fallback chain of provider/model candidates: when recovery on
+ *     the current model is exhausted, the error class picks the next rung
+ *     (overflow → larger window, auth/timeout → a provider with usable keys,
+ *     persistent rate limit / thinking mismatch → next candidate)
+ *   - History is converted on provider switches (thinking blocks are signed
+ *     by the provider that produced them) and every switch is recorded
+ *   - Optional RunBudget (run_budget.ts) checked between attempts and between
+ *     tool-loop turns; exhaustion ends the run with a partial-result payload
+ *     and a machine-readable reason instead of an error
  */
 
+import { classifyError, type ErrorClass, type ErrorClassification } from "./error_classification";
+import {
+  estimateCostUsd,
+  formatBudgetExhaustion,
+  type BudgetExhaustion,
+  type ModelPrice,
+  type RunBudgetTracker,
+} from "./run_budget";
+import { dropThinkingBlocks, resolveThinkLevel, type ModelCapability } from "./thinking_block_management";
+
 // ─── Types ─────────────────────────────────────────────────────────────────
 
 type ThinkLevel = "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
@@ -21,27 +41,46 @@ type ThinkLevel = "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
 interface AuthProfile {
   id: string;
   provider: string;
-  model: string;
   apiKey: string;
   cooldownUntil?: number;
 }
 
+/** One rung of the fallback chain. Auth profiles are matched by provider. */
+export interface ModelCandidate {
+  provider: string;
+  model: string;
+  contextWindowTokens: number;
+  thinking: ModelCapability;
+  /** Overrides the local price table (run_budget.ts) for this model. */
+  cost?: ModelPrice;
+}
+
+/** Why the run left one candidate for another. */
+export interface FallbackSwitch {
+  from: string; // "anthropic/claude-opus-4-6"
+  to: string;
+  errorClass: ErrorClass;
+  ruleId?: string;
+  reason: string;
+  iteration: number;
+}
+
 interface AttemptResult {
   success: boolean;
   payloads: ResponsePayload[];
   error?: AttemptError;
   tokenUsage: TokenUsage;
+  /** Set when the inner loop stopped between turns because the budget ran out. */
+  budgetExhausted?: BudgetExhaustion;
 }
 
-interface AttemptError {
-  type: "auth" | "overflow" | "timeout" | "rate_limit" | "thinking_mismatch" | "unknown";
-  message: string;
-  retryable: boolean;
-}
+type AttemptError = ErrorClassification;
 
 interface ResponsePayload {
   text: string;
   isError?: boolean;
+  /** Work cut short by the run budget; text is what the agent had so far. */
+  isPartial?: boolean;
 }
 
 interface TokenUsage {
@@ -57,13 +96,30 @@ interface RunParams {
   systemPrompt: string;
   messages: AgentMessage[];
   authProfiles: AuthProfile[];
+  /** Tried in order; the first candidate is the preferred model. */
+  fallbackChain: ModelCandidate[];
   thinkLevel: ThinkLevel;
   tools: AgentTool[];
+  /** Subagents pass `parentBudget.child(runId)` so they draw from the parent. */
+  budget?: RunBudgetTracker;
+  /**
+   * Per-turn stream function handed to the SDK. Defaults to the provider's;
+   * a cassette recorder/replayer (OpenCode/session_replay.ts) makes runs
+   * reproducible offline. Wrap `tools` with the same recorder/replayer.
+   */
+  streamFn?: (input: unknown) => Promise<unknown>;
+}
+
+interface ContentBlock {
+  type: "text" | "thinking" | "tool_use" | "tool_result";
+  text?: string;
+  thinking?: string;
+  [key: string]: unknown;
 }
 
 interface AgentMessage {
   role: "user" | "assistant" | "toolResult";
-  content: string;
+  content: string | ContentBlock[];
   [key: string]: unknown;
 }
 
@@ -88,28 +144,58 @@ function resolveMaxRunRetryIterations(profileCount: number): number {
   return Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, raw));
 }
 
-// ─── Error Classification ──────────────────────────────────────────────────
+// ─── Fallback Chain ────────────────────────────────────────────────────────
 
-function classifyError(error: unknown): AttemptError {
-  const message = error instanceof Error ? error.message : String(error);
+/** Consecutive waits on one candidate before a rate limit counts as persistent. */
+const MAX_WAITS_PER_CANDIDATE = 2;
 
-  if (/401|403|invalid.*key|unauthorized/i.test(message)) {
-    return { type: "auth", message, retryable: true };
-  }
-  if (/context.*length|too many tokens|overflow/i.test(message)) {
-    return { type: "overflow", message, retryable: true };
-  }
-  if (/timeout|timed out|ETIMEDOUT/i.test(message)) {
-    return { type: "timeout", message, retryable: true };
-  }
-  if (/rate.?limit|429|too many requests/i.test(message)) {
-    return { type: "rate_limit", message, retryable: true };
+function candidateLabel(candidate: ModelCandidate): string {
+  return `${candidate.provider}/${candidate.model}`;
+}
+
+/**
+ * Next rung for this error class, or undefined when the chain is exhausted.
+ * Overflow only accepts a strictly larger window — an equal one would
+ * overflow again. Every class skips providers with no usable auth profile.
+ */
+function nextCandidateIndex(
+  chain: ModelCandidate[],
+  current: number,
+  errorClass: ErrorClass,
+  hasUsableProfile: (provider: string) => boolean,
+): number | undefined {
+  const from = chain[current]!;
+  for (let i = current + 1; i < chain.length; i++) {
+    const candidate = chain[i]!;
+    if (!hasUsableProfile(candidate.provider)) continue;
+    if (errorClass === "overflow" && candidate.contextWindowTokens <= from.contextWindowTokens) continue;
+    return i;
   }
-  if (/thinking.*not supported|budget_tokens/i.test(message)) {
-    return { type: "thinking_mismatch", message, retryable: true };
+  return undefined;
+}
+
+/**
+ * Make history acceptable to the next candidate. Thinking blocks carry
+ * provider signatures (Anthropic) or encrypted reasoning (OpenAI) that
+ * another provider rejects, and a non-thinking model can't take them at all.
+ */
+function convertHistoryForCandidate(
+  messages: AgentMessage[],
+  from: ModelCandidate,
+  to: ModelCandidate,
+): AgentMessage[] {
+  if (from.provider !== to.provider || !to.thinking.supportsThinking) {
+    return dropThinkingBlocks(messages);
   }
+  return messages;
+}
 
-  return { type: "unknown", message, retryable: false };
+/** Partial-result payload: whatever text the agent produced, plus why it stopped. */
+function budgetStopPayload(exhaustion: BudgetExhaustion, partialText: string): ResponsePayload {
+  const note = `[Stopped early: run budget exhausted — ${formatBudgetExhaustion(exhaustion)}]`;
+  return partialText.trim()
+    ? { text: `${partialText}\n\n${note}`, isPartial: true }
+    : { text: note, isPartial: true, isError: true };
 }
 
 // ─── Inner Loop: Single Attempt ────────────────────────────────────────────
@@ -129,10 +215,15 @@ async function runSingleAttempt(params: {
   messages: AgentMessage[];
   tools: AgentTool[];
   authProfile: AuthProfile;
+  model: string;
+  modelPrice?: ModelPrice;
   thinkLevel: ThinkLevel;
+  budget?: RunBudgetTracker;
+  streamFn?: RunParams["streamFn"];
 }): Promise<AttemptResult> {
-  const { systemPrompt, messages, tools, authProfile, thinkLevel } = params;
+  const { systemPrompt, messages, tools, authProfile, model, modelPrice, thinkLevel, budget, streamFn } = params;
   const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let budgetExhausted: BudgetExhaustion | undefined;
 
   try {
     // In OpenClaw, this calls the PI SDK's activeSession.prompt()
@@ -141,14 +232,32 @@ async function runSingleAttempt(params: {
       systemPrompt,
       messages,
       tools,
-      model: authProfile.model,
+      model,
       apiKey: authProfile.apiKey,
       thinkLevel,
+      streamFn,
+      // Budget hooks: charge as usage happens, and let the SDK stop between
+      // turns (after tool results are appended, before the next LLM call)
+      onTurnUsage: (usage: TokenUsage) => budget?.recordUsage(model, usage, modelPrice),
+      onToolCall: () => budget?.recordToolCall(),
+      shouldContinue: () => {
+        budgetExhausted = budget?.check();
+        return !budgetExhausted;
+      },
     });
 
     tokenUsage.inputTokens = result.usage.inputTokens;
     tokenUsage.outputTokens = result.usage.outputTokens;
 
+    if (budgetExhausted) {
+      return {
+        success: true,
+        payloads: [budgetStopPayload(budgetExhausted, result.finalResponse ?? "")],
+        tokenUsage,
+        budgetExhausted,
+      };
+    }
+
     return {
       success: true,
       payloads: [{ text: result.finalResponse }],
@@ -158,7 +267,7 @@ async function runSingleAttempt(params: {
     return {
       success: false,
       payloads: [],
-      error: classifyError(error),
+      error: classifyError(error, { provider: authProfile.provider }),
       tokenUsage,
     };
   }
@@ -171,10 +280,11 @@ async function runSingleAttempt(params: {
  *
  * This is the OUTER LOOP. It wraps single attempts with:
  *   - Auth profile rotation on auth errors
+ *   - Fallback down the model chain when a candidate is exhausted
  *   - Context compaction on overflow
  *   - Thinking level downgrade on mismatch
  *   - Rate limit backoff
- *   - Max iteration budget
+ *   - Max iteration budget, plus the optional RunBudget
  *
  * Concerns: error recovery, failover, compaction.
  * NOT concerned with: tool execution, message building, streaming.
@@ -182,34 +292,77 @@ async function runSingleAttempt(params: {
 export async function runAgentWithRetry(params: RunParams): Promise<{
   payloads: ResponsePayload[];
   totalTokenUsage: TokenUsage;
+  totalCostUsd: number;
+  /** Candidate that produced the final result (or failed last). */
+  model: string;
+  switches: FallbackSwitch[];
+  /** Set when the run stopped on its budget; payloads then hold the partial result. */
+  budgetExhausted?: BudgetExhaustion;
 }> {
+  const chain = params.fallbackChain;
+  if (chain.length === 0) throw new Error("fallbackChain must contain at least one model");
+
   const maxIterations = resolveMaxRunRetryIterations(params.authProfiles.length);
   let iterations = 0;
   let overflowCompactionAttempts = 0;
-  let currentProfileIndex = 0;
-  let currentThinkLevel = params.thinkLevel;
+  let waitsOnCandidate = 0;
+  let chainIndex = 0;
+  let currentThinkLevel = resolveThinkLevel(params.thinkLevel, chain[0]!.thinking);
   let messages = [...params.messages];
+  let lastError: AttemptError | undefined;
 
   // Token tracking: accumulated across all attempts
   const totalTokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let totalCostUsd = 0;
+  const switches: FallbackSwitch[] = [];
+
+  const usableProfiles = (provider: string) =>
+    params.authProfiles.filter((p) => p.provider === provider && !(p.cooldownUntil && Date.now() < p.cooldownUntil));
+
+  const finish = (payloads: ResponsePayload[], budgetExhausted?: BudgetExhaustion) => ({
+    payloads, totalTokenUsage, totalCostUsd, model: candidateLabel(chain[chainIndex]!), switches, budgetExhausted,
+  });
+
+  /** Move down the chain; false when no candidate fits this error class. */
+  const fallBack = (errorClass: ErrorClass, reason: string, ruleId?: string): boolean => {
+    const next = nextCandidateIndex(chain, chainIndex, errorClass, (p) => usableProfiles(p).length > 0);
+    if (next === undefined) return false;
+    const from = chain[chainIndex]!;
+    const to = chain[next]!;
+    switches.push({ from: candidateLabel(from), to: candidateLabel(to), errorClass, ruleId, reason, iteration: iterations });
+    messages = convertHistoryForCandidate(messages, from, to);
+    // A fresh model starts from the requested level, clamped to what it supports
+    currentThinkLevel = resolveThinkLevel(params.thinkLevel, to.thinking);
+    waitsOnCandidate = 0;
+    chainIndex = next;
+    return true;
+  };
+
+  const giveUp = (error: AttemptError | undefined, fallback: string) =>
+    finish([{ text: error ? `Error: ${error.message}` : fallback, isError: true }]);
 
   while (true) {
     // ── Guard: max iterations ──
     if (iterations >= maxIterations) {
-      return {
-        payloads: [{ text: "Request failed after repeated internal retries.", isError: true }],
-        totalTokenUsage,
-      };
+      return finish([{ text: "Request failed after repeated internal retries.", isError: true }]);
     }
     iterations++;
 
-    // ── Select auth profile ──
-    const profile = params.authProfiles[currentProfileIndex % params.authProfiles.length]!;
+    // ── Guard: run budget (between attempts) ──
+    const exhausted = params.budget?.check();
+    if (exhausted) {
+      return finish([budgetStopPayload(exhausted, "")], exhausted);
+    }
+
+    // ── Select candidate + auth profile ──
+    const candidate = chain[chainIndex]!;
+    const profile = usableProfiles(candidate.provider)[0];
 
-    // Skip profiles in cooldown
-    if (profile.cooldownUntil && Date.now() < profile.cooldownUntil) {
-      currentProfileIndex++;
-      continue;
+    // Every key for this provider is cooling down → next provider in the chain
+    if (!profile) {
+      const errorClass = lastError?.type ?? "auth";
+      if (fallBack(errorClass, `no usable auth profile for ${candidate.provider}`, lastError?.ruleId)) continue;
+      return giveUp(lastError, `No usable auth profile for ${candidate.provider}.`);
     }
 
     // ── Run single attempt (inner loop) ──
@@ -218,23 +371,29 @@ export async function runAgentWithRetry(params: RunParams): Promise<{
       messages,
       tools: params.tools,
       authProfile: profile,
+      model: candidate.model,
+      modelPrice: candidate.cost,
       thinkLevel: currentThinkLevel,
+      budget: params.budget,
+      streamFn: params.streamFn,
     });
 
     // Accumulate token usage
     totalTokenUsage.inputTokens += attempt.tokenUsage.inputTokens;
     totalTokenUsage.outputTokens += attempt.tokenUsage.outputTokens;
+    totalCostUsd += estimateCostUsd(candidate.model, attempt.tokenUsage, candidate.cost) ?? 0;
 
-    // ── Success → return ──
+    // ── Success (or budget stop with a partial result) → return ──
     if (attempt.success) {
-      return { payloads: attempt.payloads, totalTokenUsage };
+      return finish(attempt.payloads, attempt.budgetExhausted);
     }
 
     // ── Error recovery (5-tier escalation) ──
     const error = attempt.error!;
+    lastError = error;
 
-    switch (error.type) {
-      case "overflow": {
+    switch (error.retry.action) {
+      case "compact": {
         // Tier 1-3: compaction → tool result truncation
         overflowCompactionAttempts++;
         if (overflowCompactionAttempts <= 3) {
@@ -248,43 +407,41 @@ export async function runAgentWithRetry(params: RunParams): Promise<{
           continue;
         }
 
-        // Tier 5: try different auth profile (might have larger context)
-        currentProfileIndex++;
-        continue;
-      }
-
-      case "auth": {
-        // Mark profile with cooldown, rotate to next
-        profile.cooldownUntil = Date.now() + 60_000; // 1 min cooldown
-        currentProfileIndex++;
-        continue;
+        // Tier 5: a candidate with a strictly larger context window
+        if (fallBack(error.type, `context overflow after compaction on ${candidate.contextWindowTokens}-token window`, error.ruleId)) continue;
+        return giveUp(error, "");
       }
 
-      case "timeout": {
-        // Mark profile, rotate
-        profile.cooldownUntil = Date.now() + 30_000;
-        currentProfileIndex++;
+      case "rotate_profile": {
+        // auth (1 min), quota (1 h), timeout (30 s): park profile, rotate.
+        // Once the provider has no keys left, the top of the loop falls back.
+        profile.cooldownUntil = Date.now() + error.retry.cooldownMs;
         continue;
       }
 
-      case "rate_limit": {
-        // Wait briefly, then retry same profile
-        await sleep(5_000);
+      case "wait": {
+        // Rate limit / overloaded: wait (Retry-After if sent), same profile —
+        // until it looks persistent, then try the next candidate instead
+        if (waitsOnCandidate >= MAX_WAITS_PER_CANDIDATE
+          && fallBack(error.type, `still rate limited after ${waitsOnCandidate} waits`, error.ruleId)) continue;
+        waitsOnCandidate++;
+        await sleep(error.retry.waitMs);
         continue;
       }
 
-      case "thinking_mismatch": {
+      case "downgrade_thinking": {
         // Model doesn't support requested think level → downgrade
-        currentThinkLevel = downgradeThinkLevel(currentThinkLevel);
-        continue;
+        if (currentThinkLevel !== "off") {
+          currentThinkLevel = downgradeThinkLevel(currentThinkLevel);
+          continue;
+        }
+        if (fallBack(error.type, "thinking mismatch with thinking already off", error.ruleId)) continue;
+        return giveUp(error, "");
       }
 
-      default: {
+      case "fail": {
         // Unknown error, not retryable
-        return {
-          payloads: [{ text: `Error: ${error.message}`, isError: true }],
-          totalTokenUsage,
-        };
+        return giveUp(error, "");
       }
     }
   }
@@ -334,25 +491,46 @@ const result = await runAgentWithRetry({
   systemPrompt: "You are a helpful assistant...",
   messages: [{ role: "user", content: "Analyze this codebase" }],
   authProfiles: [
-    { id: "primary", provider: "anthropic", model: "claude-opus-4-6", apiKey: "sk-..." },
-    { id: "fallback", provider: "anthropic", model: "claude-sonnet-4-6", apiKey: "sk-..." },
+    { id: "primary", provider: "anthropic", apiKey: "sk-ant-..." },
+    { id: "backup", provider: "anthropic", apiKey: "sk-ant-..." },
+    { id: "openai", provider: "openai", apiKey: "sk-..." },
+  ],
+  fallbackChain: [
+    { provider: "anthropic", model: "claude-opus-4-6", contextWindowTokens: 200_000,
+      thinking: { supportsThinking: true, supportsBinaryOnly: false, supportsXHigh: true } },
+    { provider: "openai", model: "gpt-4.1", contextWindowTokens: 1_047_576,
+      thinking: { supportsThinking: false, supportsBinaryOnly: false, supportsXHigh: false } },
   ],
   thinkLevel: "high",
   tools: [...],
+  budget: new RunBudgetTracker("run-42", { maxCostUsd: 2.0, maxToolCalls: 200 }),
 });
 
 // Execution flow:
-// Iteration 1: attempt with claude-opus-4-6, thinkLevel=high
+// Iteration 1: attempt with anthropic/claude-opus-4-6 (primary key), thinkLevel=high
 //   Inner loop: LLM → read_file → LLM → edit_file → LLM → done
 //   → Success! Return result.
 //
 // Or error path:
-// Iteration 1: attempt with claude-opus-4-6 → auth error (expired key)
-//   → Mark profile with cooldown, rotate to fallback
-// Iteration 2: attempt with claude-sonnet-4-6 → context overflow
+// Iteration 1: claude-opus-4-6 / primary → 401 (rule http.unauthorized)
+//   → Park "primary" for 1 min, next iteration uses "backup"
+// Iteration 2: claude-opus-4-6 / backup → prompt is too long
 //   → Compact messages (summarize oldest 50%)
-// Iteration 3: attempt with claude-sonnet-4-6 → success
-//   → Return result with accumulated token usage
+// Iterations 3-5: still too long → compact ×2, then thinking high → medium
+//   ... thinking reaches "off", still overflowing
+// Tier 5: fall back to openai/gpt-4.1 (1M window > 200K); thinking blocks
+//   are dropped from history (Anthropic-signed), thinkLevel clamps to "off"
+// Next iteration: gpt-4.1 → success
+//
+// result.switches:
+//   [{ from: "anthropic/claude-opus-4-6", to: "openai/gpt-4.1", errorClass: "overflow",
+//      ruleId: "anthropic.prompt_too_long",
+//      reason: "context overflow after compaction on 200000-token window", iteration: 9 }]
+
+// Budget stop (checked before every attempt and between tool-loop turns):
+// result.budgetExhausted = { limit: "tool_calls", used: 200, max: 200, runId: "run-42" }
+// result.payloads = [{ text: "<partial answer>\n\n[Stopped early: run budget exhausted — tool_calls 200 of 200 (run run-42)]",
+//                      isPartial: true }]
 
 // Token tracking:
 // totalTokenUsage = sum of ALL attempts (not just the successful one)
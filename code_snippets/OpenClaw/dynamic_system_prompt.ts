@@ -11,8 +11,12 @@
  *   - Tool summaries extracted dynamically from tool objects
  *   - Canonical tool ordering to prevent positional bias
  *   - Skill discovery with token budget caps
+ *   - Channel section comes from the same ChannelCapabilityProfile that
+ *     planDelivery enforces (channel_delivery.ts)
  */
 
+import type { ChannelCapabilityProfile } from "./channel_delivery";
+
 // ─── Types ─────────────────────────────────────────────────────────────────
 
 type PromptMode = "full" | "minimal" | "none";
@@ -49,7 +53,7 @@ interface SystemPromptParams {
   runtime: RuntimeInfo;
   thinkLevel: ThinkLevel;
   citationsMode?: "on" | "off";
-  channelCapabilities?: string[];
+  channelCapabilities?: ChannelCapabilityProfile;
 }
 
 // ─── Tool Summaries (Dynamic Extraction) ───────────────────────────────────
@@ -249,6 +253,34 @@ function buildSandboxSection(sandboxInfo: string | undefined): string[] {
   ];
 }
 
+const MARKDOWN_GUIDANCE: Record<ChannelCapabilityProfile["markdown"], string> = {
+  commonmark: "Markdown renders (headings, bold, lists, code blocks, links).",
+  slack_mrkdwn: "Slack mrkdwn: *bold*, _italic_, `code`, <url|text>. No headings or tables.",
+  plain: "Plain text only: no markdown, write URLs out in full.",
+};
+
+function buildChannelSection(
+  profile: ChannelCapabilityProfile | undefined,
+  isMinimal: boolean,
+): string[] {
+  // Sub-agents reply to their parent, not to a channel
+  if (isMinimal || !profile) return [];
+
+  const media = profile.media.length > 0 ? profile.media.join(", ") : "none (send links instead)";
+  const lines = [
+    "## Channel",
+    `Channel: ${profile.channel}`,
+    `Messages over ${profile.maxMessageChars} chars are split; prefer replies that fit in one.`,
+    MARKDOWN_GUIDANCE[profile.markdown],
+    `Attachments (MEDIA:<url>): ${media}.`,
+  ];
+  if (profile.voice) lines.push("Voice notes supported (VOICE:<url> for audio).");
+  if (profile.threading === "none") lines.push("No reply threading: omit [[reply_to]] directives.");
+
+  lines.push("");
+  return lines;
+}
+
 function buildRuntimeSection(
   runtime: RuntimeInfo,
   thinkLevel: ThinkLevel,
@@ -314,6 +346,9 @@ export function buildAgentSystemPrompt(params: SystemPromptParams): string {
     // Sandbox (if sandboxed)
     buildSandboxSection(params.sandboxInfo),
 
+    // Channel limits (full mode, when replying to a channel)
+    buildChannelSection(params.channelCapabilities, isMinimal),
+
     // Runtime (always in full/minimal)
     buildRuntimeSection(params.runtime, params.thinkLevel),
   ];
@@ -347,8 +382,9 @@ const mainPrompt = buildAgentSystemPrompt({
   runtime: { model: "claude-opus-4-6", os: "linux", shell: "zsh", repoRoot: "/home/user/projects/myapp" },
   thinkLevel: "high",
   citationsMode: "on",
+  channelCapabilities: CHANNEL_PROFILES.slack,
 });
-// → Includes: identity, tools (canonical order), skills, memory, workspace, runtime
+// → Includes: identity, tools (canonical order), skills, memory, workspace, channel, runtime
 
 // Sub-agent — minimal prompt (no skills, no memory instructions)
 const subPrompt = buildAgentSystemPrompt({
@@ -0,0 +1,409 @@
+/**
+ * Declarative Provider Error Classification
+ *
+ * Pattern: Classify provider failures with a rule table (provider, HTTP
+ * status, error code, message regex → class + retry hint) instead of a chain
+ * of hard-coded string checks. The retry loop acts on the hint, not the class.
+ * From: OpenClaw src/agents/pi-embedded-helpers/errors.ts, plugin provider hooks
+ *
+ * Key ideas:
+ *   - Structured fields beat message text: a 429 whose body says "Request too
+ *     large ... tokens per min" is a rate limit, not a context overflow, and
+ *     a prompt of "401 tokens" is not an auth failure
+ *   - Rules are matched most-specific first: explicit priority, then
+ *     provider-scoped before generic, then structured (status/code) before
+ *     message-only, then table order
+ *   - Every rule carries a retry hint (compact, rotate profile, wait,
+ *     downgrade thinking, fail) so escalation policy lives in one table
+ *   - Provider plugins contribute rules through a process-global registry;
+ *     a plugin re-registering replaces its own rules, never someone else's
+ *   - A corpus of real-world payloads must hit every rule — an unexercised
+ *     rule is either dead or untested
+ */
+
+import { extractStatusCode, rateLimitInfoFromError } from "./rate_limit_headers";
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+export type ErrorClass = "auth" | "overflow" | "timeout" | "rate_limit" | "thinking_mismatch" | "unknown";
+
+export type RetryHint =
+  | { action: "compact" }                             // shrink the context and retry
+  | { action: "rotate_profile"; cooldownMs: number }  // park this profile, try the next
+  | { action: "wait"; waitMs: number }                // same profile after a pause
+  | { action: "downgrade_thinking" }                  // retry at a lower think level
+  | { action: "fail" };                               // not retryable
+
+export interface ErrorClassificationRule {
+  /** Stable id, e.g. "openai.context_length_exceeded". Shown in logs. */
+  id: string;
+  /** Only match failures from this provider ("anthropic", "openai", ...). */
+  provider?: string;
+  status?: number | number[];
+  /** Matched against the error's code/type (`context_length_exceeded`, `overloaded_error`). */
+  code?: string | RegExp;
+  message?: RegExp;
+  errorClass: ErrorClass;
+  retry: RetryHint;
+  /** Higher wins before any specificity ordering. Default 0. */
+  priority?: number;
+}
+
+/** The normalized view of a thrown error that rules are matched against. */
+export interface ErrorFacts {
+  provider?: string;
+  status?: number;
+  code?: string;
+  message: string;
+}
+
+export interface ErrorClassification {
+  type: ErrorClass;
+  message: string;
+  retryable: boolean;
+  retry: RetryHint;
+  /** Rule that matched; undefined when nothing did. */
+  ruleId?: string;
+}
+
+// ─── Built-in rules ────────────────────────────────────────────────────────
+
+const COMPACT: RetryHint = { action: "compact" };
+const DOWNGRADE: RetryHint = { action: "downgrade_thinking" };
+const AUTH_COOLDOWN: RetryHint = { action: "rotate_profile", cooldownMs: 60_000 };
+const TIMEOUT_COOLDOWN: RetryHint = { action: "rotate_profile", cooldownMs: 30_000 };
+const BACKOFF: RetryHint = { action: "wait", waitMs: 5_000 };
+
+export const DEFAULT_ERROR_RULES: readonly ErrorClassificationRule[] = [
+  // Provider-specific codes
+  { id: "anthropic.prompt_too_long", provider: "anthropic", status: 400, message: /prompt is too long/i, errorClass: "overflow", retry: COMPACT },
+  { id: "anthropic.overloaded", provider: "anthropic", code: "overloaded_error", errorClass: "rate_limit", retry: { action: "wait", waitMs: 15_000 } },
+  { id: "anthropic.thinking_budget", provider: "anthropic", status: 400, message: /budget_tokens|thinking.*(?:not supported|not enabled)/i, errorClass: "thinking_mismatch", retry: DOWNGRADE },
+  { id: "openai.context_length_exceeded", provider: "openai", code: "context_length_exceeded", errorClass: "overflow", retry: COMPACT },
+  // Quota is per key: parking the key for an hour beats hammering it
+  { id: "openai.insufficient_quota", provider: "openai", code: "insufficient_quota", errorClass: "auth", retry: { action: "rotate_profile", cooldownMs: 3_600_000 } },
+  { id: "openai.reasoning_unsupported", provider: "openai", status: 400, message: /reasoning_effort.*not supported|unsupported.*reasoning/i, errorClass: "thinking_mismatch", retry: DOWNGRADE },
+  { id: "google.resource_exhausted", provider: "google", code: "RESOURCE_EXHAUSTED", errorClass: "rate_limit", retry: { action: "wait", waitMs: 10_000 } },
+  { id: "google.token_limit", provider: "google", status: 400, message: /exceeds the maximum number of tokens/i, errorClass: "overflow", retry: COMPACT },
+  { id: "bedrock.throttling", provider: "bedrock", code: "ThrottlingException", errorClass: "rate_limit", retry: BACKOFF },
+  { id: "bedrock.input_too_long", provider: "bedrock", code: "ValidationException", message: /input is too long|too many input tokens/i, errorClass: "overflow", retry: COMPACT },
+
+  // Generic HTTP status
+  { id: "http.unauthorized", status: [401, 403], errorClass: "auth", retry: AUTH_COOLDOWN },
+  { id: "http.payload_too_large", status: 413, errorClass: "overflow", retry: COMPACT },
+  { id: "http.rate_limited", status: 429, errorClass: "rate_limit", retry: BACKOFF },
+  { id: "http.gateway_timeout", status: [408, 504], errorClass: "timeout", retry: TIMEOUT_COOLDOWN },
+
+  // Transport errors (no HTTP response at all)
+  { id: "net.timeout", code: /^(?:ETIMEDOUT|ECONNABORTED|UND_ERR_(?:HEADERS|BODY)_TIMEOUT|AbortError|TimeoutError)$/, errorClass: "timeout", retry: TIMEOUT_COOLDOWN },
+
+  // Message fallbacks, for errors that arrive as bare strings. A status the
+  // SDK prefixed onto the text ("429 Request too large ...", "HTTP 401") is
+  // read first, so a TPM limit is not mistaken for an overflow; only a leading
+  // status counts, so "401 tokens" mid-sentence stays a token count.
+  { id: "message.status_auth", message: /^(?:HTTP(?:\/[\d.]+)?\s+)?(?:401|403)\b/i, errorClass: "auth", retry: AUTH_COOLDOWN },
+  { id: "message.status_rate_limit", message: /^(?:HTTP(?:\/[\d.]+)?\s+)?429\b/i, errorClass: "rate_limit", retry: BACKOFF },
+  { id: "message.overflow", message: /context.?length|context.?window|maximum.?context|token.?limit|too.?many.?tokens|request.?too.?large|overflow/i, errorClass: "overflow", retry: COMPACT },
+  { id: "message.auth", message: /invalid.*(?:api.?)?key|unauthorized|authentication/i, errorClass: "auth", retry: AUTH_COOLDOWN },
+  { id: "message.timeout", message: /timeout|timed out/i, errorClass: "timeout", retry: TIMEOUT_COOLDOWN },
+  { id: "message.rate_limit", message: /rate.?limit|too many requests/i, errorClass: "rate_limit", retry: BACKOFF },
+  { id: "message.thinking", message: /thinking.*not supported|budget_tokens/i, errorClass: "thinking_mismatch", retry: DOWNGRADE },
+];
+
+// ─── Plugin registry (process-global) ──────────────────────────────────────
+
+interface ErrorRuleRegistryState {
+  byOwner: Map<string, ErrorClassificationRule[]>;
+  /** Cached merged + sorted table; invalidated on every registration. */
+  sorted: ErrorClassificationRule[] | null;
+}
+
+const ERROR_RULE_REGISTRY_STATE = Symbol.for("openclaw.errorClassificationRegistryState");
+
+function getRegistryState(): ErrorRuleRegistryState {
+  const globalState = globalThis as typeof globalThis & {
+    [ERROR_RULE_REGISTRY_STATE]?: ErrorRuleRegistryState;
+  };
+  if (!globalState[ERROR_RULE_REGISTRY_STATE]) {
+    globalState[ERROR_RULE_REGISTRY_STATE] = { byOwner: new Map(), sorted: null };
+  }
+  return globalState[ERROR_RULE_REGISTRY_STATE];
+}
+
+/**
+ * Register a provider plugin's rules. Calling again with the same owner
+ * replaces that owner's rules (plugin reload); an empty list removes them.
+ */
+export function registerErrorClassificationRules(
+  owner: string,
+  rules: ErrorClassificationRule[],
+): { ok: true } | { ok: false; reason: string } {
+  const state = getRegistryState();
+  const taken = new Set(DEFAULT_ERROR_RULES.map((r) => r.id));
+  for (const [otherOwner, otherRules] of state.byOwner) {
+    if (otherOwner !== owner) for (const r of otherRules) taken.add(r.id);
+  }
+  for (const rule of rules) {
+    if (taken.has(rule.id)) return { ok: false, reason: `rule id already registered: ${rule.id}` };
+    if (rule.status === undefined && rule.code === undefined && rule.message === undefined) {
+      return { ok: false, reason: `rule ${rule.id} matches every error (no status, code or message)` };
+    }
+    taken.add(rule.id);
+  }
+  if (rules.length === 0) state.byOwner.delete(owner);
+  else state.byOwner.set(owner, [...rules]);
+  state.sorted = null;
+  return { ok: true };
+}
+
+function specificity(rule: ErrorClassificationRule): number {
+  return (rule.provider ? 4 : 0) + (rule.status !== undefined || rule.code !== undefined ? 2 : 0) + (rule.message ? 1 : 0);
+}
+
+/** Every active rule in match order. Plugin rules sit ahead of built-ins at equal rank. */
+export function listErrorClassificationRules(): ErrorClassificationRule[] {
+  const state = getRegistryState();
+  if (!state.sorted) {
+    const all = [...[...state.byOwner.values()].flat(), ...DEFAULT_ERROR_RULES];
+    // Array.prototype.sort is stable, so table order breaks remaining ties
+    state.sorted = all.sort((a, b) =>
+      (b.priority ?? 0) - (a.priority ?? 0) || specificity(b) - specificity(a));
+  }
+  return state.sorted;
+}
+
+// ─── Matching ──────────────────────────────────────────────────────────────
+
+/**
+ * Flatten the shapes SDKs throw: `{status, error: {type, message}}`
+ * (Anthropic), `{status, code}` (OpenAI), `{error: {status: "RESOURCE_EXHAUSTED"}}`
+ * (Google), `{name: "ThrottlingException"}` (AWS), Node's `{code: "ETIMEDOUT"}`.
+ */
+export function extractErrorFacts(error: unknown, provider?: string): ErrorFacts {
+  const message = error instanceof Error ? error.message
+    : typeof error === "string" ? error
+    : String((error as any)?.message ?? (error as any)?.error?.message ?? error);
+  let code: string | undefined;
+  let current: any = error;
+  for (let depth = 0; !code && current && typeof current === "object" && depth < 5; depth++) {
+    // Google's status is the code string; Anthropic's outer envelope is type "error"
+    code = [current.code, current.type, current.status]
+      .find((c): c is string => typeof c === "string" && c !== "error");
+    current = current.error ?? current.cause;
+  }
+  // AWS SDK v3 puts the exception type in `name`; plain Errors say "Error"
+  const name = (error as any)?.name;
+  if (!code && typeof name === "string" && name !== "Error") code = name;
+  return { provider, status: extractStatusCode(error), code, message };
+}
+
+function matchesRule(rule: ErrorClassificationRule, facts: ErrorFacts): boolean {
+  if (rule.provider && rule.provider !== facts.provider) return false;
+  if (rule.status !== undefined) {
+    const statuses = Array.isArray(rule.status) ? rule.status : [rule.status];
+    if (facts.status === undefined || !statuses.includes(facts.status)) return false;
+  }
+  if (rule.code !== undefined) {
+    if (facts.code === undefined) return false;
+    if (typeof rule.code === "string" ? rule.code !== facts.code : !rule.code.test(facts.code)) return false;
+  }
+  if (rule.message && !rule.message.test(facts.message)) return false;
+  return true;
+}
+
+export function findMatchingRule(
+  facts: ErrorFacts,
+  rules: readonly ErrorClassificationRule[] = listErrorClassificationRules(),
+): ErrorClassificationRule | undefined {
+  return rules.find((rule) => matchesRule(rule, facts));
+}
+
+/**
+ * Classify a thrown provider error. A "wait" hint is stretched to the
+ * provider's own Retry-After when the response carried one.
+ */
+export function classifyError(error: unknown, opts: { provider?: string } = {}): ErrorClassification {
+  const facts = extractErrorFacts(error, opts.provider);
+  const rule = findMatchingRule(facts);
+  if (!rule) {
+    return { type: "unknown", message: facts.message, retryable: false, retry: { action: "fail" } };
+  }
+
+  let retry = rule.retry;
+  if (retry.action === "wait") {
+    const retryAfterMs = rateLimitInfoFromError(error)?.retryAfterMs;
+    if (retryAfterMs !== undefined) retry = { action: "wait", waitMs: Math.max(retry.waitMs, retryAfterMs) };
+  }
+  return {
+    type: rule.errorClass,
+    message: facts.message,
+    retryable: retry.action !== "fail",
+    retry,
+    ruleId: rule.id,
+  };
+}
+
+// ─── Corpus ────────────────────────────────────────────────────────────────
+
+export interface ErrorCorpusSample {
+  /** Rule this payload must resolve to. */
+  ruleId: string;
+  provider?: string;
+  error: unknown;
+}
+
+function apiError(status: number, message: string, extra: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), { status, ...extra });
+}
+
+/** Payloads as the SDKs actually throw them, one or more per built-in rule. */
+export const ERROR_CORPUS: readonly ErrorCorpusSample[] = [
+  {
+    ruleId: "anthropic.prompt_too_long", provider: "anthropic",
+    error: apiError(400, "400 {\"type\":\"error\",\"error\":{\"type\":\"invalid_request_error\",\"message\":\"prompt is too long: 208310 tokens > 200000 maximum\"}}",
+      { error: { type: "error", error: { type: "invalid_request_error", message: "prompt is too long: 208310 tokens > 200000 maximum" } } }),
+  },
+  {
+    ruleId: "anthropic.overloaded", provider: "anthropic",
+    error: apiError(529, "529 {\"type\":\"error\",\"error\":{\"type\":\"overloaded_error\",\"message\":\"Overloaded\"}}",
+      { error: { type: "error", error: { type: "overloaded_error", message: "Overloaded" } } }),
+  },
+  {
+    ruleId: "anthropic.thinking_budget", provider: "anthropic",
+    error: apiError(400, "400 `max_tokens` must be greater than `thinking.budget_tokens`. Please consult our documentation at https://docs.anthropic.com/en/docs/build-with-claude/extended-thinking#max-tokens-and-context-window-size",
+      { error: { type: "error", error: { type: "invalid_request_error" } } }),
+  },
+  {
+    ruleId: "openai.context_length_exceeded", provider: "openai",
+    error: apiError(400, "400 This model's maximum context length is 128000 tokens. However, your messages resulted in 131072 tokens. Please reduce the length of the messages.",
+      { code: "context_length_exceeded", type: "invalid_request_error", param: "messages" }),
+  },
+  {
+    ruleId: "openai.insufficient_quota", provider: "openai",
+    error: apiError(429, "429 You exceeded your current quota, please check your plan and billing details.",
+      { code: "insufficient_quota", type: "insufficient_quota" }),
+  },
+  {
+    ruleId: "openai.reasoning_unsupported", provider: "openai",
+    error: apiError(400, "400 Unsupported parameter: 'reasoning_effort' is not supported with this model.",
+      { code: "unsupported_parameter", type: "invalid_request_error", param: "reasoning_effort" }),
+  },
+  {
+    ruleId: "google.resource_exhausted", provider: "google",
+    error: { error: { code: 429, message: "Resource has been exhausted (e.g. check quota).", status: "RESOURCE_EXHAUSTED" } },
+  },
+  {
+    ruleId: "google.token_limit", provider: "google",
+    error: apiError(400, "The input token count (1312544) exceeds the maximum number of tokens allowed (1048576).",
+      { error: { code: 400, status: "INVALID_ARGUMENT" } }),
+  },
+  {
+    ruleId: "bedrock.throttling", provider: "bedrock",
+    error: Object.assign(new Error("Too many tokens, please wait before trying again."),
+      { name: "ThrottlingException", $metadata: { httpStatusCode: 429 } }),
+  },
+  {
+    ruleId: "bedrock.input_too_long", provider: "bedrock",
+    error: Object.assign(new Error("Input is too long for requested model."),
+      { name: "ValidationException", $metadata: { httpStatusCode: 400 } }),
+  },
+  {
+    ruleId: "http.unauthorized", provider: "anthropic",
+    error: apiError(401, "401 {\"type\":\"error\",\"error\":{\"type\":\"authentication_error\",\"message\":\"invalid x-api-key\"}}",
+      { error: { type: "error", error: { type: "authentication_error", message: "invalid x-api-key" } } }),
+  },
+  {
+    ruleId: "http.unauthorized", provider: "openai",
+    error: apiError(403, "403 Project `proj_abc` does not have access to model `o3`", { code: "model_not_found" }),
+  },
+  {
+    ruleId: "http.payload_too_large",
+    error: apiError(413, "413 Request Entity Too Large"),
+  },
+  {
+    // Says "Request too large ... tokens" but it's a TPM rate limit — status wins
+    ruleId: "http.rate_limited", provider: "openai",
+    error: apiError(429, "429 Request too large for gpt-4o in organization org-abc on tokens per min (TPM): Limit 30000, Requested 45012.",
+      { code: "rate_limit_exceeded", type: "tokens" }),
+  },
+  {
+    ruleId: "http.rate_limited", provider: "anthropic",
+    error: apiError(429, "429 {\"type\":\"error\",\"error\":{\"type\":\"rate_limit_error\",\"message\":\"This request would exceed your organization's rate limit of 80,000 input tokens per minute.\"}}",
+      { error: { type: "error", error: { type: "rate_limit_error" } }, headers: { "retry-after": "12" } }),
+  },
+  {
+    ruleId: "http.gateway_timeout",
+    error: apiError(504, "504 Gateway Time-out"),
+  },
+  {
+    ruleId: "net.timeout",
+    error: Object.assign(new Error("connect ETIMEDOUT 104.18.6.192:443"), { code: "ETIMEDOUT", errno: -110, syscall: "connect" }),
+  },
+  {
+    ruleId: "net.timeout",
+    error: Object.assign(new Error("Headers Timeout Error"), { code: "UND_ERR_HEADERS_TIMEOUT" }),
+  },
+  // The status survives only in the text once an error has been stringified
+  { ruleId: "message.status_auth", error: "HTTP 401" },
+  { ruleId: "message.status_auth", error: "403 Forbidden" },
+  { ruleId: "message.status_rate_limit", error: "429 Request too large for gpt-4o in organization org-abc on tokens per min (TPM): Limit 30000, Requested 45012." },
+  { ruleId: "message.overflow", error: "Context window exceeded: 210k tokens > 200k" },
+  { ruleId: "message.overflow", error: "compaction failed: request too large even after summary" },
+  { ruleId: "message.auth", error: "Invalid API key provided: sk-****abcd" },
+  { ruleId: "message.timeout", error: new Error("Request timed out.") },
+  { ruleId: "message.rate_limit", error: "Too many requests, please slow down" },
+  { ruleId: "message.thinking", error: "extended thinking is not supported by this model" },
+  // A token count that happens to be 401 is not an auth failure
+  { ruleId: "message.overflow", error: "token limit reached: 401 tokens over budget" },
+];
+
+export interface CorpusCheckResult {
+  ok: boolean;
+  mismatches: Array<{ sample: ErrorCorpusSample; matched?: string }>;
+  /** Active rules no sample resolved to. */
+  unexercised: string[];
+}
+
+/**
+ * Run every sample through the active rule table. Plugins pass their own
+ * samples alongside the built-in corpus; CI fails on any mismatch or any
+ * rule left unexercised.
+ */
+export function checkErrorCorpus(extraSamples: readonly ErrorCorpusSample[] = []): CorpusCheckResult {
+  const rules = listErrorClassificationRules();
+  const hit = new Set<string>();
+  const mismatches: CorpusCheckResult["mismatches"] = [];
+  for (const sample of [...ERROR_CORPUS, ...extraSamples]) {
+    const matched = findMatchingRule(extractErrorFacts(sample.error, sample.provider), rules)?.id;
+    if (matched) hit.add(matched);
+    if (matched !== sample.ruleId) mismatches.push({ sample, matched });
+  }
+  const unexercised = rules.map((r) => r.id).filter((id) => !hit.has(id));
+  return { ok: mismatches.length === 0 && unexercised.length === 0, mismatches, unexercised };
+}
+
+// ─── Usage Example ─────────────────────────────────────────────────────────
+
+/*
+// A provider plugin ships its own rules (and samples that prove them):
+export default function register(api: OpenClawPluginApi) {
+  api.registerProvider({ id: "inference", ... });
+  registerErrorClassificationRules("nemoclaw", [
+    { id: "nemoclaw.policy_denied", provider: "inference", status: 403, code: "policy_denied",
+      errorClass: "unknown", retry: { action: "fail" } },  // egress policy: retrying won't help
+  ]);
+}
+
+// CI:
+const result = checkErrorCorpus(NEMOCLAW_ERROR_SAMPLES);
+if (!result.ok) throw new Error(JSON.stringify(result, null, 2));
+
+// In the retry loop:
+classifyError(err, { provider: "openai" });
+// 429 "Request too large for gpt-4o ... tokens per min" →
+//   { type: "rate_limit", retry: { action: "wait", waitMs: 5000 }, ruleId: "http.rate_limited" }
+// (the old message-regex chain called this an overflow and compacted for nothing)
+
+classifyError(anthropic429WithRetryAfter12s, { provider: "anthropic" });
+//   { type: "rate_limit", retry: { action: "wait", waitMs: 12000 }, ... }  // provider's wait wins
+*/
@@ -0,0 +1,274 @@
+/**
+ * Rate-Limit Fake Provider Check
+ *
+ * Pattern: A local HTTP server answers 429 once per request URL, using one
+ * provider's rate-limit header style per path, then 200. Both retry loops
+ * that consume rate_limit_headers.ts run against it end to end.
+ *
+ * Key ideas:
+ * - One path per header style; date and epoch values are computed per
+ *   request, so they always lie ~1s in the future
+ * - OpenClaw: runAgentWithFailover with a single profile is rate limited on
+ *   every profile, so it must sleep until the advertised reset and then
+ *   succeed — elapsed wall time is checked against the advertised wait
+ * - OpenCode: createProcessor().process() must retry the stream call until
+ *   it succeeds, and retryDelay() must schedule the advertised wait
+ * - An empty retry-after is served too: it must count as absent (fall back
+ *   to backoff), never as "retry immediately"
+ * - No network and no API keys: the server binds to 127.0.0.1:0
+ * - CLI: `rate-limit-fake-provider`; exit code 1 on any failure
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import { runAgentWithFailover, type AuthStore } from "./auth_failover";
+import { createProcessor, retryDelay, type StreamEvent } from "../OpenCode/session_processor";
+
+// --- Types ---
+
+type HeaderStyle = {
+  path: string;
+  headers: (now: number) => Record<string, string>;
+  /** Bounds on the wait the headers advertise, ms. undefined → no wait advertised. */
+  waitMs?: [min: number, max: number];
+};
+
+export type RateLimitCheck = {
+  loop: "openclaw" | "opencode";
+  style: string;
+  passed: boolean;
+  detail?: string;
+};
+
+// --- Header styles ---
+
+const STYLES: HeaderStyle[] = [
+  { path: "/retry-after-seconds", headers: () => ({ "retry-after": "1" }), waitMs: [1000, 1000] },
+  {
+    path: "/retry-after-date",
+    // HTTP-dates have 1s resolution, so the advertised wait is 1-2s
+    headers: (now) => ({ "retry-after": new Date(now + 2000).toUTCString() }),
+    waitMs: [900, 2000],
+  },
+  { path: "/retry-after-ms", headers: () => ({ "retry-after-ms": "1200" }), waitMs: [1200, 1200] },
+  {
+    path: "/openai",
+    headers: () => ({
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "1s200ms",
+      "x-ratelimit-remaining-tokens": "12000",
+      "x-ratelimit-reset-tokens": "6m0s",
+    }),
+    waitMs: [1200, 1200],
+  },
+  {
+    path: "/anthropic",
+    headers: (now) => ({
+      "anthropic-ratelimit-requests-remaining": "0",
+      "anthropic-ratelimit-requests-reset": new Date(now + 1200).toISOString(),
+    }),
+    waitMs: [1100, 1200],
+  },
+  {
+    path: "/github",
+    headers: (now) => ({
+      "x-ratelimit-remaining": "0",
+      "x-ratelimit-reset": String(Math.ceil(now / 1000) + 1),
+    }),
+    waitMs: [900, 2000],
+  },
+  { path: "/ietf", headers: () => ({ "ratelimit-remaining": "0", "ratelimit-reset": "1" }), waitMs: [1000, 1000] },
+  { path: "/retry-after-empty", headers: () => ({ "retry-after": "" }) },
+];
+
+// Timers and clock reads around a request lose a few ms either way
+const TOLERANCE_MS = 100;
+
+// --- Fake provider ---
+
+/** 429 on the first request to each URL (path + query), 200 afterwards. */
+export async function startFakeProvider() {
+  const hits = new Map<string, number>();
+
+  const server = http.createServer((req, res) => {
+    const url = req.url ?? "/";
+    const count = (hits.get(url) ?? 0) + 1;
+    hits.set(url, count);
+    const style = STYLES.find((s) => s.path === url.split("?")[0]);
+
+    if (!style) {
+      res.writeHead(404).end();
+    } else if (count === 1) {
+      res.writeHead(429, { "content-type": "application/json", ...style.headers(Date.now()) });
+      res.end(JSON.stringify({ error: { type: "rate_limit_error" } }));
+    } else {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ text: "ok" }));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: (path: string, run: string) => `http://127.0.0.1:${port}${path}?run=${run}`,
+    hits: (url: string) => hits.get(new URL(url).pathname + new URL(url).search) ?? 0,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** Shaped like an SDK error: status + response headers on the error itself. */
+async function callProvider(url: string): Promise<{ text: string }> {
+  const res = await fetch(url, { method: "POST" });
+  const body = await res.json();
+  if (!res.ok) {
+    throw Object.assign(new Error(`${res.status} ${body.error?.type ?? "error"}`), {
+      status: res.status,
+      headers: res.headers,
+    });
+  }
+  return body;
+}
+
+function withinWait(actual: number, [min, max]: [number, number]): boolean {
+  return actual >= min - TOLERANCE_MS && actual <= max + TOLERANCE_MS;
+}
+
+// --- Checks ---
+
+/** OpenClaw: the failover loop sleeps until the reset, then the same profile succeeds. */
+async function checkFailoverLoop(
+  provider: Awaited<ReturnType<typeof startFakeProvider>>,
+  style: HeaderStyle & { waitMs: [number, number] },
+): Promise<string | undefined> {
+  const url = provider.url(style.path, "openclaw");
+  const store: AuthStore = {
+    profiles: [{ id: "only", provider: "fake", apiKey: "" }],
+    failures: new Map(),
+  };
+
+  const startedAt = Date.now();
+  const result = await runAgentWithFailover({
+    store,
+    profiles: store.profiles,
+    runAttempt: async () => ({ ...(await callProvider(url)), usage: { inputTokens: 0, outputTokens: 0 } }),
+  });
+  const elapsed = Date.now() - startedAt;
+
+  if (result.text !== "ok") return `unexpected result ${JSON.stringify(result)}`;
+  if (provider.hits(url) !== 2) return `expected 2 requests, saw ${provider.hits(url)}`;
+  if (elapsed < style.waitMs[0] - TOLERANCE_MS) {
+    return `retried after ${elapsed}ms, provider asked for >= ${style.waitMs[0]}ms`;
+  }
+  return undefined;
+}
+
+/** OpenCode: the processor retries the stream call; the scheduled delay matches the headers. */
+async function checkProcessorLoop(
+  provider: Awaited<ReturnType<typeof startFakeProvider>>,
+  style: HeaderStyle,
+): Promise<string | undefined> {
+  const url = provider.url(style.path, "opencode");
+  const delays: number[] = [];
+
+  const processor = createProcessor({
+    assistantMessage: { id: "msg_check", tokens: {}, time: {} },
+    sessionID: "ses_check",
+    model: { limit: { context: 200_000 } },
+    abort: new AbortController().signal,
+    llm: async () => {
+      try {
+        await callProvider(url);
+      } catch (error) {
+        delays.push(retryDelay(delays.length + 1, error));
+        throw error;
+      }
+      return {
+        fullStream: (async function* (): AsyncGenerator<StreamEvent> {
+          yield { type: "start" };
+        })(),
+      };
+    },
+  });
+
+  const outcome = await processor.process({});
+  if (outcome !== "continue") return `process() returned "${outcome}"`;
+  if (provider.hits(url) !== 2) return `expected 2 requests, saw ${provider.hits(url)}`;
+
+  const [delay] = delays;
+  if (style.waitMs) {
+    if (!withinWait(delay, style.waitMs)) return `scheduled ${delay}ms, provider asked for ${style.waitMs.join("-")}ms`;
+  } else if (delay <= 0) {
+    return `no wait advertised but retry scheduled after ${delay}ms (expected backoff)`;
+  }
+  return undefined;
+}
+
+// --- Runner ---
+
+export async function runRateLimitChecks(): Promise<RateLimitCheck[]> {
+  const provider = await startFakeProvider();
+  const checks: RateLimitCheck[] = [];
+
+  const record = async (loop: RateLimitCheck["loop"], style: string, run: () => Promise<string | undefined>) => {
+    try {
+      const detail = await run();
+      checks.push({ loop, style, passed: detail === undefined, detail });
+    } catch (err) {
+      checks.push({ loop, style, passed: false, detail: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  try {
+    for (const style of STYLES) {
+      const { waitMs } = style;
+      // An empty retry-after makes the failover loop fall back to its 30s
+      // cooldown; the processor check covers that case
+      if (waitMs) await record("openclaw", style.path, () => checkFailoverLoop(provider, { ...style, waitMs }));
+      await record("opencode", style.path, () => checkProcessorLoop(provider, style));
+    }
+  } finally {
+    await provider.close();
+  }
+  return checks;
+}
+
+export function formatChecks(checks: RateLimitCheck[]): string {
+  const lines = checks.map((c) =>
+    `${c.passed ? "PASS" : "FAIL"}  ${c.loop.padEnd(9)} ${c.style}${c.detail ? `\n      ${c.detail}` : ""}`,
+  );
+  const failed = checks.filter((c) => !c.passed).length;
+  return [...lines, `${checks.length - failed} passed, ${failed} failed`].join("\n");
+}
+
+// --- CLI ---
+
+export async function main(): Promise<number> {
+  const checks = await runRateLimitChecks();
+  console.log(formatChecks(checks));
+  return checks.every((c) => c.passed) ? 0 : 1;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().then((code) => { process.exitCode = code; });
+}
+
+// --- Usage Example ---
+
+/*
+// From a test suite:
+import { runRateLimitChecks } from "./rate_limit_fake_provider";
+
+const checks = await runRateLimitChecks();
+expect(checks.filter((c) => !c.passed)).toEqual([]);
+
+// From the shell (takes ~10s: the failover loop really waits):
+//   $ rate-limit-fake-provider
+//   PASS  openclaw  /retry-after-seconds
+//   PASS  opencode  /retry-after-seconds
+//   PASS  openclaw  /retry-after-date
+//   ...
+//   PASS  opencode  /retry-after-empty
+//   15 passed, 0 failed
+*/
@@ -0,0 +1,288 @@
+/**
+ * Provider-Agnostic Rate-Limit Header Parsing
+ *
+ * Pattern: Turn every provider's rate-limit headers into one structured
+ * RateLimitInfo, so retry loops wait exactly as long as the provider asks
+ * instead of guessing from error text.
+ * Shared by auth_failover.ts (OpenClaw) and session_processor.ts (OpenCode).
+ *
+ * Key ideas:
+ * - Header styles covered:
+ *     retry-after            seconds or HTTP-date (RFC 9110)
+ *     retry-after-ms         milliseconds (OpenAI SDKs, Azure)
+ *     x-ratelimit-reset-*    OpenAI durations ("1s", "6m0s", "20ms")
+ *     x-ratelimit-reset      epoch seconds or delta seconds (GitHub-style, OpenRouter)
+ *     ratelimit-reset        delta seconds (IETF draft RateLimit fields)
+ *     anthropic-ratelimit-*  RFC 3339 reset timestamps per bucket
+ * - Per-bucket limit/remaining/reset is kept (requests vs tokens exhaust separately)
+ * - retryAfterMs is the wait the provider actually asked for: an explicit
+ *   retry-after wins; otherwise the latest reset among exhausted buckets
+ * - Headers are looked up on error.responseHeaders / error.headers /
+ *   error.response.headers and along the error.cause chain
+ * - Parsing never throws: unparseable values are ignored, not guessed
+ */
+
+// --- Types ---
+
+type HeaderBag =
+  | Headers
+  | Record<string, string | string[] | number | undefined | null>;
+
+type RateLimitSource =
+  | "retry-after"
+  | "retry-after-ms"
+  | "x-ratelimit"
+  | "ratelimit"
+  | "anthropic";
+
+export interface RateLimitBucket {
+  name: string; // "requests" | "tokens" | "input-tokens" | "output-tokens" | ...
+  limit?: number;
+  remaining?: number;
+  resetAt?: number; // epoch ms
+}
+
+export interface RateLimitInfo {
+  /** Exact wait requested by the provider, ms from `now`. */
+  retryAfterMs?: number;
+  /** Absolute time the wait ends (now + retryAfterMs). */
+  resetAt?: number;
+  buckets: RateLimitBucket[];
+  /** True when a bucket is at 0 remaining or the provider sent retry-after. */
+  exhausted: boolean;
+  sources: RateLimitSource[];
+}
+
+// --- Header normalization ---
+
+function normalizeHeaders(headers: HeaderBag): Map<string, string> {
+  const out = new Map<string, string>();
+  if (typeof (headers as Headers).forEach === "function" && typeof (headers as Headers).get === "function") {
+    (headers as Headers).forEach((value, key) => out.set(key.toLowerCase(), value));
+  } else {
+    for (const [key, value] of Object.entries(headers)) {
+      if (value === undefined || value === null) continue;
+      out.set(key.toLowerCase(), Array.isArray(value) ? value[0] ?? "" : String(value));
+    }
+  }
+  // An empty value ("retry-after: ") carries no instruction: treat it as absent,
+  // not as Number("") === 0
+  for (const [key, value] of out) if (value.trim() === "") out.delete(key);
+  return out;
+}
+
+// --- Value parsers ---
+
+/** OpenAI-style Go durations: "1s", "6m0s", "1h2m3.5s", "20ms". */
+function parseDurationMs(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.ceil(parseFloat(trimmed) * 1000);
+
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  const unitMs: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  let total = 0;
+  let consumed = 0;
+  for (const match of trimmed.matchAll(re)) {
+    total += parseFloat(match[1]) * unitMs[match[2]];
+    consumed += match[0].length;
+  }
+  return consumed > 0 && consumed === trimmed.length ? Math.ceil(total) : undefined;
+}
+
+/** retry-after: delta seconds or HTTP-date. */
+function parseRetryAfter(value: string, now: number): number | undefined {
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds * 1000));
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - now) : undefined;
+}
+
+/**
+ * Bare numeric reset values are ambiguous: GitHub sends epoch seconds,
+ * others send delta seconds. Anything past ~2001 in epoch seconds is
+ * treated as absolute.
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+function parseNumericReset(value: string, now: number): number | undefined {
+  const n = Number(value.trim());
+  if (!Number.isFinite(n)) return undefined;
+  return n >= EPOCH_SECONDS_THRESHOLD ? n * 1000 : now + Math.ceil(n * 1000);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// --- Bucket collection ---
+
+function upsertBucket(buckets: Map<string, RateLimitBucket>, name: string): RateLimitBucket {
+  let bucket = buckets.get(name);
+  if (!bucket) {
+    bucket = { name };
+    buckets.set(name, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Anthropic: anthropic-ratelimit-{bucket}-{limit|remaining|reset}, reset is RFC 3339.
+ * OpenAI:    x-ratelimit-{limit|remaining|reset}-{bucket}, reset is a duration.
+ */
+function collectBuckets(h: Map<string, string>, now: number, sources: Set<RateLimitSource>) {
+  const buckets = new Map<string, RateLimitBucket>();
+
+  for (const [key, value] of h) {
+    let match = /^anthropic-ratelimit-(.+)-(limit|remaining|reset)$/.exec(key);
+    if (match) {
+      sources.add("anthropic");
+      const bucket = upsertBucket(buckets, match[1]);
+      if (match[2] === "reset") {
+        const at = Date.parse(value);
+        if (Number.isFinite(at)) bucket.resetAt = at;
+      } else {
+        bucket[match[2] as "limit" | "remaining"] = parseNumber(value);
+      }
+      continue;
+    }
+
+    match = /^x-ratelimit-(limit|remaining|reset)-(.+)$/.exec(key);
+    if (match) {
+      sources.add("x-ratelimit");
+      const bucket = upsertBucket(buckets, match[2]);
+      if (match[1] === "reset") {
+        const ms = parseDurationMs(value);
+        if (ms !== undefined) bucket.resetAt = now + ms;
+      } else {
+        bucket[match[1] as "limit" | "remaining"] = parseNumber(value);
+      }
+      continue;
+    }
+
+    // Un-suffixed single-bucket forms (GitHub, OpenRouter, IETF draft)
+    match = /^(x-ratelimit|ratelimit)-(limit|remaining|reset)$/.exec(key);
+    if (match) {
+      sources.add(match[1] === "ratelimit" ? "ratelimit" : "x-ratelimit");
+      const bucket = upsertBucket(buckets, "default");
+      if (match[2] === "reset") {
+        const at = parseNumericReset(value, now);
+        if (at !== undefined) bucket.resetAt = at;
+      } else {
+        bucket[match[2] as "limit" | "remaining"] = parseNumber(value);
+      }
+    }
+  }
+
+  return [...buckets.values()];
+}
+
+// --- Public API ---
+
+/**
+ * Parse rate-limit headers. Returns undefined when none are present, so
+ * callers can fall back to their own backoff.
+ */
+export function parseRateLimitHeaders(
+  headers: HeaderBag | undefined,
+  now = Date.now(),
+): RateLimitInfo | undefined {
+  if (!headers) return undefined;
+  const h = normalizeHeaders(headers);
+  const sources = new Set<RateLimitSource>();
+
+  // 1. Explicit retry instruction wins over bucket arithmetic
+  let explicitMs: number | undefined;
+  const retryAfterMs = h.get("retry-after-ms");
+  if (retryAfterMs !== undefined && Number.isFinite(parseFloat(retryAfterMs))) {
+    explicitMs = Math.max(0, Math.ceil(parseFloat(retryAfterMs)));
+    sources.add("retry-after-ms");
+  } else if (h.has("retry-after")) {
+    explicitMs = parseRetryAfter(h.get("retry-after")!, now);
+    if (explicitMs !== undefined) sources.add("retry-after");
+  }
+
+  // 2. Per-bucket state
+  const buckets = collectBuckets(h, now, sources);
+  if (sources.size === 0) return undefined;
+
+  // 3. Without an explicit wait, wait for the slowest exhausted bucket
+  const exhaustedBuckets = buckets.filter((b) => b.remaining === 0);
+  let waitMs = explicitMs;
+  if (waitMs === undefined && exhaustedBuckets.length > 0) {
+    const latestReset = Math.max(...exhaustedBuckets.map((b) => b.resetAt ?? now));
+    waitMs = Math.max(0, latestReset - now);
+  }
+
+  return {
+    retryAfterMs: waitMs,
+    resetAt: waitMs !== undefined ? now + waitMs : undefined,
+    buckets,
+    exhausted: explicitMs !== undefined || exhaustedBuckets.length > 0,
+    sources: [...sources],
+  };
+}
+
+/**
+ * Find response headers on an SDK error. Providers wrap errors
+ * inconsistently, so walk error.cause (bounded) until headers turn up.
+ */
+export function extractResponseHeaders(error: unknown): HeaderBag | undefined {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const headers = current.responseHeaders ?? current.headers ?? current.response?.headers;
+    if (headers && typeof headers === "object") return headers;
+    current = current.cause;
+  }
+  return undefined;
+}
+
+/** HTTP status from an SDK error, walking the same cause chain. */
+export function extractStatusCode(error: unknown): number | undefined {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const status = current.status ?? current.statusCode ?? current.response?.status;
+    if (typeof status === "number") return status;
+    current = current.cause;
+  }
+  return undefined;
+}
+
+/** Convenience: status + headers → RateLimitInfo, or undefined if not a rate limit. */
+export function rateLimitInfoFromError(error: unknown, now = Date.now()): RateLimitInfo | undefined {
+  const info = parseRateLimitHeaders(extractResponseHeaders(error), now);
+  const status = extractStatusCode(error);
+  if (status === 429) {
+    return info ? { ...info, exhausted: true } : { buckets: [], exhausted: true, sources: [] };
+  }
+  return info?.exhausted ? info : undefined;
+}
+
+// --- Usage example ---
+
+/*
+parseRateLimitHeaders({ "retry-after": "7" });
+// { retryAfterMs: 7000, resetAt: now + 7000, exhausted: true, buckets: [], sources: ["retry-after"] }
+
+parseRateLimitHeaders({
+  "x-ratelimit-limit-requests": "500",
+  "x-ratelimit-remaining-requests": "0",
+  "x-ratelimit-reset-requests": "6m0s",
+  "x-ratelimit-remaining-tokens": "12000",
+  "x-ratelimit-reset-tokens": "1s",
+});
+// retryAfterMs: 360000 — only the exhausted "requests" bucket counts
+
+parseRateLimitHeaders({
+  "anthropic-ratelimit-input-tokens-remaining": "0",
+  "anthropic-ratelimit-input-tokens-reset": "2026-10-19T18:30:05Z",
+});
+// retryAfterMs: ms until 18:30:05Z, buckets: [{ name: "input-tokens", remaining: 0, resetAt }]
+
+parseRateLimitHeaders({ "retry-after": "" });
+// undefined — an empty value is absent, callers fall back to their own backoff
+
+// Both retry loops against a local fake provider serving every style above:
+// see rate_limit_fake_provider.ts (`rate-limit-fake-provider` exits 1 on failure)
+*/
@@ -10,6 +10,11 @@
  *   - Random silent token (configurable) — not hardcoded, prevents accidental triggers
  *   - Lazy parsing: only parse if trigger characters detected
  *   - Directives stripped before delivery — user sees clean text
+ *   - Streaming: an incremental parser strips directives from token deltas,
+ *     holding back only text that could still turn into a directive
+ *   - Directive registry: plugins add [[name:arg]] or PREFIX:arg line
+ *     directives with a typed payload parser and a delivery hook; unknown
+ *     ones follow a per-deployment policy (strip / pass_through / warn)
  */
 
 // ─── Types ─────────────────────────────────────────────────────────────────
@@ -21,36 +26,201 @@ interface ParsedDirectives {
   mediaUrls: string[];     // Attached media URLs
   isSilent: boolean;       // Suppress output entirely
   audioAsVoice: boolean;   // Send audio as voice message
+  directives: DirectiveValues;  // Registered custom directives, by name
+  unknownDirectives: string[];  // Unknown/invalid directives seen (any policy)
 }
 
+type DirectiveParseOptions = {
+  unknownDirectivePolicy?: UnknownDirectivePolicy;
+  warn?: (message: string) => void;
+};
+
 // ─── Constants ─────────────────────────────────────────────────────────────
 
 const REPLY_TO_CURRENT_TAG = "[[reply_to_current]]";
 const REPLY_TO_PREFIX = "[[reply_to:";
 const REPLY_TO_SUFFIX = "]]";
 const MEDIA_PREFIX = "MEDIA:";
+const VOICE_PREFIX = "VOICE:";
 
 // Default silent token — should be configurable per deployment
 const DEFAULT_SILENT_TOKEN = "<<SILENT>>";
 
+// ─── Directive Registry ────────────────────────────────────────────────────
+
+/**
+ * Payload type per custom directive name. Plugins extend it by declaration
+ * merging (see usage example), which types both `parse` and the
+ * `directives` map on the delivery payload.
+ */
+export interface DirectivePayloads {}
+
+type DirectiveName = keyof DirectivePayloads & string;
+type DirectiveValues = { [K in DirectiveName]?: DirectivePayloads[K] };
+
+/**
+ * What to do with [[name:arg]] that no directive claims, and with registered
+ * directives whose argument fails to parse:
+ *   strip        — remove silently
+ *   pass_through — leave in the text (default; pre-registry behavior)
+ *   warn         — remove and report through `warn`
+ */
+export type UnknownDirectivePolicy = "strip" | "pass_through" | "warn";
+
+export interface DirectiveDeliveryContext {
+  channel: string;
+  /** Messages the channel just sent for this reply (reactions target these). */
+  sentMessageIds: string[];
+  replyToId?: string;
+}
+
+export interface ReplyDirectiveDefinition<K extends DirectiveName = DirectiveName> {
+  name: K;
+  /** inline: [[name]] or [[name:arg]] anywhere; line: "<prefix>arg" on its own line. */
+  syntax: { kind: "inline" } | { kind: "line"; prefix: string };
+  /** Validate one occurrence and fold it into the value so far; undefined = invalid. */
+  parse(arg: string, previous: DirectivePayloads[K] | undefined): DirectivePayloads[K] | undefined;
+  /** Runs after the channel sent the reply text. */
+  deliver?(value: DirectivePayloads[K], ctx: DirectiveDeliveryContext): void | Promise<void>;
+}
+
+type AnyDirectiveDefinition = {
+  name: string;
+  syntax: ReplyDirectiveDefinition["syntax"];
+  parse(arg: string, previous: unknown): unknown;
+  deliver?(value: unknown, ctx: DirectiveDeliveryContext): void | Promise<void>;
+};
+
+const BUILT_IN_DIRECTIVE_NAMES = new Set(["reply_to", "reply_to_current"]);
+const BUILT_IN_LINE_PREFIXES = [MEDIA_PREFIX, VOICE_PREFIX];
+const DIRECTIVE_NAME_RE = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * A directive argument (reply_to id, media ref, ...) stays on one line and
+ * is bounded, so a stray "[[x:" can't make the streaming parser hold the
+ * rest of the reply. Batch and streaming parsers share the bound.
+ */
+const MAX_DIRECTIVE_ARG_CHARS = 256;
+const DIRECTIVE_ARG = `[^\\]\\n]{0,${MAX_DIRECTIVE_ARG_CHARS}}`;
+const INLINE_DIRECTIVE_RE = new RegExp(`\\[\\[([a-z][a-z0-9_-]*)(?::(${DIRECTIVE_ARG}))?\\]\\]`, "g");
+const REPLY_TO_ID_RE = new RegExp(`\\[\\[reply_to:([^\\]\\n]{1,${MAX_DIRECTIVE_ARG_CHARS}})\\]\\]`);
+
+/** Process-global, like the context engine registry: duplicated bundles share it. */
+const DIRECTIVE_REGISTRY_KEY = Symbol.for("app.replyDirectiveRegistry");
+
+function getDirectiveRegistry(): Map<string, AnyDirectiveDefinition> {
+  const g = globalThis as any;
+  if (!g[DIRECTIVE_REGISTRY_KEY]) g[DIRECTIVE_REGISTRY_KEY] = new Map();
+  return g[DIRECTIVE_REGISTRY_KEY];
+}
+
+function registeredLinePrefixes(): string[] {
+  return [...getDirectiveRegistry().values()].flatMap((d) => (d.syntax.kind === "line" ? [d.syntax.prefix] : []));
+}
+
+export function registerReplyDirective<K extends DirectiveName>(
+  definition: ReplyDirectiveDefinition<K>,
+): { ok: true } | { ok: false; reason: string } {
+  const registry = getDirectiveRegistry();
+  const { name, syntax } = definition;
+
+  if (!DIRECTIVE_NAME_RE.test(name)) return { ok: false, reason: `invalid directive name "${name}"` };
+  if (BUILT_IN_DIRECTIVE_NAMES.has(name) || registry.has(name)) {
+    return { ok: false, reason: `directive "${name}" already exists` };
+  }
+  if (syntax.kind === "line") {
+    // Prefixes must not shadow each other: "BTN:" vs "BTN:X:" would be ambiguous per line
+    if (!syntax.prefix || /\s/.test(syntax.prefix)) {
+      return { ok: false, reason: `invalid line prefix "${syntax.prefix}"` };
+    }
+    const clash = [...BUILT_IN_LINE_PREFIXES, ...registeredLinePrefixes()].find(
+      (p) => p.startsWith(syntax.prefix) || syntax.prefix.startsWith(p),
+    );
+    if (clash) return { ok: false, reason: `line prefix "${syntax.prefix}" overlaps "${clash}"` };
+  }
+
+  registry.set(name, definition as AnyDirectiveDefinition);
+  return { ok: true };
+}
+
+export function listReplyDirectives(): string[] {
+  return [...getDirectiveRegistry().keys()];
+}
+
+function getInlineDirective(name: string): AnyDirectiveDefinition | undefined {
+  const definition = getDirectiveRegistry().get(name);
+  return definition?.syntax.kind === "inline" ? definition : undefined;
+}
+
+function matchLineDirective(trimmed: string): { definition: AnyDirectiveDefinition; arg: string } | undefined {
+  for (const definition of getDirectiveRegistry().values()) {
+    if (definition.syntax.kind === "line" && trimmed.startsWith(definition.syntax.prefix)) {
+      return { definition, arg: trimmed.slice(definition.syntax.prefix.length).trim() };
+    }
+  }
+  return undefined;
+}
+
+/** Fold one occurrence into `values`; false when the payload is invalid. */
+function applyDirective(definition: AnyDirectiveDefinition, arg: string, values: DirectiveValues): boolean {
+  const bag = values as Record<string, unknown>;
+  const value = definition.parse(arg, bag[definition.name]);
+  if (value === undefined) return false;
+  bag[definition.name] = value;
+  return true;
+}
+
+/** Text to leave where an unknown/invalid directive was. */
+function handleUnknownDirective(raw: string, unknown: string[], options: DirectiveParseOptions): string {
+  unknown.push(raw);
+  const policy = options.unknownDirectivePolicy ?? "pass_through";
+  if (policy === "warn") (options.warn ?? console.warn)(`[directives] stripped unknown or invalid directive: ${raw}`);
+  return policy === "pass_through" ? raw : "";
+}
+
+/**
+ * Run delivery hooks for the directives present on a payload, after the
+ * channel sent the text. A failing hook doesn't stop the others.
+ */
+export async function deliverDirectives(
+  payload: DeliveryPayload,
+  ctx: DirectiveDeliveryContext,
+): Promise<Array<{ name: string; error: unknown }>> {
+  const failures: Array<{ name: string; error: unknown }> = [];
+  for (const [name, value] of Object.entries(payload.directives)) {
+    const definition = getDirectiveRegistry().get(name);
+    try {
+      await definition?.deliver?.(value, ctx);
+    } catch (error) {
+      failures.push({ name, error });
+    }
+  }
+  return failures;
+}
+
 // ─── Media Extraction ──────────────────────────────────────────────────────
 
 interface MediaSplit {
   text: string;
   mediaUrls: string[];
   audioAsVoice: boolean;
+  directives: DirectiveValues;
+  unknownDirectives: string[];
 }
 
 /**
  * Extract MEDIA: directives from text.
  * Format: MEDIA:<url> on its own line.
  * Audio files with VOICE: prefix are flagged for voice message delivery.
+ * Registered line directives (e.g. BUTTON:label|action) are extracted here too.
  */
-function splitMediaFromOutput(raw: string): MediaSplit {
+function splitMediaFromOutput(raw: string, options: DirectiveParseOptions = {}): MediaSplit {
   const lines = raw.split("\n");
   const textLines: string[] = [];
   const mediaUrls: string[] = [];
   let audioAsVoice = false;
+  const directives: DirectiveValues = {};
+  const unknownDirectives: string[] = [];
 
   for (const line of lines) {
     const trimmed = line.trim();
@@ -63,8 +233,8 @@ function splitMediaFromOutput(raw: string): MediaSplit {
       continue;
     }
 
-    if (trimmed.startsWith("VOICE:")) {
-      const url = trimmed.slice("VOICE:".length).trim();
+    if (trimmed.startsWith(VOICE_PREFIX)) {
+      const url = trimmed.slice(VOICE_PREFIX.length).trim();
       if (url) {
         mediaUrls.push(url);
         audioAsVoice = true;
@@ -72,6 +242,12 @@ function splitMediaFromOutput(raw: string): MediaSplit {
       continue;
     }
 
+    const lineDirective = matchLineDirective(trimmed);
+    if (lineDirective) {
+      if (applyDirective(lineDirective.definition, lineDirective.arg, directives)) continue;
+      if (!handleUnknownDirective(line, unknownDirectives, options)) continue;
+    }
+
     textLines.push(line);
   }
 
@@ -79,6 +255,8 @@ function splitMediaFromOutput(raw: string): MediaSplit {
     text: textLines.join("\n"),
     mediaUrls,
     audioAsVoice,
+    directives,
+    unknownDirectives,
   };
 }
 
@@ -109,9 +287,7 @@ function parseInlineDirectives(
   }
 
   // [[reply_to:<id>]] — reply to specific message
-  const replyToMatch = result.match(
-    /\[\[reply_to:([^\]]+)\]\]/,
-  );
+  const replyToMatch = result.match(REPLY_TO_ID_RE);
   if (replyToMatch) {
     result = result.replace(replyToMatch[0], "").trim();
     replyToId = replyToMatch[1];
@@ -121,6 +297,24 @@ function parseInlineDirectives(
   return { text: result, replyToId, replyToCurrent, hasReplyTag };
 }
 
+/**
+ * Registered [[name:arg]] directives. Runs after reply-to parsing; extra
+ * reply_to tags stay literal, as they always have.
+ */
+function parseCustomInlineDirectives(
+  text: string,
+  directives: DirectiveValues,
+  unknownDirectives: string[],
+  options: DirectiveParseOptions,
+): string {
+  return text.replace(INLINE_DIRECTIVE_RE, (raw, name: string, arg: string | undefined) => {
+    if (BUILT_IN_DIRECTIVE_NAMES.has(name)) return raw;
+    const definition = getInlineDirective(name);
+    if (definition && applyDirective(definition, arg ?? "", directives)) return "";
+    return handleUnknownDirective(raw, unknownDirectives, options);
+  });
+}
+
 // ─── Silent Reply Detection ────────────────────────────────────────────────
 
 function isSilentReplyText(text: string, silentToken: string): boolean {
@@ -142,7 +336,7 @@ export function parseReplyDirectives(
   options: {
     currentMessageId?: string;
     silentToken?: string;
-  } = {},
+  } & DirectiveParseOptions = {},
 ): ParsedDirectives {
   const silentToken = options.silentToken ?? DEFAULT_SILENT_TOKEN;
 
@@ -150,8 +344,9 @@ export function parseReplyDirectives(
   const hasTriggers =
     raw.includes("[[") ||
     raw.includes(MEDIA_PREFIX) ||
-    raw.includes("VOICE:") ||
-    raw.includes(silentToken);
+    raw.includes(VOICE_PREFIX) ||
+    raw.includes(silentToken) ||
+    registeredLinePrefixes().some((prefix) => raw.includes(prefix));
 
   if (!hasTriggers) {
     return {
@@ -160,18 +355,25 @@ export function parseReplyDirectives(
       mediaUrls: [],
       isSilent: false,
       audioAsVoice: false,
+      directives: {},
+      unknownDirectives: [],
     };
   }
 
   // Full parse
-  const mediaSplit = splitMediaFromOutput(raw);
+  const mediaSplit = splitMediaFromOutput(raw, options);
   let text = mediaSplit.text;
+  const { directives, unknownDirectives } = mediaSplit;
 
   const replyParsed = parseInlineDirectives(text, options.currentMessageId);
   if (replyParsed.hasReplyTag) {
     text = replyParsed.text;
   }
 
+  if (text.includes("[[")) {
+    text = parseCustomInlineDirectives(text, directives, unknownDirectives, options);
+  }
+
   const isSilent = isSilentReplyText(text, silentToken);
   if (isSilent) {
     text = "";
@@ -184,17 +386,20 @@ export function parseReplyDirectives(
     mediaUrls: mediaSplit.mediaUrls,
     isSilent,
     audioAsVoice: mediaSplit.audioAsVoice,
+    directives,
+    unknownDirectives,
   };
 }
 
 // ─── Delivery Normalization ────────────────────────────────────────────────
 
-interface DeliveryPayload {
+export interface DeliveryPayload {
   text: string;
   replyToId?: string;
   mediaUrls: string[];
   isSilent: boolean;
   audioAsVoice: boolean;
+  directives: DirectiveValues;
 }
 
 /**
@@ -210,7 +415,7 @@ export function normalizeForDelivery(
     currentMessageId?: string;
     silentToken?: string;
     trimLeadingWhitespace?: boolean;
-  } = {},
+  } & DirectiveParseOptions = {},
 ): DeliveryPayload {
   const parsed = parseReplyDirectives(rawText, options);
 
@@ -225,6 +430,275 @@ export function normalizeForDelivery(
     mediaUrls: parsed.mediaUrls,
     isSilent: parsed.isSilent,
     audioAsVoice: parsed.audioAsVoice,
+    directives: parsed.directives,
+  };
+}
+
+// ─── Streaming Parser ──────────────────────────────────────────────────────
+
+type DirectiveStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "reply_to"; replyToId?: string; replyToCurrent: boolean }
+  | { type: "media"; url: string; asVoice: boolean }
+  | { type: "directive"; name: string; value: unknown } // value so far; typed in payload.directives
+  | { type: "done"; payload: DeliveryPayload };
+
+interface DirectiveStream {
+  /** Feed a text delta; returns events resolved by it, in stream order. */
+  push(delta: string): DirectiveStreamEvent[];
+  /** End of turn: flushes held text and ends with `done`. */
+  finish(): DirectiveStreamEvent[];
+}
+
+/**
+ * "[", "[[", "[[na", "[[name:ar", "[[name:arg]" — could still close as a
+ * directive. A newline or an over-long argument releases the held text.
+ */
+const TAG_PARTIAL_RE = new RegExp(`^\\[(?:\\[(?:[a-z][a-z0-9_-]*(?::${DIRECTIVE_ARG})?\\]?)?)?$`);
+const TAG_FULL_RE = new RegExp(`^\\[\\[([a-z][a-z0-9_-]*)(?::(${DIRECTIVE_ARG}))?\\]\\]$`);
+
+/**
+ * Incremental parseReplyDirectives for streamed replies.
+ *
+ * Three stages, mirroring the batch parser's order:
+ *   1. Lines — a line is held while its trimmed start could still be
+ *      "MEDIA:"/"VOICE:" or a registered line prefix; directive lines are
+ *      dropped with their separator
+ *   2. Tags — text from "[[" is held while it could still become the first
+ *      [[reply_to_current]] / [[reply_to:<id>]], a registered inline
+ *      directive, or (unless the policy is pass_through) any [[name:arg]]
+ *   3. Output — leading whitespace is dropped, trailing whitespace is held
+ *      (the batch parser trims), and text is held while it could still be
+ *      exactly the silent token
+ *
+ * The `done` payload is normalizeForDelivery() over the accumulated raw
+ * text, so it matches the batch result exactly; streamed chunks concatenate
+ * to payload.text for well-formed directives (leading whitespace that the
+ * trigger-free fast path would keep is never streamed).
+ */
+export function createDirectiveStream(
+  options: {
+    currentMessageId?: string;
+    silentToken?: string;
+    trimLeadingWhitespace?: boolean;
+  } & DirectiveParseOptions = {},
+): DirectiveStream {
+  const silentToken = options.silentToken ?? DEFAULT_SILENT_TOKEN;
+  const policy = options.unknownDirectivePolicy ?? "pass_through";
+  const linePrefixes = [...BUILT_IN_LINE_PREFIXES, ...registeredLinePrefixes()];
+  const inlineNames = listReplyDirectives().filter((name) => getInlineDirective(name));
+  const directives: DirectiveValues = {};
+  const unknownDirectives: string[] = [];
+  let raw = "";
+  let events: DirectiveStreamEvent[] = [];
+  let chunk = "";
+
+  // Stage 1: lines
+  let line = "";
+  let lineKind: "pending" | "text" | "directive" = "pending";
+  let keptLines = 0;
+
+  // Stage 2: inline tags
+  let tag = "";
+  let replyToCurrent = false;
+  let explicitReplyToId: string | undefined;
+
+  // Stage 3: output
+  let started = false;
+  let silentHeld = "";
+  let silentPossible = silentToken.length > 0;
+  let trailingWs = "";
+
+  const flushChunk = () => {
+    if (chunk) events.push({ type: "text", text: chunk });
+    chunk = "";
+  };
+  const emit = (event: DirectiveStreamEvent) => {
+    flushChunk();
+    events.push(event);
+  };
+
+  // --- Stage 3 ---
+  const output = (text: string) => {
+    if (!started) {
+      text = text.replace(/^\s+/, "");
+      if (!text) return;
+      started = true;
+    }
+    if (silentPossible) {
+      silentHeld += text;
+      if (silentToken.startsWith(silentHeld.trimEnd())) return;
+      silentPossible = false;
+      text = silentHeld;
+      silentHeld = "";
+    }
+    const ws = /\s+$/.exec(text)?.[0] ?? "";
+    const body = text.slice(0, text.length - ws.length);
+    if (body) {
+      chunk += trailingWs + body;
+      trailingWs = "";
+    }
+    trailingWs += ws;
+  };
+
+  // --- Stage 2 ---
+  const canHoldTag = (candidate: string): boolean => {
+    if (!TAG_PARTIAL_RE.test(candidate)) return false;
+    if (policy !== "pass_through") return true; // any [[name]] may get stripped
+    const name = /^\[\[?([a-z0-9_-]*)/.exec(candidate)![1]!;
+    const nameComplete = candidate.length > 2 + name.length;
+    const claimable = [
+      ...(replyToCurrent ? [] : ["reply_to_current"]),
+      ...(explicitReplyToId === undefined ? ["reply_to"] : []),
+      ...inlineNames,
+    ];
+    return claimable.some((n) => (nameComplete ? n === name : n.startsWith(name)));
+  };
+
+  const emitReplyTo = () =>
+    emit({
+      type: "reply_to",
+      replyToId: explicitReplyToId ?? (replyToCurrent ? options.currentMessageId : undefined),
+      replyToCurrent,
+    });
+
+  const emitDirective = (name: string) =>
+    emit({ type: "directive", name, value: (directives as Record<string, unknown>)[name] });
+
+  /** A complete [[name(:arg)]] — same decisions as the batch parser. */
+  const resolveTag = (held: string) => {
+    const [, name, arg] = TAG_FULL_RE.exec(held)!;
+    if (held === REPLY_TO_CURRENT_TAG && !replyToCurrent) {
+      replyToCurrent = true;
+      emitReplyTo();
+    } else if (name === "reply_to" && arg && explicitReplyToId === undefined) {
+      explicitReplyToId = arg;
+      emitReplyTo();
+    } else if (BUILT_IN_DIRECTIVE_NAMES.has(name!)) {
+      output(held); // extra reply tags stay literal
+    } else {
+      const definition = getInlineDirective(name!);
+      if (definition && applyDirective(definition, arg ?? "", directives)) emitDirective(name!);
+      else output(handleUnknownDirective(held, unknownDirectives, options));
+    }
+  };
+
+  const inline = (text: string) => {
+    for (const ch of text) {
+      if (!tag) {
+        if (ch === "[" && canHoldTag(ch)) tag = ch;
+        else output(ch);
+        continue;
+      }
+      tag += ch;
+      if (TAG_FULL_RE.test(tag)) {
+        const held = tag;
+        tag = "";
+        resolveTag(held);
+      } else if (!canHoldTag(tag)) {
+        releaseTag();
+      }
+    }
+  };
+
+  /** Not a directive after all: emit its first char, re-scan the rest. */
+  const releaseTag = () => {
+    const held = tag;
+    tag = "";
+    output(held[0]!);
+    inline(held.slice(1));
+  };
+
+  // --- Stage 1 ---
+  const isDirectiveLine = (trimmed: string) => linePrefixes.some((p) => trimmed.startsWith(p));
+  const couldBeDirectiveLine = (trimmed: string) => linePrefixes.some((p) => p.startsWith(trimmed));
+
+  const keepLine = () => {
+    inline((keptLines > 0 ? "\n" : "") + line);
+    keptLines++;
+    lineKind = "text";
+    line = "";
+  };
+
+  /** Media lines and registered line directives; false = keep as text. */
+  const resolveDirectiveLine = (trimmed: string): boolean => {
+    if (trimmed.startsWith(MEDIA_PREFIX) || trimmed.startsWith(VOICE_PREFIX)) {
+      const isVoice = trimmed.startsWith(VOICE_PREFIX);
+      const url = trimmed.slice((isVoice ? VOICE_PREFIX : MEDIA_PREFIX).length).trim();
+      if (url) emit({ type: "media", url, asVoice: isVoice });
+      return true;
+    }
+    const lineDirective = matchLineDirective(trimmed);
+    if (!lineDirective) return false;
+    if (applyDirective(lineDirective.definition, lineDirective.arg, directives)) {
+      emitDirective(lineDirective.definition.name);
+      return true;
+    }
+    return !handleUnknownDirective(line, unknownDirectives, options);
+  };
+
+  const endLine = () => {
+    if (lineKind === "pending" || lineKind === "directive") {
+      const trimmed = line.trim();
+      if (isDirectiveLine(trimmed) && resolveDirectiveLine(trimmed)) line = "";
+      else keepLine();
+    }
+    lineKind = "pending";
+  };
+
+  const feed = (text: string) => {
+    for (const ch of text) {
+      if (ch === "\n") {
+        endLine();
+      } else if (lineKind === "text") {
+        inline(ch);
+      } else {
+        line += ch;
+        if (lineKind === "pending") {
+          const trimmed = line.trimStart();
+          if (isDirectiveLine(trimmed)) lineKind = "directive";
+          else if (!couldBeDirectiveLine(trimmed)) keepLine();
+        }
+      }
+    }
+  };
+
+  const drain = () => {
+    flushChunk();
+    const out = events;
+    events = [];
+    return out;
+  };
+
+  return {
+    push(delta) {
+      raw += delta;
+      feed(delta);
+      return drain();
+    },
+
+    finish() {
+      endLine();
+      while (tag) releaseTag();
+
+      // The stream already reported unknown directives
+      const payload = normalizeForDelivery(raw, { ...options, warn: () => {} });
+      if (!payload.isSilent) {
+        if (silentHeld) {
+          // Was a prefix of the silent token, never the whole of it
+          const held = silentHeld;
+          silentHeld = "";
+          silentPossible = false;
+          output(held);
+        }
+        // Trigger-free replies take the batch fast path, which does not trim
+        if (payload.text.endsWith(trailingWs) && payload.text.length > 0) chunk += trailingWs;
+      }
+      silentHeld = "";
+      trailingWs = "";
+      emit({ type: "done", payload });
+      return drain();
+    },
   };
 }
 
@@ -265,4 +739,54 @@ const delivery = normalizeForDelivery(agentOutput, {
   trimLeadingWhitespace: true,
 });
 // Channel adapter receives clean text + routing metadata
+
+// Streaming: directives never reach the user, even mid-turn
+const stream = createDirectiveStream({ currentMessageId: "msg_abc123" });
+for await (const delta of llmTextDeltas) {
+  for (const event of stream.push(delta)) {
+    if (event.type === "text") await channel.appendDraft(event.text);
+    if (event.type === "reply_to") channel.setReplyTarget(event.replyToId);
+    if (event.type === "media") channel.queueAttachment(event.url, { voice: event.asVoice });
+  }
+}
+const done = stream.finish().at(-1); // { type: "done", payload } — same as normalizeForDelivery(raw)
+// push("[[reply_")      → []                       (could still be a tag)
+// push("to_current]]Hi") → [reply_to, text "Hi"]
+// push("\nMEDIA:https://") → []                     (line held until it ends)
+
+// Plugin directives — declare payload types, then register:
+declare module "./response_directives" {
+  interface DirectivePayloads {
+    react: string[];                                  // [[react:👍]]
+    thread: "new";                                    // [[thread:new]]
+    button: Array<{ label: string; action: string }>; // BUTTON:Approve|approve_pr
+  }
+}
+registerReplyDirective({
+  name: "react",
+  syntax: { kind: "inline" },
+  parse: (arg, previous = []) => (arg ? [...previous, arg] : undefined),
+  deliver: (emojis, ctx) => channels[ctx.channel].react(ctx.sentMessageIds[0], emojis),
+});
+registerReplyDirective({
+  name: "thread",
+  syntax: { kind: "inline" },
+  parse: (arg) => (arg === "new" ? "new" : undefined), // [[thread:old]] → unknown policy
+});
+registerReplyDirective({
+  name: "button",
+  syntax: { kind: "line", prefix: "BUTTON:" },
+  parse: (arg, previous = []) => {
+    const [label, action] = arg.split("|").map((s) => s.trim());
+    return label && action ? [...previous, { label, action }] : undefined;
+  },
+});
+
+const payload = normalizeForDelivery("Merged! [[react:🎉]]\nBUTTON:Deploy|deploy_main\n[[wiki]]", {
+  unknownDirectivePolicy: "warn", // [[wiki]] stripped + "[directives] stripped unknown ..." warning
+});
+// payload.text === "Merged!"
+// payload.directives === { button: [{ label: "Deploy", action: "deploy_main" }], react: ["🎉"] }
+const sent = await channel.send(payload);
+await deliverDirectives(payload, { channel: "telegram", sentMessageIds: [sent.id] });
 */
@@ -0,0 +1,214 @@
+/**
+ * Run-Level Budget Enforcement (Tokens, Cost, Wall Time, Tool Calls)
+ *
+ * Pattern: One RunBudgetTracker per run, charged as usage happens and checked
+ * at every safe stopping point, so a run that hits its limit ends with what
+ * it has instead of an error or a runaway bill.
+ * From: OpenClaw src/agents/pi-embedded-runner/run.ts (usage accounting),
+ *       src/agents/usage.ts (model cost table)
+ *
+ * Key ideas:
+ *   - Limits are optional and independent: input tokens, output tokens, USD
+ *     cost, wall time, tool calls — the first one crossed stops the run
+ *   - Cost comes from a local price table (model id → USD per 1M tokens),
+ *     first-match-wins like the tokenizer family table; unknown models are
+ *     reported once and charged nothing rather than guessed
+ *   - check() returns a machine-readable BudgetExhaustion ({ limit, used,
+ *     max, runId }) — callers decide how to wind down, the tracker never throws
+ *   - Subagents get a child tracker: every charge also lands on each ancestor,
+ *     and a child is exhausted when it or any ancestor is, so a fan-out of
+ *     subagents can't spend past the parent's limit
+ *   - Wall time is measured per tracker from its own start
+ */
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+export interface RunBudget {
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxCostUsd?: number;
+  maxWallTimeMs?: number;
+  maxToolCalls?: number;
+}
+
+export type BudgetLimit = "input_tokens" | "output_tokens" | "cost_usd" | "wall_time_ms" | "tool_calls";
+
+export interface BudgetExhaustion {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  /** Run whose budget ran out — this run, or an ancestor it draws from. */
+  runId: string;
+}
+
+export interface BudgetSpend {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  toolCalls: number;
+}
+
+/** Structurally the TokenUsage the agent loops already carry. */
+export interface BudgetUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+/** USD per 1M tokens. Cache rates default to the input rate. */
+export interface ModelPrice {
+  inputPer1M: number;
+  outputPer1M: number;
+  cacheReadPer1M?: number;
+  cacheWritePer1M?: number;
+}
+
+// ─── Price table ───────────────────────────────────────────────────────────
+
+/** First match wins, so list more specific prefixes first. */
+const MODEL_PRICES: Array<{ match: RegExp; price: ModelPrice }> = [
+  { match: /^claude-opus-4-[5-9]/i, price: { inputPer1M: 5, outputPer1M: 25, cacheReadPer1M: 0.5, cacheWritePer1M: 6.25 } },
+  { match: /^claude-opus-4/i, price: { inputPer1M: 15, outputPer1M: 75, cacheReadPer1M: 1.5, cacheWritePer1M: 18.75 } },
+  { match: /^(claude-sonnet-4|claude-3-7-sonnet|claude-3-5-sonnet)/i, price: { inputPer1M: 3, outputPer1M: 15, cacheReadPer1M: 0.3, cacheWritePer1M: 3.75 } },
+  { match: /^claude-haiku-4/i, price: { inputPer1M: 1, outputPer1M: 5, cacheReadPer1M: 0.1, cacheWritePer1M: 1.25 } },
+  { match: /^claude-3-5-haiku/i, price: { inputPer1M: 0.8, outputPer1M: 4, cacheReadPer1M: 0.08, cacheWritePer1M: 1 } },
+  { match: /^gpt-4\.1-mini/i, price: { inputPer1M: 0.4, outputPer1M: 1.6, cacheReadPer1M: 0.1 } },
+  { match: /^gpt-4\.1/i, price: { inputPer1M: 2, outputPer1M: 8, cacheReadPer1M: 0.5 } },
+  { match: /^gpt-4o-mini/i, price: { inputPer1M: 0.15, outputPer1M: 0.6, cacheReadPer1M: 0.075 } },
+  { match: /^gpt-4o/i, price: { inputPer1M: 2.5, outputPer1M: 10, cacheReadPer1M: 1.25 } },
+  { match: /^o4-mini/i, price: { inputPer1M: 1.1, outputPer1M: 4.4, cacheReadPer1M: 0.275 } },
+  { match: /^o3/i, price: { inputPer1M: 2, outputPer1M: 8, cacheReadPer1M: 0.5 } },
+  { match: /^gemini-2\.5-pro/i, price: { inputPer1M: 1.25, outputPer1M: 10, cacheReadPer1M: 0.31 } },
+  { match: /^gemini-2\.5-flash/i, price: { inputPer1M: 0.3, outputPer1M: 2.5, cacheReadPer1M: 0.075 } },
+];
+
+export function resolveModelPrice(modelId: string): ModelPrice | undefined {
+  const id = modelId.trim().split("/").pop() ?? modelId; // "anthropic/claude-..." → "claude-..."
+  return MODEL_PRICES.find((entry) => entry.match.test(id))?.price;
+}
+
+function costOf(price: ModelPrice, usage: BudgetUsage): number {
+  return (
+    usage.inputTokens * price.inputPer1M +
+    usage.outputTokens * price.outputPer1M +
+    (usage.cacheReadTokens ?? 0) * (price.cacheReadPer1M ?? price.inputPer1M) +
+    (usage.cacheWriteTokens ?? 0) * (price.cacheWritePer1M ?? price.inputPer1M)
+  ) / 1_000_000;
+}
+
+/** USD for one call; undefined when the model isn't priced and no override is given. */
+export function estimateCostUsd(modelId: string, usage: BudgetUsage, override?: ModelPrice): number | undefined {
+  const price = override ?? resolveModelPrice(modelId);
+  return price ? costOf(price, usage) : undefined;
+}
+
+// ─── Tracker ───────────────────────────────────────────────────────────────
+
+export class RunBudgetTracker {
+  readonly spent: BudgetSpend = { inputTokens: 0, outputTokens: 0, costUsd: 0, toolCalls: 0 };
+  private readonly startedAt: number;
+  private readonly unpriced = new Set<string>();
+
+  constructor(
+    readonly runId: string,
+    readonly limits: RunBudget,
+    private readonly opts: {
+      parent?: RunBudgetTracker;
+      now?: () => number;
+      warn?: (message: string) => void;
+    } = {},
+  ) {
+    this.startedAt = this.now();
+  }
+
+  private now(): number {
+    return (this.opts.now ?? Date.now)();
+  }
+
+  /** This tracker and every ancestor, nearest first. */
+  private chain(): RunBudgetTracker[] {
+    const out: RunBudgetTracker[] = [];
+    for (let t: RunBudgetTracker | undefined = this; t; t = t.opts.parent) out.push(t);
+    return out;
+  }
+
+  /** Charge one model call here and on every ancestor. Returns its USD cost. */
+  recordUsage(modelId: string, usage: BudgetUsage, priceOverride?: ModelPrice): number {
+    const cost = estimateCostUsd(modelId, usage, priceOverride);
+    if (cost === undefined && !this.unpriced.has(modelId)) {
+      this.unpriced.add(modelId);
+      (this.opts.warn ?? console.warn)(`run budget: no price for model "${modelId}"; its cost is not counted`);
+    }
+    for (const t of this.chain()) {
+      t.spent.inputTokens += usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+      t.spent.outputTokens += usage.outputTokens;
+      t.spent.costUsd += cost ?? 0;
+    }
+    return cost ?? 0;
+  }
+
+  recordToolCall(count = 1): void {
+    for (const t of this.chain()) t.spent.toolCalls += count;
+  }
+
+  /** First exhausted limit — this run's own, then each ancestor's — or undefined. */
+  check(): BudgetExhaustion | undefined {
+    for (const t of this.chain()) {
+      const exhausted = t.checkOwn();
+      if (exhausted) return exhausted;
+    }
+    return undefined;
+  }
+
+  private checkOwn(): BudgetExhaustion | undefined {
+    const { limits, spent } = this;
+    const probes: Array<[BudgetLimit, number, number | undefined]> = [
+      ["input_tokens", spent.inputTokens, limits.maxInputTokens],
+      ["output_tokens", spent.outputTokens, limits.maxOutputTokens],
+      ["cost_usd", spent.costUsd, limits.maxCostUsd],
+      ["wall_time_ms", this.now() - this.startedAt, limits.maxWallTimeMs],
+      ["tool_calls", spent.toolCalls, limits.maxToolCalls],
+    ];
+    for (const [limit, used, max] of probes) {
+      if (max !== undefined && used >= max) return { limit, used, max, runId: this.runId };
+    }
+    return undefined;
+  }
+
+  /**
+   * Budget for a subagent. Its own limits are optional extra caps; whatever
+   * it spends is also charged to this run and every run above it.
+   */
+  child(runId: string, limits: RunBudget = {}): RunBudgetTracker {
+    return new RunBudgetTracker(runId, limits, { parent: this, now: this.opts.now, warn: this.opts.warn });
+  }
+}
+
+/** "cost_usd 1.02 of 1.00 (run main)" — for logs and the partial-result note. */
+export function formatBudgetExhaustion(e: BudgetExhaustion): string {
+  const fmt = (n: number) => (e.limit === "cost_usd" ? n.toFixed(2) : String(Math.round(n)));
+  return `${e.limit} ${fmt(e.used)} of ${fmt(e.max)} (run ${e.runId})`;
+}
+
+// ─── Usage Example ─────────────────────────────────────────────────────────
+
+/*
+const budget = new RunBudgetTracker("run-42", {
+  maxCostUsd: 2.0,
+  maxWallTimeMs: 10 * 60_000,
+  maxToolCalls: 200,
+});
+
+const result = await runAgentWithRetry({ ...params, budget });
+if (result.budgetExhausted) {
+  // { limit: "tool_calls", used: 200, max: 200, runId: "run-42" }
+  // result.payloads[0] = { text: "<what the agent had so far>\n\n[Stopped early: run budget exhausted — tool_calls 200 of 200 (run run-42)]", isPartial: true }
+}
+
+// Subagent spawned by run-42 draws from the same pool, with its own tighter cap:
+const childBudget = budget.child("run-42/sub-1", { maxCostUsd: 0.5 });
+childBudget.recordUsage("claude-sonnet-4-6", { inputTokens: 120_000, outputTokens: 4_000 });
+// childBudget.spent.costUsd === budget.spent.costUsd === 0.42
+// Child stops at $0.50 of its own, or whenever run-42 reaches $2.00 overall.
+*/
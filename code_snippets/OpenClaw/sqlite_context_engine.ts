@@ -0,0 +1,565 @@
+/**
+ * SQLite Reference Context Engine
+ *
+ * Pattern: A complete, dependency-free ContextEngine backed by one local
+ * SQLite file — the default plugins are compared against and the engine
+ * integration tests run on.
+ * Implements the interface from context_engine.ts; registered under CORE_OWNER.
+ *
+ * Key ideas:
+ * - node:sqlite (DatabaseSync): synchronous, no native addon, WAL mode so the
+ *   gateway and CLI can read while a run writes
+ * - Messages are append-only rows keyed by (session_id, seq); compaction never
+ *   deletes, it marks rows `compacted` and inserts a summary row covering them
+ * - assemble = latest summary + newest live messages that fit tokenBudget
+ *   (walks backwards, so recency wins when the budget is tight); runtime
+ *   messages not ingested yet are appended after the stored rows
+ * - compact folds everything older than the newest KEEP_RECENT_SHARE of the
+ *   budget; with force: false it is a no-op below the budget (idempotent)
+ * - Only newly folded messages are summarized; the previous summary is carried
+ *   forward verbatim and the whole is capped at SUMMARY_MAX_SHARE of the
+ *   budget (oldest part dropped), in compact and again in assemble
+ * - maintain asks the runtime to rewrite compacted entries in the transcript
+ *   (TranscriptRewriteRequest) — the engine never touches the session file
+ * - Subagents get their own session rows seeded with the parent's summary;
+ *   rollback and "deleted"/"swept" endings remove them
+ * - The summarizer is injected; the default is extractive (no LLM) so tests
+ *   and offline runs stay deterministic
+ * - Every compaction summary is audited for identifier preservation
+ *   (compaction_algorithm.ts auditWithReprompt) and the audit is returned on
+ *   CompactResult.result.audit; an injected summarizer is re-prompted once
+ */
+
+import fs from "node:fs";
+import { DatabaseSync } from "node:sqlite";
+import {
+  CORE_OWNER,
+  registerContextEngineForOwner,
+  type AgentMessage,
+  type AssembleResult,
+  type BootstrapResult,
+  type CompactResult,
+  type ContextEngine,
+  type ContextEngineInfo,
+  type ContextEngineRuntimeContext,
+  type IngestBatchResult,
+  type IngestResult,
+  type RegistrationResult,
+  type SubagentEndReason,
+  type SubagentSpawnPreparation,
+  type TranscriptRewriteResult,
+} from "./context_engine";
+import { auditWithReprompt } from "./compaction_algorithm";
+import { auditSummary, type IdentifierAuditOptions, type SummaryAudit } from "./summary_audit";
+import { countMessageTokens, resolveTokenizer, type Tokenizer } from "./tokenizer";
+
+// --- Types ---
+
+export type SqliteContextEngineOptions = {
+  /** Database file; ":memory:" for tests. */
+  dbPath: string;
+  /**
+   * Used when compact() needs an LLM summary. Defaults to extractive.
+   * `instructions` lists identifiers a previous attempt dropped.
+   */
+  summarize?: (messages: AgentMessage[], instructions?: string) => Promise<string>;
+  /** Identifier audit of each summary. Default: re-prompt once, none for extractive. */
+  audit?: IdentifierAuditOptions & { maxReprompts?: number };
+  /** Model id for token counting (tokenizer.ts); chars/4 when unknown. */
+  model?: string;
+};
+
+type MessageRow = {
+  seq: number;
+  entry_id: string | null;
+  body: string;
+  tokens: number;
+};
+
+type SummaryRow = { id: number; through_seq: number; summary: string; tokens: number };
+
+// --- Constants ---
+
+const ENGINE_ID = "sqlite";
+const ENGINE_VERSION = "1.0.0";
+const KEEP_RECENT_SHARE = 0.5; // compact keeps the newest 50% of the budget verbatim
+const SUMMARY_MAX_SHARE = 0.25; // the summary never takes more than 25% of a budget
+const DEFAULT_TOKEN_BUDGET = 100_000;
+const EXTRACTIVE_LINE_CHARS = 160;
+const SUMMARY_HEADER = "## Conversation summary\n";
+const SUMMARY_TRUNCATED = "[earlier summary truncated]\n";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    session_id     TEXT PRIMARY KEY,
+    session_file   TEXT,
+    parent_id      TEXT,
+    created_at     INTEGER NOT NULL,
+    expires_at     INTEGER,
+    ended_reason   TEXT
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    session_id  TEXT NOT NULL,
+    seq         INTEGER NOT NULL,
+    entry_id    TEXT,
+    role        TEXT NOT NULL,
+    body        TEXT NOT NULL,            -- JSON-encoded AgentMessage
+    tokens      INTEGER NOT NULL,
+    compacted   INTEGER NOT NULL DEFAULT 0,
+    rewritten   INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (session_id, seq)
+  );
+  CREATE TABLE IF NOT EXISTS summaries (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id   TEXT NOT NULL,
+    through_seq  INTEGER NOT NULL,
+    summary      TEXT NOT NULL,
+    tokens       INTEGER NOT NULL,
+    created_at   INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS summaries_by_session ON summaries (session_id, id);
+`;
+
+// --- Helpers ---
+
+function messageText(message: AgentMessage): string {
+  const content = message.content;
+  if (typeof content === "string") return content;
+  return JSON.stringify(content ?? "");
+}
+
+/** One line per message, first EXTRACTIVE_LINE_CHARS chars. Deterministic. */
+async function extractiveSummary(messages: AgentMessage[]): Promise<string> {
+  const lines = messages.map((m) => {
+    const text = messageText(m).replace(/\s+/g, " ").trim();
+    return `- ${String(m.role ?? "unknown")}: ${text.slice(0, EXTRACTIVE_LINE_CHARS)}`;
+  });
+  return [`Earlier conversation (${messages.length} messages):`, ...lines].join("\n");
+}
+
+/**
+ * Newest part of a summary that fits maxTokens, cut at a line boundary where
+ * possible. Each compaction appends to the summary, so the tail is the most
+ * recent history. "" when not even the truncation marker fits.
+ */
+function summaryTail(summary: string, maxTokens: number, tokenizer: Tokenizer): string {
+  if (tokenizer.countTokens(summary) <= maxTokens) return summary;
+  // Longest suffix that fits; token counts grow with the suffix length
+  let lo = 0;
+  let hi = summary.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (tokenizer.countTokens(SUMMARY_TRUNCATED + summary.slice(-mid)) <= maxTokens) lo = mid;
+    else hi = mid - 1;
+  }
+  if (lo === 0) return "";
+  const tail = summary.slice(-lo);
+  const lineStart = tail.indexOf("\n") + 1;
+  return SUMMARY_TRUNCATED + (lineStart > 0 && lineStart < tail.length ? tail.slice(lineStart) : tail);
+}
+
+// --- Engine ---
+
+export class SqliteContextEngine implements ContextEngine {
+  readonly info: ContextEngineInfo = {
+    id: ENGINE_ID,
+    name: "SQLite reference engine",
+    version: ENGINE_VERSION,
+    ownsCompaction: true,
+  };
+
+  private readonly db: DatabaseSync;
+  private readonly summarize: (messages: AgentMessage[], instructions?: string) => Promise<string>;
+  private readonly auditOptions: IdentifierAuditOptions & { maxReprompts?: number };
+  private readonly tokenizer: Tokenizer;
+
+  constructor(opts: SqliteContextEngineOptions) {
+    this.db = new DatabaseSync(opts.dbPath);
+    this.db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;");
+    this.db.exec(SCHEMA);
+    this.summarize = opts.summarize ?? extractiveSummary;
+    // Extractive output ignores instructions: re-prompting it can't help
+    this.auditOptions = opts.audit ?? (opts.summarize ? {} : { maxReprompts: 0 });
+    this.tokenizer = resolveTokenizer(opts.model);
+  }
+
+  // --- Lifecycle ---
+
+  /** Import an existing JSONL transcript once; later calls are no-ops. */
+  async bootstrap(params: { sessionId: string; sessionFile: string }): Promise<BootstrapResult> {
+    this.ensureSession(params.sessionId, params.sessionFile);
+    if (this.countMessages(params.sessionId) > 0) {
+      return { bootstrapped: false, reason: "already bootstrapped" };
+    }
+    if (!fs.existsSync(params.sessionFile)) {
+      return { bootstrapped: true, importedMessages: 0, reason: "no transcript" };
+    }
+
+    const messages: AgentMessage[] = [];
+    for (const line of fs.readFileSync(params.sessionFile, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        // Session entries wrap the message; bare messages are accepted too
+        const message = entry?.message ?? entry;
+        if (message?.role) messages.push({ ...message, entryId: entry.id ?? message.entryId });
+      } catch {
+        // Skip torn trailing line from a crashed writer
+      }
+    }
+    const { ingestedCount } = await this.ingestBatch({ sessionId: params.sessionId, messages });
+    return { bootstrapped: true, importedMessages: ingestedCount };
+  }
+
+  async ingest(params: { sessionId: string; message: AgentMessage; isHeartbeat?: boolean }): Promise<IngestResult> {
+    // Heartbeats are liveness pings, not conversation — keep them out of context
+    if (params.isHeartbeat) return { ingested: false };
+    this.ensureSession(params.sessionId);
+    this.insertMessage(params.sessionId, params.message);
+    return { ingested: true };
+  }
+
+  async ingestBatch(params: {
+    sessionId: string;
+    messages: AgentMessage[];
+    isHeartbeat?: boolean;
+  }): Promise<IngestBatchResult> {
+    if (params.isHeartbeat || params.messages.length === 0) return { ingestedCount: 0 };
+    this.ensureSession(params.sessionId);
+    this.transaction(() => {
+      for (const message of params.messages) this.insertMessage(params.sessionId, message);
+    });
+    return { ingestedCount: params.messages.length };
+  }
+
+  async assemble(params: {
+    sessionId: string;
+    messages: AgentMessage[];
+    tokenBudget?: number;
+    model?: string;
+    prompt?: string;
+  }): Promise<AssembleResult> {
+    const budget = params.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    const tokenizer = params.model ? resolveTokenizer(params.model) : this.tokenizer;
+
+    // Capped for the compaction budget; a smaller budget here gets the newest
+    // part, so estimatedTokens never exceeds tokenBudget
+    const summary = this.latestSummary(params.sessionId);
+    const summaryText = summary
+      ? summaryTail(
+          summary.summary,
+          Math.floor(budget * SUMMARY_MAX_SHARE) - tokenizer.countTokens(SUMMARY_HEADER),
+          tokenizer,
+        )
+      : "";
+    const systemPromptAddition = summaryText ? SUMMARY_HEADER + summaryText : undefined;
+    const summaryTokens = systemPromptAddition ? tokenizer.countTokens(systemPromptAddition) : 0;
+
+    // Stored rows first, then any runtime messages not ingested yet (the
+    // current turn before afterTurn, or everything when the engine was added
+    // mid-session / the subagent was freshly seeded)
+    const stored = (this.db
+      .prepare("SELECT seq, entry_id, body, tokens FROM messages WHERE session_id = ? AND compacted = 0 ORDER BY seq")
+      .all(params.sessionId) as unknown as MessageRow[])
+      .map((r) => ({ message: JSON.parse(r.body) as AgentMessage, tokens: r.tokens }));
+    const pending = this.unstoredMessages(params.sessionId, params.messages).map((m) => ({
+      message: m,
+      tokens: countMessageTokens({ role: String(m.role), content: messageText(m) }, tokenizer),
+    }));
+    const candidates = [...stored, ...pending];
+
+    const fitted = this.fitToBudget(candidates, Math.max(0, budget - summaryTokens), (c) => c.tokens);
+
+    const messages = fitted.messages.map((c) => c.message);
+    if (!systemPromptAddition) return { ...fitted, messages };
+    return { messages, estimatedTokens: fitted.estimatedTokens + summaryTokens, systemPromptAddition };
+  }
+
+  async compact(params: {
+    sessionId: string;
+    sessionFile: string;
+    tokenBudget?: number;
+    force?: boolean;
+    currentTokenCount?: number;
+    compactionTarget?: "budget" | "threshold";
+    runtimeContext?: ContextEngineRuntimeContext;
+  }): Promise<CompactResult> {
+    const budget = params.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+    const rows = this.db
+      .prepare("SELECT seq, entry_id, body, tokens FROM messages WHERE session_id = ? AND compacted = 0 ORDER BY seq")
+      .all(params.sessionId) as unknown as MessageRow[];
+    const previous = this.latestSummary(params.sessionId);
+    const tokensBefore = rows.reduce((sum, r) => sum + r.tokens, 0) + (previous?.tokens ?? 0);
+
+    if (!params.force && tokensBefore <= budget) {
+      return { ok: true, compacted: false, reason: "within budget" };
+    }
+
+    // Keep the newest rows that fit in KEEP_RECENT_SHARE of the budget
+    const keepBudget = Math.floor(budget * KEEP_RECENT_SHARE);
+    let kept = 0;
+    let splitIndex = rows.length;
+    while (splitIndex > 0 && kept + rows[splitIndex - 1].tokens <= keepBudget) {
+      kept += rows[--splitIndex].tokens;
+    }
+    const toFold = rows.slice(0, splitIndex);
+    if (toFold.length === 0) return { ok: true, compacted: false, reason: "nothing to fold" };
+
+    // Only the newly folded messages are summarized. The previous summary is
+    // carried forward verbatim (summarizing it again would shrink it on every
+    // compaction), so there is always exactly one live summary
+    const foldMessages = toFold.map((r) => JSON.parse(r.body) as AgentMessage);
+    const source = foldMessages.map(messageText).join("\n");
+    let folded: string;
+    let audit: SummaryAudit;
+    try {
+      ({ summary: folded, audit } = await auditWithReprompt({
+        source,
+        summarize: (instructions) => this.summarize(foldMessages, instructions),
+        audit: this.auditOptions,
+      }));
+    } catch (err) {
+      return { ok: false, compacted: false, reason: `summarize failed: ${String(err)}` };
+    }
+
+    // Past SUMMARY_MAX_SHARE of the budget the oldest part is dropped
+    const combined = previous ? `${previous.summary}\n\n${folded}` : folded;
+    const summary = summaryTail(combined, Math.floor(budget * SUMMARY_MAX_SHARE), this.tokenizer);
+    if (!summary.endsWith(folded)) {
+      // The cap cut into the new part: audit what is actually stored
+      audit = auditSummary({ source, summary, options: this.auditOptions, attempts: audit.attempts });
+    }
+
+    const throughSeq = toFold[toFold.length - 1].seq;
+    const summaryTokens = countMessageTokens({ role: "summary", content: summary }, this.tokenizer);
+    this.transaction(() => {
+      this.db
+        .prepare("UPDATE messages SET compacted = 1 WHERE session_id = ? AND seq <= ?")
+        .run(params.sessionId, throughSeq);
+      this.db
+        .prepare("INSERT INTO summaries (session_id, through_seq, summary, tokens, created_at) VALUES (?, ?, ?, ?, ?)")
+        .run(params.sessionId, throughSeq, summary, summaryTokens, Date.now());
+    });
+
+    return {
+      ok: true,
+      compacted: true,
+      result: {
+        summary,
+        firstKeptEntryId: rows[splitIndex]?.entry_id ?? undefined,
+        tokensBefore,
+        tokensAfter: kept + summaryTokens,
+        audit,
+        details: { foldedMessages: toFold.length, throughSeq },
+      },
+    };
+  }
+
+  /**
+   * Replace compacted transcript entries with a pointer to the summary.
+   * The runtime owns the file; we only say which entries and with what.
+   */
+  async maintain(params: {
+    sessionId: string;
+    sessionFile: string;
+    runtimeContext?: ContextEngineRuntimeContext;
+  }): Promise<TranscriptRewriteResult> {
+    const rewrite = params.runtimeContext?.rewriteTranscriptEntries;
+    if (!rewrite) return { changed: false, bytesFreed: 0, rewrittenEntries: 0, reason: "no rewrite callback" };
+
+    const rows = this.db
+      .prepare(
+        "SELECT seq, entry_id, body, tokens FROM messages " +
+          "WHERE session_id = ? AND compacted = 1 AND rewritten = 0 AND entry_id IS NOT NULL ORDER BY seq",
+      )
+      .all(params.sessionId) as unknown as MessageRow[];
+    if (rows.length === 0) return { changed: false, bytesFreed: 0, rewrittenEntries: 0, reason: "nothing to rewrite" };
+
+    const result = await rewrite({
+      replacements: rows.map((r) => {
+        const original = JSON.parse(r.body) as AgentMessage;
+        return {
+          entryId: r.entry_id!,
+          message: { ...original, content: `[compacted into summary; seq ${r.seq}]` },
+        };
+      }),
+    });
+
+    if (result.changed) {
+      const mark = this.db.prepare("UPDATE messages SET rewritten = 1 WHERE session_id = ? AND seq = ?");
+      this.transaction(() => rows.forEach((r) => mark.run(params.sessionId, r.seq)));
+    }
+    return result;
+  }
+
+  // --- Subagents ---
+
+  async prepareSubagentSpawn(params: {
+    parentSessionKey: string;
+    childSessionKey: string;
+    ttlMs?: number;
+  }): Promise<SubagentSpawnPreparation | undefined> {
+    const { parentSessionKey, childSessionKey } = params;
+    const expiresAt = params.ttlMs ? Date.now() + params.ttlMs : null;
+    this.db
+      .prepare("INSERT OR IGNORE INTO sessions (session_id, parent_id, created_at, expires_at) VALUES (?, ?, ?, ?)")
+      .run(childSessionKey, parentSessionKey, Date.now(), expiresAt);
+
+    // Seed the child with the parent's summary, not its full history
+    const parentSummary = this.latestSummary(parentSessionKey);
+    if (parentSummary) {
+      this.db
+        .prepare("INSERT INTO summaries (session_id, through_seq, summary, tokens, created_at) VALUES (?, 0, ?, ?, ?)")
+        .run(childSessionKey, parentSummary.summary, parentSummary.tokens, Date.now());
+    }
+
+    return { rollback: () => this.deleteSession(childSessionKey) };
+  }
+
+  async onSubagentEnded(params: { childSessionKey: string; reason: SubagentEndReason }): Promise<void> {
+    if (params.reason === "deleted" || params.reason === "swept") {
+      this.deleteSession(params.childSessionKey);
+      return;
+    }
+    // completed/released: keep rows for announce + audit, record why it ended
+    this.db
+      .prepare("UPDATE sessions SET ended_reason = ? WHERE session_id = ?")
+      .run(params.reason, params.childSessionKey);
+  }
+
+  async dispose(): Promise<void> {
+    if (this.db.isOpen) this.db.close();
+  }
+
+  // --- Storage helpers ---
+
+  private ensureSession(sessionId: string, sessionFile?: string): void {
+    this.db
+      .prepare(
+        "INSERT INTO sessions (session_id, session_file, created_at) VALUES (?, ?, ?) " +
+          "ON CONFLICT (session_id) DO UPDATE SET session_file = COALESCE(excluded.session_file, session_file)",
+      )
+      .run(sessionId, sessionFile ?? null, Date.now());
+  }
+
+  private insertMessage(sessionId: string, message: AgentMessage): void {
+    const role = String(message.role ?? "unknown");
+    const tokens = countMessageTokens({ role, content: messageText(message) }, this.tokenizer);
+    const entryId = typeof message.entryId === "string" ? message.entryId : null;
+    this.db
+      .prepare(
+        "INSERT INTO messages (session_id, seq, entry_id, role, body, tokens) " +
+          "VALUES (?, (SELECT COALESCE(MAX(seq), 0) + 1 FROM messages WHERE session_id = ?), ?, ?, ?, ?)",
+      )
+      .run(sessionId, sessionId, entryId, role, JSON.stringify(message), tokens);
+  }
+
+  /**
+   * Runtime messages with no stored row. Matched by entryId when present,
+   * otherwise by serialized body — counted, so a repeated "ok" is still new.
+   */
+  private unstoredMessages(sessionId: string, messages: AgentMessage[]): AgentMessage[] {
+    if (messages.length === 0) return [];
+    const rows = this.db
+      .prepare("SELECT entry_id, body FROM messages WHERE session_id = ?")
+      .all(sessionId) as unknown as Pick<MessageRow, "entry_id" | "body">[];
+    const entryIds = new Set(rows.map((r) => r.entry_id).filter((id): id is string => id !== null));
+    const bodies = new Map<string, number>();
+    for (const r of rows) bodies.set(r.body, (bodies.get(r.body) ?? 0) + 1);
+
+    return messages.filter((m) => {
+      if (typeof m.entryId === "string") return !entryIds.has(m.entryId);
+      const body = JSON.stringify(m);
+      const remaining = bodies.get(body) ?? 0;
+      if (remaining === 0) return true;
+      bodies.set(body, remaining - 1);
+      return false;
+    });
+  }
+
+  private countMessages(sessionId: string): number {
+    const row = this.db.prepare("SELECT COUNT(*) AS n FROM messages WHERE session_id = ?").get(sessionId);
+    return Number(row?.n ?? 0);
+  }
+
+  private latestSummary(sessionId: string): SummaryRow | undefined {
+    return this.db
+      .prepare("SELECT id, through_seq, summary, tokens FROM summaries WHERE session_id = ? ORDER BY id DESC LIMIT 1")
+      .get(sessionId) as unknown as SummaryRow | undefined;
+  }
+
+  private deleteSession(sessionId: string): void {
+    this.transaction(() => {
+      for (const table of ["messages", "summaries", "sessions"]) {
+        this.db.prepare(`DELETE FROM ${table} WHERE session_id = ?`).run(sessionId);
+      }
+    });
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /** Newest-first walk: keep the most recent messages that fit. */
+  private fitToBudget<T>(messages: T[], budget: number, tokensOf: (m: T) => number) {
+    const kept: T[] = [];
+    let total = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const tokens = tokensOf(messages[i]);
+      if (total + tokens > budget) break;
+      kept.unshift(messages[i]);
+      total += tokens;
+    }
+    return { messages: kept, estimatedTokens: total };
+  }
+}
+
+// --- Registration ---
+
+/**
+ * Register the reference engine as a core engine. Called by gateway startup
+ * with the configured db path — the only call site; the engine is not
+ * registered on import. Same-owner refresh lets config reloads swap the db
+ * path without a restart.
+ */
+export function registerSqliteContextEngine(opts: SqliteContextEngineOptions): RegistrationResult {
+  return registerContextEngineForOwner(ENGINE_ID, () => new SqliteContextEngine(opts), CORE_OWNER, {
+    allowSameOwnerRefresh: true,
+    version: ENGINE_VERSION,
+  });
+}
+
+// --- Usage Example ---
+
+/*
+registerSqliteContextEngine({ dbPath: "/data/context.sqlite", model: "claude-sonnet-4-5" });
+
+// config.plugins.slots.contextEngine = "sqlite"
+const engine = await resolveContextEngine(config);
+await engine.bootstrap?.({ sessionId, sessionFile }); // imports existing JSONL once
+
+await engine.ingestBatch?.({ sessionId, messages: turnMessages });
+const { messages, systemPromptAddition } = await engine.assemble({
+  sessionId, messages: turnMessages, tokenBudget: 150_000,
+});
+
+// Conformance (context_engine_conformance.ts) against the registered engine:
+registerSqliteContextEngine({ dbPath: ":memory:" });
+const report = await runContextEngineConformance("sqlite", getContextEngineFactory("sqlite")!);
+// report.passed === true; every check passes, none skipped
+
+// Integration tests: in-memory db, deterministic extractive summaries
+const testEngine = new SqliteContextEngine({ dbPath: ":memory:" });
+await testEngine.compact({ sessionId: "s1", sessionFile: "/tmp/s1.jsonl", tokenBudget: 1_000, force: true });
+await testEngine.compact({ sessionId: "s1", sessionFile: "/tmp/s1.jsonl", tokenBudget: 1_000 });
+// second call → { ok: true, compacted: false, reason: "within budget" }
+// first call's result.audit: { checked, preserved, missing, passed, attempts: 1, ... }
+await testEngine.dispose();
+*/
@@ -0,0 +1,362 @@
+/**
+ * Structure-Aware Tool Result Truncation
+ *
+ * Pattern: Sniff what a tool result is (JSON, unified diff, stack trace, log)
+ * and cut it along its structure instead of at an arbitrary character offset.
+ * Shared by context_overflow_recovery.ts (truncateToolResultText, OpenClaw)
+ * and tool_system.ts (truncateOutput, OpenCode); both fall back to their
+ * plain head/tail cut when this returns null.
+ *
+ * Key ideas:
+ * - JSON is parsed and pruned by depth, array length, key count and string
+ *   length along a ladder of limits until it fits — the result still parses,
+ *   and every omission is an in-band string marker ("… 120 more items")
+ * - Logs keep error/warning lines with surrounding context, plus the first
+ *   and last lines; the oldest matches are dropped first when over budget
+ * - Unified diffs keep file headers, hunk headers and changed lines; context
+ *   lines go first, then changed lines per hunk are capped
+ * - Stack traces keep every message line ("Error: …", "Caused by: …") and the
+ *   first and last frames of each run — where it was thrown and how it got there
+ * - Every truncator returns null when it can't parse the input or can't fit
+ *   the budget, so callers always have a working fallback
+ */
+
+// --- Types ---
+
+export type ContentKind = "json" | "diff" | "stack_trace" | "log" | "text";
+
+export type StructuredTruncation = { text: string; kind: ContentKind };
+
+type JsonLimits = { depth: number; items: number; keys: number; stringChars: number };
+
+// --- Constants ---
+
+/** Tried in order; the first serialization that fits wins. */
+const JSON_LIMIT_LADDER: JsonLimits[] = [
+  { depth: 8, items: 50, keys: 100, stringChars: 2_000 },
+  { depth: 6, items: 20, keys: 50, stringChars: 500 },
+  { depth: 4, items: 10, keys: 25, stringChars: 200 },
+  { depth: 3, items: 5, keys: 15, stringChars: 100 },
+  { depth: 2, items: 3, keys: 10, stringChars: 60 },
+  { depth: 1, items: 3, keys: 5, stringChars: 40 },
+];
+
+const SNIFF_LINES = 200;
+const LOG_HEAD_LINES = 5;
+const LOG_TAIL_LINES = 10;
+const LOG_CONTEXT_LADDER = [3, 1, 0];
+const DIFF_CHANGED_LINES_LADDER = [Infinity, 40, 10, 0];
+const STACK_FRAMES_LADDER = [8, 4, 2, 1];
+
+const LOG_LINE_RE =
+  /^(\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|\[?\d{2}:\d{2}:\d{2}|\[?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\b|\w{3} [ \d]\d \d{2}:\d{2}:\d{2})/i;
+const LOG_IMPORTANT_RE = /\b(error|err|warn|warning|fatal|panic|exception|fail(ed|ure)?|critical|traceback)\b/i;
+
+const JS_FRAME_RE = /^\s+at\s+\S/;                  // Node, Java, C#
+const PY_FRAME_RE = /^\s*File ".+", line \d+/;     // Python
+const GO_FRAME_RE = /^\s+\S+\.go:\d+/;              // Go (file line of a frame pair)
+
+// --- Sniffing ---
+
+function isJson(text: string): boolean {
+  const trimmed = text.trim();
+  return (trimmed.startsWith("{") || trimmed.startsWith("[")) && tryParseJson(trimmed) !== undefined;
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** "--- a/x" directly followed by "+++ b/x" — either line alone is just a changed line. */
+function isFileHeaderPair(lines: string[], i: number): boolean {
+  return lines[i]?.startsWith("--- ") === true && lines[i + 1]?.startsWith("+++ ") === true;
+}
+
+function isDiff(lines: string[]): boolean {
+  const head = lines.slice(0, SNIFF_LINES);
+  if (head.some((l) => l.startsWith("diff --git "))) return true;
+  return head.some((_, i) => isFileHeaderPair(head, i) && head[i + 2]?.startsWith("@@ "));
+}
+
+function isFrameLine(line: string): boolean {
+  return JS_FRAME_RE.test(line) || PY_FRAME_RE.test(line) || GO_FRAME_RE.test(line);
+}
+
+function isStackTrace(lines: string[]): boolean {
+  const nonEmpty = lines.filter((l) => l.trim());
+  const frames = nonEmpty.filter(isFrameLine).length;
+  // Python frames are two lines (File … / source), so a third is enough there
+  return frames >= 3 && frames / nonEmpty.length >= 0.3;
+}
+
+function isLog(lines: string[]): boolean {
+  const head = lines.slice(0, SNIFF_LINES).filter((l) => l.trim());
+  return head.length >= 5 && head.filter((l) => LOG_LINE_RE.test(l)).length / head.length >= 0.5;
+}
+
+/** Order matters: a JSON log line isn't a log, a diff of a log file isn't a log. */
+export function sniffContentKind(text: string): ContentKind {
+  if (isJson(text)) return "json";
+  const lines = text.split("\n");
+  if (isDiff(lines)) return "diff";
+  if (isStackTrace(lines)) return "stack_trace";
+  if (isLog(lines)) return "log";
+  return "text";
+}
+
+// --- Shared line rendering ---
+
+/**
+ * Render kept lines, collapsing each dropped run into one marker line.
+ * A lone dropped line is kept instead — the marker would be no shorter.
+ */
+function renderKept(lines: string[], keep: boolean[], what = "lines"): string {
+  const out: string[] = [];
+  let runStart = -1;
+  const flush = (end: number) => {
+    if (runStart === -1) return;
+    if (end - runStart === 1) out.push(lines[runStart]!);
+    else out.push(`[... ${end - runStart} ${what} omitted ...]`);
+    runStart = -1;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    if (keep[i]) {
+      flush(i);
+      out.push(lines[i]!);
+    } else if (runStart === -1) {
+      runStart = i;
+    }
+  }
+  flush(lines.length);
+  return out.join("\n");
+}
+
+// --- JSON ---
+
+function pruneJson(value: unknown, limits: JsonLimits, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > limits.stringChars
+      ? `${value.slice(0, limits.stringChars)}… (${value.length} chars)`
+      : value;
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  if (Array.isArray(value)) {
+    if (depth >= limits.depth) return `[… ${value.length} items]`;
+    const kept = value.slice(0, limits.items).map((v) => pruneJson(v, limits, depth + 1));
+    if (value.length > limits.items) kept.push(`… ${value.length - limits.items} more items`);
+    return kept;
+  }
+
+  const entries = Object.entries(value);
+  if (depth >= limits.depth) return `{… ${entries.length} keys}`;
+  const pruned: Record<string, unknown> = {};
+  for (const [key, v] of entries.slice(0, limits.keys)) pruned[key] = pruneJson(v, limits, depth + 1);
+  if (entries.length > limits.keys) pruned["…"] = `${entries.length - limits.keys} more keys`;
+  return pruned;
+}
+
+/** Pruned JSON that still parses, or null if no rung of the ladder fits. */
+export function truncateJson(text: string, maxChars: number): string | null {
+  const parsed = tryParseJson(text.trim());
+  if (parsed === undefined) return null;
+  // Keep the original layout: pretty-printed input stays pretty-printed
+  const indent = /^[{[]\s*\n/.test(text.trim()) ? 2 : undefined;
+
+  for (const limits of JSON_LIMIT_LADDER) {
+    const candidate = JSON.stringify(pruneJson(parsed, limits), null, indent);
+    if (candidate.length <= maxChars) return candidate;
+  }
+  return null;
+}
+
+// --- Logs ---
+
+export function truncateLog(text: string, maxChars: number): string | null {
+  const lines = text.split("\n");
+  const important = lines.flatMap((l, i) => (LOG_IMPORTANT_RE.test(l) ? [i] : []));
+
+  const render = (context: number, skip: number) => {
+    const keep = lines.map((_, i) => i < LOG_HEAD_LINES || i >= lines.length - LOG_TAIL_LINES);
+    for (const idx of important.slice(skip)) {
+      for (let i = Math.max(0, idx - context); i <= Math.min(lines.length - 1, idx + context); i++) keep[i] = true;
+    }
+    return renderKept(lines, keep);
+  };
+
+  // Shrink context before dropping any match
+  for (const context of LOG_CONTEXT_LADDER) {
+    const rendered = render(context, 0);
+    if (rendered.length <= maxChars) return rendered;
+  }
+
+  // Then drop the oldest matches — the latest errors explain the result.
+  // Length shrinks as `skip` grows, so binary-search the smallest skip that fits.
+  let lo = 1;
+  let hi = important.length;
+  let best: string | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const rendered = render(0, mid);
+    if (rendered.length <= maxChars) {
+      best = rendered;
+      hi = mid - 1;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return best;
+}
+
+// --- Unified diffs ---
+
+function isDiffHeader(line: string): boolean {
+  return /^(diff --git |index |new file mode|deleted file mode|similarity index|rename (from|to) |old mode|new mode|Binary files )/.test(line);
+}
+
+const HUNK_HEADER_RE = /^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/;
+
+/** Old/new line counts announced by a hunk header; an omitted count is 1. */
+function hunkLineCounts(line: string): { old: number; new: number } | undefined {
+  const m = HUNK_HEADER_RE.exec(line);
+  return m ? { old: m[1] === undefined ? 1 : Number(m[1]), new: m[2] === undefined ? 1 : Number(m[2]) } : undefined;
+}
+
+/**
+ * Context lines are dropped silently (one note at the end) — a marker per
+ * gap would cost more than the lines; capped changed lines get a marker per hunk.
+ * Inside a hunk, lines are counted against the header's old/new counts, so a
+ * removed "-- comment" line is never mistaken for a "--- a/file" header.
+ */
+export function truncateDiff(text: string, maxChars: number): string | null {
+  const lines = text.split("\n");
+
+  for (const maxChanged of DIFF_CHANGED_LINES_LADDER) {
+    const out: string[] = [];
+    let changedInHunk = 0;
+    let contextDropped = 0;
+    const closeHunk = () => {
+      if (changedInHunk > maxChanged) out.push(`[... ${changedInHunk - maxChanged} more changed lines in hunk ...]`);
+      changedInHunk = 0;
+    };
+    let oldLeft = 0;
+    let newLeft = 0;
+    lines.forEach((line, i) => {
+      if (oldLeft > 0 || newLeft > 0) {
+        if (line.startsWith("-") || line.startsWith("+")) {
+          if (line.startsWith("-")) oldLeft--;
+          else newLeft--;
+          if (changedInHunk++ < maxChanged) out.push(line);
+          return;
+        }
+        if (line === "" || line.startsWith(" ")) {
+          // Context line; editors that strip trailing whitespace leave blank ones as ""
+          oldLeft--;
+          newLeft--;
+          if (line.trim()) contextDropped++;
+          return;
+        }
+        if (line.startsWith("\\")) {
+          contextDropped++; // "\ No newline at end of file"
+          return;
+        }
+        // The header's counts were wrong: parse this line as if the hunk had ended
+        oldLeft = newLeft = 0;
+      }
+      const counts = hunkLineCounts(line);
+      if (counts || line.startsWith("@@") || isDiffHeader(line) || isFileHeaderPair(lines, i) || isFileHeaderPair(lines, i - 1)) {
+        closeHunk();
+        out.push(line);
+        oldLeft = counts?.old ?? 0;
+        newLeft = counts?.new ?? 0;
+      } else if (line.startsWith("+") || line.startsWith("-")) {
+        if (changedInHunk++ < maxChanged) out.push(line);
+      } else if (line.trim()) {
+        contextDropped++;
+      }
+    });
+    closeHunk();
+    if (contextDropped > 0) out.push(`[${contextDropped} unchanged context lines omitted]`);
+    const rendered = out.join("\n");
+    if (rendered.length <= maxChars) return rendered;
+  }
+  return null;
+}
+
+// --- Stack traces ---
+
+/** Python frames are a `File "…", line N` line plus its indented source line. */
+function frameMask(lines: string[]): boolean[] {
+  const mask = lines.map(isFrameLine);
+  for (let i = 1; i < lines.length; i++) {
+    if (!mask[i] && PY_FRAME_RE.test(lines[i - 1]!) && /^\s{4,}\S/.test(lines[i]!)) mask[i] = true;
+  }
+  return mask;
+}
+
+export function truncateStackTrace(text: string, maxChars: number): string | null {
+  const lines = text.split("\n");
+  const isFrame = frameMask(lines);
+
+  for (const keepFrames of STACK_FRAMES_LADDER) {
+    const keep = lines.map((_, i) => !isFrame[i]); // message lines always stay
+    // Each contiguous run of frames keeps its first and last `keepFrames` lines
+    for (let start = 0; start < lines.length; start++) {
+      if (!isFrame[start]) continue;
+      let end = start;
+      while (end + 1 < lines.length && isFrame[end + 1]) end++;
+      for (let i = start; i <= end; i++) {
+        keep[i] = i < start + keepFrames || i > end - keepFrames;
+      }
+      start = end;
+    }
+    const rendered = renderKept(lines, keep, "frame lines");
+    if (rendered.length <= maxChars) return rendered;
+  }
+  return null;
+}
+
+// --- Dispatch ---
+
+const TRUNCATORS: Record<Exclude<ContentKind, "text">, (text: string, maxChars: number) => string | null> = {
+  json: truncateJson,
+  diff: truncateDiff,
+  stack_trace: truncateStackTrace,
+  log: truncateLog,
+};
+
+/**
+ * Truncate along the content's structure. Returns null for plain text, for
+ * input that doesn't parse as its sniffed kind, and when the structured
+ * result can't fit — callers then use their plain head/tail cut.
+ */
+export function truncateStructured(text: string, maxChars: number): StructuredTruncation | null {
+  if (text.length <= maxChars) return null;
+  const kind = sniffContentKind(text);
+  if (kind === "text") return null;
+  const truncated = TRUNCATORS[kind](text, maxChars);
+  return truncated === null ? null : { text: truncated, kind };
+}
+
+// --- Usage example ---
+
+/*
+const result = truncateStructured(toolOutput, 20_000);
+if (result) return result.text;               // kind: "json" | "diff" | "stack_trace" | "log"
+return headTailTruncate(toolOutput, 20_000);  // plain text or nothing fit
+
+// JSON stays valid:
+truncateJson(JSON.stringify({ items: Array.from({ length: 500 }, (_, i) => ({ id: i })) }), 200);
+// {"items":[{"id":0},{"id":1},…,{"id":9},"… 490 more items"]} — the items: 10 rung is the first that fits
+
+// Stack trace keeps both ends of each frame run:
+// Error: connect ECONNREFUSED 127.0.0.1:5432
+//     at TCPConnectWrap.afterConnect [as oncomplete] (node:net:1555:16)
+// [... 46 frame lines omitted ...]
+//     at async main (/app/src/index.ts:12:3)
+// Caused by: ...
+*/
@@ -0,0 +1,188 @@
+/**
+ * Summary Identifier Audit
+ *
+ * Pattern: Verify that a compaction summary actually kept the opaque
+ * identifiers the prompt told it to keep, instead of trusting the model.
+ * Used by compaction_algorithm.ts (summarizeWithAudit); the resulting
+ * SummaryAudit rides on context_engine.ts CompactResult.
+ *
+ * Key ideas:
+ * - Identifiers are pulled from the source chunk by configurable regex
+ *   families: UUIDs, URLs, commit SHAs, file paths, ticket keys
+ * - Families run in order and mask what they matched, so a UUID isn't also
+ *   counted as five hex "SHAs" and a URL path isn't also a file path
+ * - Preservation is a verbatim substring check — shortened SHAs and
+ *   reconstructed paths count as lost, matching IDENTIFIER_PRESERVATION_INSTRUCTIONS
+ * - The audit is data (SummaryAudit), not an exception: callers decide
+ *   whether to re-prompt, accept, or log
+ */
+
+// --- Types ---
+
+export type IdentifierPattern = {
+  family: string; // "uuid" | "url" | "sha" | "path" | "ticket" | custom
+  pattern: RegExp; // must be global (/g)
+};
+
+export type MissingIdentifier = { family: string; value: string };
+
+export type SummaryAudit = {
+  /** Distinct identifiers found in the source. */
+  checked: number;
+  preserved: number;
+  missing: MissingIdentifier[];
+  byFamily: Record<string, { found: number; preserved: number }>;
+  /** preserved / checked; 1 when the source had nothing to check. */
+  preservationRate: number;
+  passed: boolean;
+  /** Summarization calls made, including the first. */
+  attempts: number;
+  reprompted: boolean;
+};
+
+export type IdentifierAuditOptions = {
+  /** Replaces the defaults entirely (order matters, see masking). */
+  families?: IdentifierPattern[];
+  /**
+   * Run before the defaults (or `families`), e.g. internal order IDs — so a
+   * custom shape that also looks like a ticket key is counted as custom.
+   */
+  extraFamilies?: IdentifierPattern[];
+  /** Pass threshold, default 1 (every identifier kept). */
+  minPreservationRate?: number;
+  /** Values to skip, e.g. "/tmp/..." scratch paths. */
+  ignore?: (id: MissingIdentifier) => boolean;
+};
+
+// --- Default families ---
+
+/** Standards and algorithm names shaped like ticket keys: UTF-8, SHA-256, ISO-8601, RFC-9110. */
+const NON_TICKET_PREFIXES = [
+  "UTF", "UCS", "SHA\\d?", "MD", "ISO", "IEC", "RFC", "ECMA", "IEEE", "AES", "RSA", "CRC", "TLS", "HTTP", "PEP", "CVE",
+];
+
+/** Ordered: earlier families mask their matches from later ones. */
+export const DEFAULT_IDENTIFIER_FAMILIES: IdentifierPattern[] = [
+  { family: "uuid", pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi },
+  { family: "url", pattern: /\bhttps?:\/\/[^\s<>"'`)\]]+/g },
+  // 7-40 hex chars with at least one digit and one letter (skips plain numbers and words like "defaced")
+  { family: "sha", pattern: /\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,40}\b/g },
+  // Unix paths with 2+ segments or a file extension; Windows drive paths
+  {
+    family: "path",
+    pattern: /(?:~|\.{1,2})?(?:\/[\w.@-]+){2,}\/?|\b[\w.-]+(?:\/[\w.@-]+)+\.\w{1,8}\b|\b[A-Za-z]:\\[\w\\.-]+/g,
+  },
+  // Jira-style PROJ-123, minus NON_TICKET_PREFIXES and prefixes of longer ids (CVE-2024-1234)
+  {
+    family: "ticket",
+    pattern: new RegExp(`\\b(?!(?:${NON_TICKET_PREFIXES.join("|")})-)[A-Z][A-Z0-9]{1,9}-\\d+\\b(?!-\\d)`, "g"),
+  },
+];
+
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+
+// --- Extraction ---
+
+/** Distinct identifiers in first-seen order, tagged with their family. */
+export function extractIdentifiers(
+  text: string,
+  families: IdentifierPattern[] = DEFAULT_IDENTIFIER_FAMILIES,
+): MissingIdentifier[] {
+  const seen = new Set<string>();
+  const found: MissingIdentifier[] = [];
+  let masked = text;
+
+  for (const { family, pattern } of families) {
+    const spans: Array<[number, number]> = [];
+    for (const match of masked.matchAll(pattern)) {
+      const value = match[0].replace(TRAILING_PUNCTUATION, "");
+      spans.push([match.index!, match.index! + match[0].length]);
+      if (value.length === 0 || seen.has(value)) continue;
+      seen.add(value);
+      found.push({ family, value });
+    }
+    // Blank out matches (same length keeps later indices valid)
+    for (const [start, end] of spans) {
+      masked = masked.slice(0, start) + " ".repeat(end - start) + masked.slice(end);
+    }
+  }
+
+  return found;
+}
+
+// --- Audit ---
+
+export function auditSummary(params: {
+  source: string;
+  summary: string;
+  options?: IdentifierAuditOptions;
+  attempts?: number;
+}): SummaryAudit {
+  const { source, summary, options } = params;
+  const families = [
+    ...(options?.extraFamilies ?? []),
+    ...(options?.families ?? DEFAULT_IDENTIFIER_FAMILIES),
+  ];
+  const identifiers = extractIdentifiers(source, families).filter((id) => !options?.ignore?.(id));
+
+  const byFamily: SummaryAudit["byFamily"] = {};
+  const missing: MissingIdentifier[] = [];
+  for (const id of identifiers) {
+    const stats = (byFamily[id.family] ??= { found: 0, preserved: 0 });
+    stats.found++;
+    if (summary.includes(id.value)) stats.preserved++;
+    else missing.push(id);
+  }
+
+  const checked = identifiers.length;
+  const preserved = checked - missing.length;
+  const preservationRate = checked === 0 ? 1 : preserved / checked;
+  const attempts = params.attempts ?? 1;
+
+  return {
+    checked,
+    preserved,
+    missing,
+    byFamily,
+    preservationRate,
+    passed: preservationRate >= (options?.minPreservationRate ?? 1),
+    attempts,
+    reprompted: attempts > 1,
+  };
+}
+
+/** Extra instruction for a retry, listing exactly what was dropped. */
+export function buildMissingIdentifiersInstruction(missing: MissingIdentifier[], limit = 50): string {
+  const listed = missing.slice(0, limit).map((m) => `- ${m.value} (${m.family})`);
+  const more = missing.length > limit ? [`- ...and ${missing.length - limit} more`] : [];
+  return [
+    "Your previous summary dropped these identifiers. Include each one verbatim",
+    "where it is relevant (do not shorten or paraphrase them):",
+    ...listed,
+    ...more,
+  ].join("\n");
+}
+
+// --- Usage example ---
+
+/*
+const source = "Deploy 3f2a9c1 failed for PAY-412, see https://ci.example.com/runs/88 " +
+  "and logs in /var/log/app/worker.log (request 0b6c1e2a-4f1d-4c8e-9a55-2d7f3e1b9c10).";
+
+auditSummary({ source, summary: "Deploy of 3f2a9c1 failed (PAY-412); see CI." });
+// {
+//   checked: 5, preserved: 2, preservationRate: 0.4, passed: false,
+//   missing: [
+//     { family: "uuid", value: "0b6c1e2a-4f1d-4c8e-9a55-2d7f3e1b9c10" },
+//     { family: "url",  value: "https://ci.example.com/runs/88" },
+//     { family: "path", value: "/var/log/app/worker.log" },
+//   ],
+//   byFamily: { uuid: {found:1,preserved:0}, url: {...}, sha: {found:1,preserved:1}, ... },
+// }
+
+// Custom family for internal order numbers:
+auditSummary({ source, summary, options: {
+  extraFamilies: [{ family: "order", pattern: /\bORD-[0-9]{6}\b/g }],
+  minPreservationRate: 0.9,
+}});
+*/
@@ -24,10 +24,13 @@ interface ContentBlock {
 }
 
 interface AgentMessage {
-  role: "user" | "assistant" | "tool";
+  role: string; // "user" | "assistant" | "tool" | ...
   content: string | ContentBlock[];
 }
 
+/** Smallest message shape dropThinkingBlocks needs: blocks only need a type. */
+type ThinkingCarrier = { role: string; content: string | Array<{ type: string }> };
+
 // ─── Thinking Block Stripping ──────────────────────────────────────────────
 
 /**
@@ -42,10 +45,12 @@ interface AgentMessage {
  * many LLM APIs require.
  *
  * Returns the original array (same reference) if no changes were needed.
+ * Generic so callers with their own message shape (extra roles, block
+ * types, metadata) get their own type back.
  */
-export function dropThinkingBlocks(messages: AgentMessage[]): AgentMessage[] {
+export function dropThinkingBlocks<M extends ThinkingCarrier>(messages: M[]): M[] {
   let touched = false;
-  const out: AgentMessage[] = [];
+  const out: M[] = [];
 
   for (const msg of messages) {
     // Only process assistant messages with array content
@@ -59,7 +64,7 @@ export function dropThinkingBlocks(messages: AgentMessage[]): AgentMessage[] {
       continue;
     }
 
-    const nextContent: ContentBlock[] = [];
+    const nextContent: Array<{ type: string; text?: string }> = [];
     let changed = false;
 
     for (const block of msg.content) {
@@ -80,7 +85,7 @@ export function dropThinkingBlocks(messages: AgentMessage[]): AgentMessage[] {
 
     // Preserve assistant turn even if all blocks were thinking-only.
     // An empty text block maintains message alternation.
-    const content: ContentBlock[] =
+    const content: Array<{ type: string; text?: string }> =
       nextContent.length > 0
         ? nextContent
         : [{ type: "text" as const, text: "" }];
@@ -102,7 +107,7 @@ export function dropThinkingBlocks(messages: AgentMessage[]): AgentMessage[] {
  * This function maps the requested level to what the model actually supports.
  */
 
-interface ModelCapability {
+export interface ModelCapability {
   supportsThinking: boolean;
   supportsBinaryOnly: boolean;   // Only "off" | "on", no granular levels
   supportsXHigh: boolean;        // Extended high thinking budget
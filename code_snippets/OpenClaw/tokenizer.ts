@@ -0,0 +1,295 @@
+/**
+ * Pluggable Token Counting with Offline BPE
+ *
+ * Pattern: Count tokens with the model's real tokenizer when we have one,
+ * fall back to the chars/4 heuristic when we don't, and never hit the network.
+ * Used by compaction_algorithm.ts, context_overflow_recovery.ts and
+ * OpenCode's context_compaction.ts.
+ *
+ * Key ideas:
+ * - Tokenizer interface: { id, exact, countTokens(text) }. `exact: false`
+ *   tells callers to keep applying SAFETY_MARGIN; exact counts need only a
+ *   small allowance for per-message framing tokens
+ * - Vocabularies ship as npm dependencies and are encoded with js-tiktoken:
+ *   o200k_base / cl100k_base from js-tiktoken/ranks, Claude's legacy vocab
+ *   from @anthropic-ai/tokenizer. Each loads lazily on first use, once
+ * - Vocabularies that can't be redistributed (Llama 3) are plain tiktoken rank
+ *   files ("<base64 bytes> <rank>" per line) read from a caller-supplied assetDir
+ * - Model id → encoding via an ordered family table; provider prefixes
+ *   ("openai/gpt-4o", "anthropic/claude-…") are stripped before matching
+ * - Claude has no public tokenizer for current models: the legacy vocab is
+ *   closer than chars/4 for code/CJK, but is registered as inexact
+ * - Unknown models, missing rank files and load errors all degrade to the
+ *   heuristic — counting must never fail a compaction — but never silently:
+ *   each fallback is reported once through `warn`
+ * - LRU cache keyed by sha256(tokenizer id + role + content): history is
+ *   re-counted on every turn, but individual messages never change
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+
+// --- Types ---
+
+export interface Tokenizer {
+  id: string;
+  /** False for heuristics and approximate vocabularies. */
+  exact: boolean;
+  countTokens(text: string): number;
+}
+
+type CountableMessage = { role: string; content: string };
+
+type EncodingSpec =
+  // Bundled with an npm package in js-tiktoken's { pat_str, special_tokens, bpe_ranks } form
+  | { kind: "package"; module: string; exact: boolean }
+  // Plain tiktoken rank file, looked up in opts.assetDir
+  | { kind: "file"; file: string; pattern: RegExp; exact: boolean };
+
+type ResolveOptions = {
+  /** Directory holding rank files for "file" encodings (llama3.tiktoken). */
+  assetDir?: string;
+  /** Fallbacks to the heuristic are reported here, once each. Default: console.warn */
+  warn?: (message: string) => void;
+};
+
+// --- Constants ---
+
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_CACHE_ENTRIES = 10_000;
+
+/** Llama 3's pre-tokenization split (JS port of the tiktoken regex, no possessives). */
+const LLAMA3_PATTERN =
+  /(?:'s|'t|'re|'ve|'m|'ll|'d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+const ENCODINGS: Record<string, EncodingSpec> = {
+  o200k_base: { kind: "package", module: "js-tiktoken/ranks/o200k_base", exact: true },
+  cl100k_base: { kind: "package", module: "js-tiktoken/ranks/cl100k_base", exact: true },
+  // Meta's license doesn't allow bundling: the model's tokenizer.model is this format
+  llama3: { kind: "file", file: "llama3.tiktoken", pattern: LLAMA3_PATTERN, exact: true },
+  // Legacy Claude vocab; undercounts Claude 3+
+  claude: { kind: "package", module: "@anthropic-ai/tokenizer/claude.json", exact: false },
+};
+
+// Rank modules are several MB: require them on first use, not at import
+const requireVocab = createRequire(import.meta.url);
+
+/** First match wins, so list more specific prefixes first. */
+const TOKENIZER_FAMILIES: Array<{ match: RegExp; encoding: keyof typeof ENCODINGS }> = [
+  { match: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/i, encoding: "o200k_base" },
+  { match: /^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/i, encoding: "cl100k_base" },
+  { match: /^(meta-)?llama-?3/i, encoding: "llama3" },
+  { match: /^claude/i, encoding: "claude" },
+];
+
+// --- Heuristic fallback ---
+
+/** ~4 chars per token. Underestimates code and badly underestimates CJK. */
+export const heuristicTokenizer: Tokenizer = {
+  id: "heuristic",
+  exact: false,
+  countTokens: (text) => Math.ceil(text.length / CHARS_PER_TOKEN),
+};
+
+// --- Byte-pair encoding ---
+
+/** Rank file → Map keyed by the token's raw bytes as a latin1 string. */
+function loadRanks(filePath: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    if (!line) continue;
+    const [token, rank] = line.split(" ");
+    ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+  }
+  return ranks;
+}
+
+/**
+ * Count BPE tokens for one pre-tokenized piece: repeatedly merge the adjacent
+ * pair with the lowest rank until no mergeable pair remains.
+ */
+function countPieceTokens(bytes: string, ranks: Map<string, number>): number {
+  if (ranks.has(bytes)) return 1;
+
+  // parts[i] = start offset of the i-th current token
+  const parts: number[] = [];
+  for (let i = 0; i <= bytes.length; i++) parts.push(i);
+
+  while (parts.length > 2) {
+    let bestRank = Infinity;
+    let bestIndex = -1;
+    for (let i = 0; i < parts.length - 2; i++) {
+      const rank = ranks.get(bytes.slice(parts[i], parts[i + 2]));
+      if (rank !== undefined && rank < bestRank) {
+        bestRank = rank;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex === -1) break;
+    parts.splice(bestIndex + 1, 1);
+  }
+
+  return parts.length - 1;
+}
+
+function createPackageTokenizer(id: string, exact: boolean, bpe: TiktokenBPE): Tokenizer {
+  const encoder = new Tiktoken(bpe);
+  return {
+    id,
+    exact,
+    // No special tokens: "<|endoftext|>" in a tool result is plain text, not a reason to throw
+    countTokens: (text) => encoder.encode(text, [], []).length,
+  };
+}
+
+function createBpeTokenizer(id: string, spec: EncodingSpec & { kind: "file" }, ranks: Map<string, number>): Tokenizer {
+  return {
+    id,
+    exact: spec.exact,
+    countTokens(text) {
+      let total = 0;
+      for (const match of text.matchAll(spec.pattern)) {
+        total += countPieceTokens(Buffer.from(match[0], "utf8").toString("latin1"), ranks);
+      }
+      return total;
+    },
+  };
+}
+
+// --- Resolution by model id ---
+
+const loadedTokenizers = new Map<string, Tokenizer>();
+const reportedFallbacks = new Set<string>();
+
+function reportFallback(key: string, message: string, warn: (message: string) => void): void {
+  if (reportedFallbacks.has(key)) return;
+  reportedFallbacks.add(key);
+  warn(`tokenizer: ${message}; counting with the chars/${CHARS_PER_TOKEN} heuristic`);
+}
+
+function loadEncoding(encoding: string, opts: ResolveOptions): Tokenizer {
+  const spec = ENCODINGS[encoding];
+  // File encodings depend on assetDir; a later call may supply one
+  const key = spec?.kind === "file" ? `${encoding}@${opts.assetDir ?? ""}` : encoding;
+  const cached = loadedTokenizers.get(key);
+  if (cached) return cached;
+
+  let tokenizer = heuristicTokenizer;
+  try {
+    if (!spec) throw new Error("unknown encoding");
+    if (spec.kind === "package") {
+      tokenizer = createPackageTokenizer(encoding, spec.exact, requireVocab(spec.module));
+    } else if (!opts.assetDir) {
+      throw new Error(`no rank file, pass assetDir containing ${spec.file}`);
+    } else {
+      tokenizer = createBpeTokenizer(encoding, spec, loadRanks(path.join(opts.assetDir, spec.file)));
+    }
+  } catch (err) {
+    // Remember the fallback so we don't retry (or warn) per call
+    reportFallback(key, `${encoding} unavailable (${err instanceof Error ? err.message : String(err)})`, opts.warn ?? console.warn);
+  }
+  loadedTokenizers.set(key, tokenizer);
+  return tokenizer;
+}
+
+/** "anthropic/claude-sonnet-4" → "claude-sonnet-4", "openai/gpt-4o" → "gpt-4o". */
+function normalizeModelId(modelId: string): string {
+  return modelId.trim().split("/").pop() ?? modelId;
+}
+
+export function resolveTokenizer(modelId: string | undefined, opts: ResolveOptions = {}): Tokenizer {
+  if (!modelId) return heuristicTokenizer;
+  const normalized = normalizeModelId(modelId);
+  const family = TOKENIZER_FAMILIES.find((f) => f.match.test(normalized));
+  if (!family) {
+    reportFallback(`model:${normalized}`, `no vocabulary for model "${normalized}"`, opts.warn ?? console.warn);
+    return heuristicTokenizer;
+  }
+  return loadEncoding(family.encoding, opts);
+}
+
+// --- LRU count cache ---
+
+export type TokenCountCache = {
+  get(key: string): number | undefined;
+  set(key: string, count: number): void;
+};
+
+/** Map iteration order is insertion order: re-insert on hit, evict the first key. */
+export function createTokenCountCache(maxEntries = DEFAULT_CACHE_ENTRIES): TokenCountCache {
+  const entries = new Map<string, number>();
+  return {
+    get(key) {
+      const count = entries.get(key);
+      if (count !== undefined) {
+        entries.delete(key);
+        entries.set(key, count);
+      }
+      return count;
+    },
+    set(key, count) {
+      entries.delete(key);
+      entries.set(key, count);
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
+
+const defaultCache = createTokenCountCache();
+
+function hashMessage(tokenizerId: string, message: CountableMessage): string {
+  return createHash("sha256")
+    .update(tokenizerId).update("\0")
+    .update(message.role).update("\0")
+    .update(message.content)
+    .digest("hex");
+}
+
+export function countMessageTokens(
+  message: CountableMessage,
+  tokenizer: Tokenizer = heuristicTokenizer,
+  cache: TokenCountCache = defaultCache,
+): number {
+  // Hashing costs about as much as the heuristic itself — only cache real BPE
+  if (tokenizer === heuristicTokenizer) return tokenizer.countTokens(message.content);
+
+  const key = hashMessage(tokenizer.id, message);
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+  const count = tokenizer.countTokens(message.content);
+  cache.set(key, count);
+  return count;
+}
+
+/**
+ * Measured chars/token for a text sample, for budgets expressed in chars
+ * (truncation). Samples the head: token density is fairly uniform per result.
+ */
+export function measureCharsPerToken(tokenizer: Tokenizer, text: string, sampleChars = 16_000): number {
+  if (tokenizer === heuristicTokenizer || text.length === 0) return CHARS_PER_TOKEN;
+  const sample = text.slice(0, sampleChars);
+  return sample.length / Math.max(1, tokenizer.countTokens(sample));
+}
+
+// --- Usage example ---
+
+/*
+const tokenizer = resolveTokenizer("openai/gpt-4o"); // o200k_base, exact
+tokenizer.countTokens("def main():\n    return 42\n");
+
+resolveTokenizer("claude-sonnet-4-5");   // legacy vocab, exact: false → keep SAFETY_MARGIN
+resolveTokenizer("gemini-2.5-pro");      // heuristicTokenizer, warns once:
+// tokenizer: no vocabulary for model "gemini-2.5-pro"; counting with the chars/4 heuristic
+
+// Llama 3 ranks come from the model download, not from this package:
+resolveTokenizer("meta-llama/llama-3.1-70b", { assetDir: "/opt/models/llama3" }); // exact
+
+// History is re-counted every turn; only new messages pay for BPE:
+const total = history.reduce((sum, m) => sum + countMessageTokens(m, tokenizer), 0);
+
+// CJK: heuristic says 250 tokens for 1000 chars, o200k_base says 600
+measureCharsPerToken(tokenizer, "上下文窗口".repeat(200)); // ≈ 1.7, not 4
+*/
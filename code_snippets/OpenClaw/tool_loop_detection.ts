@@ -103,7 +103,7 @@ function resolveConfig(config?: LoopDetectionConfig) {
  * Ensures identical objects always produce identical strings regardless
  * of property insertion order.
  */
-function stableStringify(value: unknown): string {
+export function stableStringify(value: unknown): string {
   if (value === null || typeof value !== "object") return JSON.stringify(value);
   if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
   const keys = Object.keys(value as Record<string, unknown>).sort();
@@ -130,7 +130,7 @@ function digestStable(value: unknown): string {
   return createHash("sha256").update(stableStringifyFallback(value)).digest("hex");
 }
 
-function hashToolCall(toolName: string, params: unknown): string {
+export function hashToolCall(toolName: string, params: unknown): string {
   return `${toolName}:${digestStable(params)}`;
 }
 
@@ -0,0 +1,469 @@
+/**
+ * OpenCode API Spec & Typed Client Generation
+ *
+ * The BusEvent registry and the route table already hold Zod schemas for
+ * everything that crosses the wire. Walk them once to emit an OpenAPI 3.1
+ * document and a dependency-free TypeScript client, instead of every
+ * frontend hand-writing event shapes.
+ *
+ *   const { spec, client } = generateApi({ version: "1.0.0" })
+ *   // client: export type Event = EventSessionCreated | EventMessagePartDelta | ...
+ *   //         createClient(baseUrl).subscribeEvents() → AsyncGenerator<Event>
+ *
+ * Source: packages/opencode/src/server/server.ts (hono-openapi + generated SDK)
+ */
+
+import fs from "fs/promises"
+import path from "path"
+import z from "zod"
+import { BusEvent, sseRoute } from "./event_bus_sse"
+import { Command, describeError, runCommand } from "./websocket_transport"
+
+// ============================================================
+// 1. ROUTE TABLE
+// ============================================================
+
+// One entry per HTTP route, holding the handler that serves it. The server
+// mounts this table (mountRoutes), so the spec can't list a route that isn't
+// served or miss one that is. Paths use OpenAPI's {param} syntax; every
+// {param} is a required string. The WebSocket endpoint has no OpenAPI
+// representation and is left out.
+export interface HttpRoute {
+  operationId: string
+  method: "get" | "post"
+  path: string
+  summary: string
+  query?: z.AnyZodObject
+  body?: z.AnyZodObject
+  // Omitted: 204 No Content. "event-stream": SSE frames whose data is an Event
+  response?: z.ZodTypeAny | "event-stream"
+  handler(c: RouteContext): Response | Promise<Response>
+}
+
+// The slice of Hono's Context the handlers use
+export interface RouteContext {
+  req: {
+    param(name: string): string
+    query(name: string): string | undefined
+    header(name: string): string | undefined
+    json(): Promise<unknown>
+  }
+  json(data: unknown, status?: number): Response
+  body(data: null, status: number): Response
+}
+
+const routes: HttpRoute[] = []
+
+export function defineRoute(route: HttpRoute): HttpRoute {
+  routes.push(route)
+  return route
+}
+
+// Register every route on a Hono app: {param} → :param
+export function mountRoutes(app: { on(method: string, path: string, handler: HttpRoute["handler"]): unknown }) {
+  for (const route of routes) {
+    app.on(route.method.toUpperCase(), route.path.replace(/\{(\w+)\}/g, ":$1"), route.handler)
+  }
+}
+
+// A route that runs a WebSocket command through runCommand. The body is the
+// command minus what the path already says, so both transports accept exactly
+// the same input and run the same code.
+function commandRoute(type: Command["type"], route: Omit<HttpRoute, "body" | "handler">): HttpRoute {
+  const inPath = pathParams(route.path)
+  const option = Command.optionsMap.get(type) as z.AnyZodObject
+  const body = option.omit(Object.fromEntries(["type", ...inPath].map((key) => [key, true])))
+  const hasBody = Object.keys(body.shape).length > 0
+
+  return defineRoute({
+    ...route,
+    ...(hasBody && { body }),
+    async handler(c) {
+      let fields: Record<string, unknown> = {}
+      if (hasBody) {
+        const input = body.safeParse(await c.req.json().catch(() => undefined))
+        if (!input.success) return c.json({ error: describeError(input.error) }, 400)
+        fields = input.data
+      }
+      const command = Command.safeParse({
+        ...fields,
+        type,
+        ...Object.fromEntries(inPath.map((key) => [key, c.req.param(key)])),
+      })
+      if (!command.success) return c.json({ error: describeError(command.error) }, 400)
+      const data = await runCommand(command.data)
+      return route.response === undefined ? c.body(null, 204) : c.json(data)
+    },
+  })
+}
+
+defineRoute({
+  operationId: "subscribeEvents",
+  method: "get",
+  path: "/event",
+  summary: "Stream bus events (SSE). Resumes from Last-Event-ID or ?lastEventId.",
+  query: z.object({
+    directory: z.string().optional(),
+    sessionID: z.string().optional(),
+    type: z.string().optional().describe("Comma-separated globs on the event type, e.g. message.*,status"),
+    lastEventId: z.string().optional(),
+  }),
+  response: "event-stream",
+  handler: sseRoute,
+})
+
+commandRoute("session.prompt", {
+  operationId: "promptSession",
+  method: "post",
+  path: "/session/{sessionID}/prompt",
+  summary: "Queue a prompt. Progress arrives as message.* events.",
+  response: z.object({ messageID: z.string() }),
+})
+
+commandRoute("session.abort", {
+  operationId: "abortSession",
+  method: "post",
+  path: "/session/{sessionID}/abort",
+  summary: "Abort the running turn",
+})
+
+commandRoute("permission.reply", {
+  operationId: "replyPermission",
+  method: "post",
+  path: "/session/{sessionID}/permissions/{requestID}",
+  summary: "Answer a permission.asked event",
+})
+
+commandRoute("session.revert", {
+  operationId: "revertSession",
+  method: "post",
+  path: "/session/{sessionID}/revert",
+  summary: "Revert files and history to a message (or part)",
+  response: z.any(),
+})
+
+// ============================================================
+// 2. ZOD → JSON SCHEMA (2020-12, as OpenAPI 3.1 uses)
+// ============================================================
+
+type JsonSchema = Record<string, any>
+
+// isOptional() is also true for z.any() and z.unknown() (undefined parses), which
+// would make fields like session.created's `info` optional. Only an explicit
+// .optional() or .default() makes a field optional.
+function isOptionalField(schema: z.ZodTypeAny): boolean {
+  switch (schema._def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return true
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return isOptionalField(schema._def.innerType)
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return isOptionalField(schema._def.schema)
+    default:
+      return false
+  }
+}
+
+// Covers the Zod types the event and route schemas use. Anything else maps to
+// {} (any value) rather than failing the build.
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def
+  const described = (out: JsonSchema) => (def.description ? { ...out, description: def.description } : out)
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return described({ type: "string" })
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return described({ type: def.checks?.some((c: any) => c.kind === "int") ? "integer" : "number" })
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return described({ type: "boolean" })
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return described({ type: "null" })
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return described({ const: def.value })
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return described({ type: "string", enum: def.values })
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return described({ type: "array", items: toJsonSchema(def.type) })
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return described({ type: "object", additionalProperties: toJsonSchema(def.valueType) })
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = def.shape()
+      const required = Object.keys(shape).filter((key) => !isOptionalField(shape[key]))
+      return described({
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length > 0 && { required }),
+      })
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return described({ oneOf: [...def.options].map(toJsonSchema) })
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return described(toJsonSchema(def.innerType))
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return described({ anyOf: [toJsonSchema(def.innerType), { type: "null" }] })
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return described({ ...toJsonSchema(def.innerType), default: def.defaultValue() })
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema)
+    default:
+      return described({}) // z.any(), z.unknown(), and anything not covered above
+  }
+}
+
+// ============================================================
+// 3. OPENAPI DOCUMENT
+// ============================================================
+
+// "message.part.delta" → "EventMessagePartDelta" (component + TS type name)
+function eventTypeName(type: string): string {
+  return "Event" + type.split(/[^a-zA-Z0-9]+/).map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join("")
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+function pathParams(routePath: string): string[] {
+  return [...routePath.matchAll(/\{(\w+)\}/g)].map((m) => m[1])
+}
+
+export function generateOpenAPI(opts: { title?: string; version: string }): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {}
+
+  // Events: one component per type, plus the discriminated union over all of them
+  const events = BusEvent.definitions()
+  for (const def of events) {
+    schemas[eventTypeName(def.type)] = {
+      type: "object",
+      properties: { type: { const: def.type }, properties: toJsonSchema(def.properties) },
+      required: ["type", "properties"],
+    }
+  }
+  schemas.Event = {
+    oneOf: events.map((def) => ref(eventTypeName(def.type))),
+    discriminator: {
+      propertyName: "type",
+      mapping: Object.fromEntries(events.map((def) => [def.type, ref(eventTypeName(def.type)).$ref])),
+    },
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {}
+  for (const route of routes) {
+    const parameters = [
+      ...pathParams(route.path).map((name) => ({ name, in: "path", required: true, schema: { type: "string" } })),
+      ...Object.entries((route.query?.shape ?? {}) as Record<string, z.ZodTypeAny>).map(([name, schema]) => ({
+        name,
+        in: "query",
+        required: !isOptionalField(schema),
+        schema: toJsonSchema(schema),
+      })),
+    ]
+    const responses =
+      route.response === undefined
+        ? { "204": { description: "No Content" } }
+        : route.response === "event-stream"
+          ? {
+              "200": {
+                description: "Server-sent events; each data: frame is one Event",
+                content: { "text/event-stream": { schema: ref("Event") } },
+              },
+            }
+          : { "200": { description: "OK", content: { "application/json": { schema: toJsonSchema(route.response) } } } }
+
+    paths[route.path] ??= {}
+    paths[route.path][route.method] = {
+      operationId: route.operationId,
+      summary: route.summary,
+      ...(parameters.length > 0 && { parameters }),
+      ...(route.body && {
+        requestBody: { required: true, content: { "application/json": { schema: toJsonSchema(route.body) } } },
+      }),
+      responses,
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: opts.title ?? "opencode", version: opts.version },
+    paths,
+    components: { schemas },
+  }
+}
+
+// ============================================================
+// 4. TYPED CLIENT
+// ============================================================
+
+// JSON Schema → TypeScript type expression (the subset toJsonSchema emits)
+function toTsType(schema: JsonSchema, indent = ""): string {
+  if (schema.$ref) return schema.$ref.split("/").pop()!
+  if ("const" in schema) return JSON.stringify(schema.const)
+  if (schema.enum) return schema.enum.map((v: unknown) => JSON.stringify(v)).join(" | ")
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf).map((s: JsonSchema) => toTsType(s, indent)).join(" | ")
+  }
+  switch (schema.type) {
+    case "string":
+      return "string"
+    case "number":
+    case "integer":
+      return "number"
+    case "boolean":
+      return "boolean"
+    case "null":
+      return "null"
+    case "array":
+      return `Array<${toTsType(schema.items, indent)}>`
+    case "object": {
+      if (!schema.properties) return `Record<string, ${toTsType(schema.additionalProperties ?? {}, indent)}>`
+      const required = new Set<string>(schema.required ?? [])
+      const inner = indent + "  "
+      const fields = Object.entries(schema.properties as Record<string, JsonSchema>).map(([key, value]) => {
+        const doc = value.description ? `${inner}/** ${value.description} */\n` : ""
+        return `${doc}${inner}${key}${required.has(key) ? "" : "?"}: ${toTsType(value, inner)}`
+      })
+      return `{\n${fields.join("\n")}\n${indent}}`
+    }
+    default:
+      return "any"
+  }
+}
+
+// Runtime part of the client, emitted verbatim: a fetch wrapper and an SSE
+// frame parser. No dependencies, so it runs in browsers, Bun and Node 18+.
+const CLIENT_RUNTIME = `
+export interface ClientOptions {
+  fetch?: typeof fetch
+  headers?: Record<string, string>
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: string, message: string) {
+    super(message)
+  }
+}
+
+async function request(baseUrl: string, opts: ClientOptions, method: string, path: string, body?: unknown): Promise<any> {
+  const response = await (opts.fetch ?? fetch)(baseUrl + path, {
+    method,
+    headers: { "Content-Type": "application/json", ...opts.headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  if (!response.ok) {
+    const text = await response.text()
+    throw new ApiError(response.status, text, method + " " + path + " failed: " + response.status)
+  }
+  return response.status === 204 ? undefined : response.json()
+}
+
+// Yields one parsed Event per data: frame, tagged with its id: line
+async function* readEventStream(response: Response): AsyncGenerator<Event & { id?: string }> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += value
+    let end: number
+    while ((end = buffer.indexOf("\\n\\n")) !== -1) {
+      const frame = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      let id: string | undefined
+      const data: string[] = []
+      for (const line of frame.split("\\n")) {
+        if (line.startsWith("id:")) id = line.slice(3).trim()
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+      }
+      if (data.length > 0) yield { ...(JSON.parse(data.join("\\n")) as Event), id }
+    }
+  }
+}
+`
+
+function methodSource(route: HttpRoute, typePrefix: string): string {
+  const params = pathParams(route.path)
+  const args: string[] = []
+  if (params.length > 0) args.push(`params: { ${params.map((p) => `${p}: string`).join("; ")} }`)
+  if (route.body) args.push(`body: ${typePrefix}Body`)
+  const urlPath = JSON.stringify(route.path)
+    .replace(/\{(\w+)\}/g, `" + encodeURIComponent(params.$1) + "`)
+    .replace(/ \+ ""$/, "")
+
+  if (route.response === "event-stream") {
+    const query = route.query ? `${typePrefix}Query` : "Record<string, string>"
+    args.push(`query: ${query} = {}`, "signal?: AbortSignal")
+    return [
+      `    // Narrow with \`if (event.type === "message.part.delta")\`: event.properties is typed per event`,
+      `    async *${route.operationId}(${args.join(", ")}): AsyncGenerator<Event & { id?: string }> {`,
+      `      const search = new URLSearchParams(query as Record<string, string>).toString()`,
+      `      const response = await (opts.fetch ?? fetch)(baseUrl + ${urlPath} + (search ? "?" + search : ""), {`,
+      `        headers: { Accept: "text/event-stream", ...opts.headers },`,
+      `        signal,`,
+      `      })`,
+      `      if (!response.ok) throw new ApiError(response.status, await response.text(), "${route.method.toUpperCase()} ${route.path} failed: " + response.status)`,
+      `      yield* readEventStream(response)`,
+      `    },`,
+    ].join("\n")
+  }
+
+  const result = route.response === undefined ? "void" : `${typePrefix}Response`
+  return [
+    `    /** ${route.summary} */`,
+    `    ${route.operationId}(${args.join(", ")}): Promise<${result}> {`,
+    `      return request(baseUrl, opts, "${route.method.toUpperCase()}", ${urlPath}${route.body ? ", body" : ""})`,
+    `    },`,
+  ].join("\n")
+}
+
+export function generateClient(spec: JsonSchema): string {
+  const out: string[] = [
+    "// Generated by api_codegen.ts from the BusEvent registry and the route table. Do not edit.",
+    "",
+  ]
+
+  // Event types straight from the spec components, so client and spec can't drift
+  const schemas = spec.components.schemas as Record<string, JsonSchema>
+  const eventNames = (schemas.Event.oneOf as JsonSchema[]).map((s) => toTsType(s))
+  for (const name of eventNames) out.push(`export type ${name} = ${toTsType(schemas[name])}`, "")
+  out.push(`export type Event =\n${eventNames.map((name) => `  | ${name}`).join("\n")}`)
+  out.push(`export type EventType = Event["type"]`)
+  out.push(`export type EventOf<T extends EventType> = Extract<Event, { type: T }>`, "")
+
+  // Request/response types per route
+  for (const route of routes) {
+    const prefix = route.operationId.charAt(0).toUpperCase() + route.operationId.slice(1)
+    if (route.query) out.push(`export type ${prefix}Query = ${toTsType(toJsonSchema(route.query))}`, "")
+    if (route.body) out.push(`export type ${prefix}Body = ${toTsType(toJsonSchema(route.body))}`, "")
+    if (route.response && route.response !== "event-stream") {
+      out.push(`export type ${prefix}Response = ${toTsType(toJsonSchema(route.response))}`, "")
+    }
+  }
+
+  out.push(CLIENT_RUNTIME.trim(), "")
+  out.push(`export function createClient(baseUrl: string, opts: ClientOptions = {}) {`, `  return {`)
+  for (const route of routes) {
+    const prefix = route.operationId.charAt(0).toUpperCase() + route.operationId.slice(1)
+    out.push(methodSource(route, prefix))
+  }
+  out.push(`  }`, `}`, "")
+  return out.join("\n")
+}
+
+// ============================================================
+// 5. BUILD STEP
+// ============================================================
+
+// Run at build time (and in CI, failing on a diff) so the checked-in
+// openapi.json and client.ts always match the registry
+export function generateApi(opts: { title?: string; version: string }) {
+  const spec = generateOpenAPI(opts)
+  return { spec, client: generateClient(spec) }
+}
+
+export async function writeApiArtifacts(outDir: string, opts: { title?: string; version: string }) {
+  const { spec, client } = generateApi(opts)
+  await fs.mkdir(outDir, { recursive: true })
+  await fs.writeFile(path.join(outDir, "openapi.json"), JSON.stringify(spec, null, 2) + "\n")
+  await fs.writeFile(path.join(outDir, "client.ts"), client)
+}
@@ -9,18 +9,28 @@
  * Source: packages/opencode/src/session/compaction.ts
  */
 
+import { countMessageTokens, resolveTokenizer } from "../OpenClaw/tokenizer"
+import { clearCachedResults } from "./tool_result_cache"
+
 // --- Stage 0: Overflow Detection ---
 
 const COMPACTION_BUFFER = 8192
 
-async function isOverflow(input: { tokens: TokenCounts; model: ModelInfo }): Promise<boolean> {
+// Provider-reported usage is authoritative. Before the first step-finish (or for
+// providers that report nothing) count the history with the model's tokenizer.
+async function isOverflow(input: {
+  tokens: TokenCounts
+  model: ModelInfo
+  messages?: MessageWithParts[]
+}): Promise<boolean> {
   const config = await getConfig()
   if (config.compaction?.auto === false) return false
 
   const context = input.model.limit.context
   if (context === 0) return false
 
-  const count = input.tokens.total || input.tokens.input + input.tokens.output + input.tokens.cache.read + input.tokens.cache.write
+  const reported = input.tokens.total || input.tokens.input + input.tokens.output + input.tokens.cache.read + input.tokens.cache.write
+  const count = reported || estimateHistoryTokens(input.messages ?? [], input.model.id)
 
   const reserved = config.compaction?.reserved ?? Math.min(COMPACTION_BUFFER, maxOutputTokens(input.model))
 
@@ -60,7 +70,7 @@ async function prune(input: { sessionID: string }) {
         if (PRUNE_PROTECTED_TOOLS.includes(part.tool)) continue
         if (part.state.time.compacted) break loop // Already pruned
 
-        const estimate = estimateTokens(part.state.output)
+        const estimate = estimateTokens(part.state.output, msg.info.modelID)
         total += estimate
         if (total > PRUNE_PROTECT) {
           // Beyond the protection threshold — mark for pruning
@@ -133,6 +143,9 @@ async function compact(input: {
     model,
   })
 
+  // Cached results belong to history the model no longer sees: start fresh
+  clearCachedResults(input.sessionID)
+
   // --- Stage 3: Auto-Continue After Compaction ---
   if (result === "continue" && input.auto) {
     // Inject synthetic user message to keep the agent working
@@ -170,16 +183,34 @@ async function filterCompacted(messages: AsyncIterable<MessageWithParts>): Promi
   return result
 }
 
+// --- Token Estimation ---
+// Real BPE for known model families, chars/4 otherwise (see OpenClaw/tokenizer.ts)
+
+function estimateTokens(text: string, modelID?: string): number {
+  return countMessageTokens({ role: "tool", content: text }, resolveTokenizer(modelID))
+}
+
+function estimateHistoryTokens(messages: MessageWithParts[], modelID: string): number {
+  const tokenizer = resolveTokenizer(modelID)
+  let total = 0
+  for (const msg of messages) {
+    for (const part of msg.parts) {
+      const content = part.type === "text" ? part.text : part.type === "tool" ? part.state.output : undefined
+      if (typeof content === "string") total += countMessageTokens({ role: msg.info.role, content }, tokenizer)
+    }
+  }
+  return total
+}
+
 // --- Placeholder types ---
 type TokenCounts = { total?: number; input: number; output: number; cache: { read: number; write: number } }
-type ModelInfo = { limit: { context: number; input?: number } }
+type ModelInfo = { id: string; limit: { context: number; input?: number } }
 type ToolPart = { type: string; tool: string; state: any }
 type MessageWithParts = { info: any; parts: any[] }
 
 function getConfig(): Promise<any> { return Promise.resolve({}) }
 function maxOutputTokens(_model: any): number { return 4096 }
 function getMessages(_sessionID: string): Promise<any[]> { return Promise.resolve([]) }
-function estimateTokens(_text: string): number { return 0 }
 function updatePart(_part: any): Promise<void> { return Promise.resolve() }
 function updateMessage(_msg: any): Promise<any> { return Promise.resolve({}) }
 function getAgent(_name: string): Promise<any> { return Promise.resolve({}) }
@@ -3,6 +3,8 @@
  *
  * Instance-scoped pub/sub with global cross-instance streaming.
  * Events flow: Bus.publish() → GlobalBus → SSE endpoint → Frontend.
+ * Every event gets a monotonic id and lands in a per-directory replay buffer,
+ * so a reconnecting client resumes from Last-Event-ID instead of losing the gap.
  *
  * Source: packages/opencode/src/bus/
  */
@@ -14,19 +16,24 @@ import z from "zod"
 // 1. BUS EVENT DEFINITION
 // ============================================================
 
-namespace BusEvent {
+export namespace BusEvent {
   type Definition = ReturnType<typeof define>
   const registry = new Map<string, Definition>()
 
   // Define a typed event with Zod schema
-  function define<Type extends string, Properties extends z.ZodType>(type: Type, properties: Properties) {
+  export function define<Type extends string, Properties extends z.ZodType>(type: Type, properties: Properties) {
     const result = { type, properties }
     registry.set(type, result)
     return result
   }
 
+  // Every registered event, in definition order (for spec/client generation)
+  export function definitions(): Definition[] {
+    return [...registry.values()]
+  }
+
   // Generate discriminated union of all event types (for OpenAPI spec)
-  function payloads() {
+  export function payloads() {
     return z.discriminatedUnion(
       "type",
       registry
@@ -51,6 +58,11 @@ const SessionCreated = BusEvent.define(
   z.object({ info: z.any() }),
 )
 
+export const SessionDeleted = BusEvent.define(
+  "session.deleted",
+  z.object({ info: z.any() }),
+)
+
 const MessageUpdated = BusEvent.define(
   "message.updated",
   z.object({ sessionID: z.string(), message: z.any() }),
@@ -81,14 +93,146 @@ const InstanceDisposed = BusEvent.define(
   z.object({ directory: z.string() }),
 )
 
+// Sent instead of a replay when the client's Last-Event-ID is older than the
+// buffer (or from a previous server process): refetch state, then carry on
+export const ResyncRequired = BusEvent.define(
+  "server.resync.required",
+  z.object({ lastEventID: z.string() }),
+)
+
 // ============================================================
 // 3. GLOBAL BUS (Cross-instance streaming)
 // ============================================================
 
-const GlobalBus = new EventEmitter<{
-  event: [{ directory?: string; payload: any }]
+export type GlobalEvent = { id: string; seq: number; directory?: string; payload: any }
+
+export const GlobalBus = new EventEmitter<{
+  event: [GlobalEvent]
 }>()
 
+// Event ids: "<epoch>.<seq>". seq is monotonic across all directories; the
+// epoch changes per server process, so an id from before a restart is never
+// mistaken for a position in this process's stream.
+const BUS_EPOCH = Date.now().toString(36)
+let lastSeq = 0
+
+// Per-directory ring buffer of recent events, for Last-Event-ID replay.
+// evictedSeq is the newest seq pushed out of the ring: a client whose last
+// seen seq is older than that may have missed events that are gone. The
+// newest eviction is also kept per session and per event type, so a client
+// filtered to one session or type only resyncs when an event it would have
+// received is gone (see evictedSeqFor).
+const REPLAY_BUFFER_SIZE = 1000
+
+interface ReplayBuffer {
+  ring: GlobalEvent[]
+  next: number // slot the next event is written to
+  evictedSeq: number
+  // Evictions before this seq aren't itemized below (buffer recreated after dispose)
+  floorSeq: number
+  evictedSessionlessSeq: number
+  evictedBySession: Map<string, number>
+  evictedByType: Map<string, number>
+}
+
+function createReplayBuffer(floorSeq: number): ReplayBuffer {
+  return {
+    ring: [],
+    next: 0,
+    evictedSeq: floorSeq,
+    floorSeq,
+    evictedSessionlessSeq: 0,
+    evictedBySession: new Map(),
+    evictedByType: new Map(),
+  }
+}
+
+function recordEviction(buffer: ReplayBuffer, event: GlobalEvent) {
+  buffer.evictedSeq = event.seq
+  const sessionID = eventSessionID(event.payload)
+  if (sessionID) buffer.evictedBySession.set(sessionID, event.seq)
+  else buffer.evictedSessionlessSeq = event.seq
+  buffer.evictedByType.set(event.payload.type, event.seq)
+}
+
+// Newest evicted seq among events that pass the filter's session and type
+// (an upper bound: session and type are tracked apart, so this may resync
+// when no single evicted event matched both — never the other way around)
+function evictedSeqFor(buffer: ReplayBuffer, filter: EventFilter): number {
+  let seq = buffer.evictedSeq
+  if (filter.sessionID) {
+    seq = Math.min(seq, Math.max(buffer.evictedSessionlessSeq, buffer.evictedBySession.get(filter.sessionID) ?? 0))
+  }
+  if (filter.types) {
+    let byType = 0
+    for (const [type, typeSeq] of buffer.evictedByType) {
+      if (filter.types.some((re) => re.test(type))) byType = Math.max(byType, typeSeq)
+    }
+    seq = Math.min(seq, byType)
+  }
+  return Math.max(seq, buffer.floorSeq)
+}
+
+const replayBuffers = new Map<string, ReplayBuffer>()
+
+// A disposed instance's buffer is dropped; only the seq of its last event is
+// kept, so a client resuming from before it still gets a resync
+const disposedSeqs = new Map<string, number>()
+
+export function emitGlobal(directory: string | undefined, payload: any) {
+  const event: GlobalEvent = { id: `${BUS_EPOCH}.${++lastSeq}`, seq: lastSeq, directory, payload }
+
+  const key = directory ?? ""
+  let buffer = replayBuffers.get(key)
+  if (!buffer) {
+    replayBuffers.set(key, (buffer = createReplayBuffer(disposedSeqs.get(key) ?? 0)))
+    disposedSeqs.delete(key)
+  }
+  const evicted = buffer.ring[buffer.next]
+  if (evicted) recordEviction(buffer, evicted)
+  buffer.ring[buffer.next] = event
+  buffer.next = (buffer.next + 1) % REPLAY_BUFFER_SIZE
+
+  GlobalBus.emit("event", event)
+
+  if (payload?.type === InstanceDisposed.type) {
+    const disposed = payload.properties.directory
+    replayBuffers.delete(disposed)
+    disposedSeqs.set(disposed, event.seq)
+  }
+}
+
+// Id of the newest event published so far — where a resynced client resumes
+export function currentEventID(): string | undefined {
+  return lastSeq > 0 ? `${BUS_EPOCH}.${lastSeq}` : undefined
+}
+
+function parseEventID(id: string): number | undefined {
+  const [epoch, seq] = id.split(".")
+  return epoch === BUS_EPOCH && /^\d+$/.test(seq ?? "") ? Number(seq) : undefined
+}
+
+/**
+ * Events after `lastEventID`, oldest first — or "resync" when some of them
+ * can no longer be replayed. Unknown/foreign ids always resync: the client
+ * can't have seen a consistent prefix of this process's stream.
+ * Only evictions the client's filter would have let through count: with a
+ * directory, only that directory's buffer is checked; with a session or
+ * type filter, only evicted events of that session or type.
+ */
+export function replaySince(lastEventID: string, filter: EventFilter = {}): GlobalEvent[] | "resync" {
+  const since = parseEventID(lastEventID)
+  if (since === undefined || since > lastSeq) return "resync"
+  const keys = filter.directory === undefined ? [...replayBuffers.keys(), ...disposedSeqs.keys()] : [filter.directory]
+  const missed: GlobalEvent[] = []
+  for (const key of keys) {
+    const buffer = replayBuffers.get(key)
+    if (since < (buffer ? evictedSeqFor(buffer, filter) : disposedSeqs.get(key) ?? 0)) return "resync"
+    for (const event of buffer?.ring ?? []) if (event.seq > since) missed.push(event)
+  }
+  return missed.sort((a, b) => a.seq - b.seq)
+}
+
 // ============================================================
 // 4. INSTANCE-SCOPED BUS
 // ============================================================
@@ -119,11 +263,8 @@ namespace Bus {
       }
     }
 
-    // Emit to global bus (for SSE streaming to frontends)
-    GlobalBus.emit("event", {
-      directory: instanceDirectory,
-      payload,
-    })
+    // Emit to global bus (for SSE streaming to frontends) — assigns the event id
+    emitGlobal(instanceDirectory, payload)
 
     return Promise.all(pending)
   }
@@ -155,37 +296,174 @@ namespace Bus {
 // 5. SSE ENDPOINT (Server-side)
 // ============================================================
 
-// Hono route handler for SSE streaming
-function sseRoute(/* Hono context */) {
+// Query parameters narrow the stream server-side:
+//   ?directory=/path/to/project
+//   ?sessionID=ses_123        events of other sessions are skipped; events
+//                             that belong to no session (server.*) still pass
+//   ?type=message.*,status    comma-separated globs on the event type
+// The filter applies to Last-Event-ID replay as well as live events.
+
+export interface EventFilter {
+  directory?: string
+  sessionID?: string
+  types?: RegExp[]
+}
+
+export function parseEventFilter(query: (name: string) => string | undefined): EventFilter {
+  const types = query("type")
+    ?.split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+    .map((glob) => new RegExp(`^${glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`))
+  return {
+    directory: query("directory") || undefined,
+    sessionID: query("sessionID") || undefined,
+    types: types?.length ? types : undefined,
+  }
+}
+
+function eventSessionID(payload: any): string | undefined {
+  const props = payload.properties ?? {}
+  return props.sessionID ?? props.info?.id ?? props.request?.sessionID
+}
+
+export function matchesFilter(event: GlobalEvent, filter: EventFilter): boolean {
+  if (filter.directory && event.directory !== filter.directory) return false
+  if (filter.types && !filter.types.some((re) => re.test(event.payload.type))) return false
+  const sessionID = filter.sessionID && eventSessionID(event.payload)
+  return !sessionID || sessionID === filter.sessionID
+}
+
+// Per-connection queue, flushed every 16ms — the same frame the frontend
+// batches on, so deltas the client would coalesce anyway never hit the wire.
+//   - Adjacent text deltas of one part merge into one event (carrying the
+//     last id, so resuming from it never replays merged text)
+//   - Past the soft limit the client isn't keeping up: a newer status or
+//     todo list replaces the queued one for the same session
+//   - Past the hard limit the backlog is dropped for a resync event, instead
+//     of buffering without bound for a client that may never catch up
+// Frames are only written while the stream has room (desiredSize > 0).
+const FLUSH_INTERVAL_MS = 16
+const QUEUE_SOFT_LIMIT = 256
+const QUEUE_HARD_LIMIT = 2048
+const STREAM_HIGH_WATER_BYTES = 64 * 1024
+
+type QueuedEvent = { id?: string; payload: any }
+
+function supersedeKey(payload: any): string | undefined {
+  if (payload.type === StatusChanged.type || payload.type === TodoUpdated.type) {
+    return `${payload.type}:${payload.properties.sessionID}`
+  }
+  return undefined
+}
+
+function mergeDelta(last: QueuedEvent | undefined, next: GlobalEvent): QueuedEvent | undefined {
+  if (!last || last.payload.type !== PartDelta.type || next.payload.type !== PartDelta.type) return undefined
+  const [a, b] = [last.payload.properties, next.payload.properties]
+  if (a.partID !== b.partID || typeof a.delta !== "string" || typeof b.delta !== "string") return undefined
+  return { id: next.id, payload: { ...next.payload, properties: { ...b, delta: a.delta + b.delta } } }
+}
+
+function resyncEvent(id: string | undefined, lastEventID: string): QueuedEvent {
+  return { id, payload: { type: ResyncRequired.type, properties: { lastEventID } } }
+}
+
+// Hono route handler for SSE streaming (mounted from api_codegen.ts's route table)
+export function sseRoute(c: { req: { header(name: string): string | undefined; query(name: string): string | undefined } }) {
+  // EventSource sends Last-Event-ID on its own reconnects; a client that
+  // opens a fresh EventSource can only pass it in the query
+  const lastEventID = c.req.header("Last-Event-ID") ?? c.req.query("lastEventId")
+  const filter = parseEventFilter((name) => c.req.query(name))
+
+  const encoder = new TextEncoder()
+  const queue: QueuedEvent[] = []
+  let lastSentID = lastEventID ?? ""
+  let flushTimer: ReturnType<typeof setTimeout> | undefined
+  let keepalive: ReturnType<typeof setInterval> | undefined
+  let handler: ((event: GlobalEvent) => void) | undefined
+  let controller: ReadableStreamDefaultController<Uint8Array>
+  let blocked = false
+
+  function flush() {
+    clearTimeout(flushTimer)
+    flushTimer = undefined
+    while (queue.length > 0 && (controller.desiredSize ?? 1) > 0) {
+      const { id, payload } = queue.shift()!
+      if (id) lastSentID = id
+      controller.enqueue(encoder.encode(`${id ? `id: ${id}\n` : ""}data: ${JSON.stringify(payload)}\n\n`))
+    }
+    // Anything left waits for pull(): the client is reading again
+    blocked = queue.length > 0
+  }
+
+  function schedule() {
+    flushTimer ??= setTimeout(flush, FLUSH_INTERVAL_MS)
+  }
+
+  function push(event: GlobalEvent) {
+    const merged = mergeDelta(queue.at(-1), event)
+    if (merged) {
+      queue[queue.length - 1] = merged
+      return
+    }
+    if (queue.length >= QUEUE_SOFT_LIMIT) {
+      const key = supersedeKey(event.payload)
+      const stale = key ? queue.findIndex((queued) => supersedeKey(queued.payload) === key) : -1
+      if (stale !== -1) queue.splice(stale, 1)
+    }
+    queue.push(event)
+    if (queue.length > QUEUE_HARD_LIMIT) {
+      // Resume point is the newest dropped event: after refetching state the
+      // client has everything up to it
+      queue.splice(0, queue.length, resyncEvent(event.id, lastSentID))
+    }
+  }
+
   return new Response(
-    new ReadableStream({
-      start(controller) {
-        const encoder = new TextEncoder()
-
-        // Send keepalive ping every 30s
-        const keepalive = setInterval(() => {
-          controller.enqueue(encoder.encode(": keepalive\n\n"))
-        }, 30_000)
-
-        // Subscribe to global bus events
-        const handler = (event: { directory?: string; payload: any }) => {
-          // Filter by directory if specified in query params
-          // const requestedDir = url.searchParams.get("directory")
-          // if (requestedDir && event.directory !== requestedDir) return
-
-          const data = JSON.stringify(event.payload)
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`))
-        }
+    new ReadableStream<Uint8Array>(
+      {
+        start(streamController) {
+          controller = streamController
+
+          // Replay, then subscribe, in the same tick: publish() can't run in
+          // between, so no event is sent twice or skipped
+          if (lastEventID) {
+            const missed = replaySince(lastEventID, filter)
+            if (missed === "resync") {
+              // Carries the current id: after refetching state the client resumes from now
+              queue.push(resyncEvent(currentEventID(), lastEventID))
+            } else {
+              missed.filter((event) => matchesFilter(event, filter)).forEach(push)
+            }
+            schedule()
+          }
+
+          // Send keepalive ping every 30s
+          keepalive = setInterval(() => {
+            controller.enqueue(encoder.encode(": keepalive\n\n"))
+          }, 30_000)
 
-        GlobalBus.on("event", handler)
+          // Subscribe to global bus events
+          handler = (event: GlobalEvent) => {
+            if (!matchesFilter(event, filter)) return
+            push(event)
+            schedule()
+          }
 
+          GlobalBus.on("event", handler)
+        },
+        pull() {
+          if (blocked) flush()
+        },
         // Cleanup on disconnect
-        return () => {
+        cancel() {
           clearInterval(keepalive)
-          GlobalBus.off("event", handler)
-        }
+          clearTimeout(flushTimer)
+          if (handler) GlobalBus.off("event", handler)
+        },
       },
-    }),
+      { highWaterMark: STREAM_HIGH_WATER_BYTES, size: (chunk) => chunk.byteLength },
+    ),
     {
       headers: {
         "Content-Type": "text/event-stream",
@@ -202,11 +480,27 @@ function sseRoute(/* Hono context */) {
 
 // Batched event processing at 16ms intervals (60fps)
 function createEventStream(serverUrl: string, directory: string) {
-  const eventSource = new EventSource(`${serverUrl}/event?directory=${encodeURIComponent(directory)}`)
   const batch: any[] = []
   let scheduled = false
+  let lastEventId: string | undefined
+  let closed = false
+  let eventSource: EventSource
+
+  // The browser reconnects by itself (sending Last-Event-ID) after a dropped
+  // connection, but gives up for good on e.g. a 502 while the server
+  // restarts. Then open a new EventSource and resume via the query param.
+  function connect() {
+    const query = new URLSearchParams({ directory })
+    if (lastEventId) query.set("lastEventId", lastEventId)
+    eventSource = new EventSource(`${serverUrl}/event?${query}`)
+    eventSource.onmessage = onMessage
+    eventSource.onerror = () => {
+      if (!closed && eventSource.readyState === EventSource.CLOSED) setTimeout(connect, 1000)
+    }
+  }
 
-  eventSource.onmessage = (event) => {
+  function onMessage(event: MessageEvent) {
+    if (event.lastEventId) lastEventId = event.lastEventId
     const payload = JSON.parse(event.data)
     batch.push(payload)
 
@@ -230,6 +524,10 @@ function createEventStream(serverUrl: string, directory: string) {
             case "status":
               updateStatusInStore(evt.properties)
               break
+            case "server.resync.required":
+              // Missed events are gone — reload sessions/messages from the API
+              resyncStore(directory)
+              break
             // ... other event types
           }
         }
@@ -237,8 +535,13 @@ function createEventStream(serverUrl: string, directory: string) {
     }
   }
 
+  connect()
+
   return {
-    close: () => eventSource.close(),
+    close: () => {
+      closed = true
+      eventSource.close()
+    },
   }
 }
 
@@ -246,3 +549,4 @@ function createEventStream(serverUrl: string, directory: string) {
 function updatePartInStore(_props: any) {}
 function addSessionToStore(_props: any) {}
 function updateStatusInStore(_props: any) {}
+function resyncStore(_directory: string) {}
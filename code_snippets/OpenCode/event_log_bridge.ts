@@ -0,0 +1,352 @@
+/**
+ * OpenCode Durable Event Log & Cross-Process Bus Bridge
+ *
+ * GlobalBus is an in-process EventEmitter: events published by a second
+ * server process or an agent worker never reach this process's SSE clients,
+ * and nothing survives a restart. Two optional add-ons fix that:
+ *   - Event log: every GlobalBus event appended to rotating JSONL segments,
+ *     for auditing after the fact
+ *   - Bus bridge: local processes join one hub over a Unix socket; each
+ *     process's events are re-published on every other process's GlobalBus
+ *
+ * Ordering: events from one process reach every other process in the order
+ * they were published (one socket per process, one hub). The hub is the only
+ * place streams from different processes interleave, so all processes except
+ * the publisher itself see the same order within a directory.
+ *
+ * Source: packages/opencode/src/bus/global.ts (extended)
+ */
+
+import { randomBytes } from "crypto"
+import fs from "fs/promises"
+import net from "net"
+import path from "path"
+import { GlobalBus, emitGlobal, type GlobalEvent } from "./event_bus_sse"
+
+// ============================================================
+// 1. APPEND-ONLY EVENT LOG (JSONL SEGMENTS)
+// ============================================================
+
+// One line per event: { id, directory, payload, time }. Segments are
+// events-000001.jsonl, events-000002.jsonl, ...; a new one starts when the
+// current one passes maxSegmentBytes, and the oldest are deleted past
+// maxSegments. Appends are chained so lines land in publish order.
+
+export interface EventLogRecord {
+  id: string
+  directory?: string
+  payload: any
+  time: number
+}
+
+const SEGMENT_PATTERN = /^events-(\d{6})\.jsonl$/
+
+function segmentName(index: number): string {
+  return `events-${String(index).padStart(6, "0")}.jsonl`
+}
+
+async function listSegments(dir: string): Promise<number[]> {
+  const names = await fs.readdir(dir).catch(() => [] as string[])
+  return names
+    .map((name) => name.match(SEGMENT_PATTERN)?.[1])
+    .filter((index): index is string => index !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b)
+}
+
+export async function createEventLog(opts: {
+  dir: string
+  maxSegmentBytes?: number
+  maxSegments?: number
+  onError?: (error: unknown) => void
+}) {
+  const maxSegmentBytes = opts.maxSegmentBytes ?? 64 * 1024 * 1024
+  const maxSegments = opts.maxSegments ?? 20
+  const onError = opts.onError ?? ((error) => console.error("event log:", error))
+  await fs.mkdir(opts.dir, { recursive: true })
+
+  // Continue the newest segment left by a previous run
+  const existing = await listSegments(opts.dir)
+  let index = existing.at(-1) ?? 1
+  let file = await fs.open(path.join(opts.dir, segmentName(index)), "a")
+  let size = (await file.stat()).size
+  let tail: Promise<void> = Promise.resolve()
+
+  async function rotate() {
+    await file.close()
+    file = await fs.open(path.join(opts.dir, segmentName(++index)), "a")
+    size = 0
+    const segments = await listSegments(opts.dir)
+    for (const old of segments.slice(0, Math.max(0, segments.length - maxSegments))) {
+      await fs.rm(path.join(opts.dir, segmentName(old)), { force: true })
+    }
+  }
+
+  function append(event: GlobalEvent) {
+    const record: EventLogRecord = { id: event.id, directory: event.directory, payload: event.payload, time: Date.now() }
+    const line = JSON.stringify(record) + "\n"
+    // A failed write is reported, never thrown into the publisher
+    tail = tail
+      .then(async () => {
+        if (size > 0 && size + Buffer.byteLength(line) > maxSegmentBytes) await rotate()
+        await file.write(line)
+        size += Buffer.byteLength(line)
+      })
+      .catch(onError)
+  }
+
+  GlobalBus.on("event", append)
+
+  return {
+    // Resolves once everything appended so far is written
+    flush: () => tail,
+    async close() {
+      GlobalBus.off("event", append)
+      await tail
+      await file.close()
+    },
+  }
+}
+
+// Audit: every record, oldest first. A torn last line (crash mid-append) is skipped.
+export async function* readEventLog(dir: string): AsyncGenerator<EventLogRecord> {
+  for (const index of await listSegments(dir)) {
+    const text = await fs.readFile(path.join(dir, segmentName(index)), "utf8").catch(() => "")
+    for (const line of text.split("\n")) {
+      if (!line) continue
+      try {
+        yield JSON.parse(line) as EventLogRecord
+      } catch {
+        // partial write
+      }
+    }
+  }
+}
+
+// ============================================================
+// 2. BUS BRIDGE (UNIX SOCKET HUB)
+// ============================================================
+
+// Wire format: newline-delimited JSON, one { directory, payload } per line.
+// A received event is re-published locally through emitGlobal(), so it gets
+// a local id, lands in the replay buffer and reaches SSE/WebSocket clients
+// like a local event. Ids are per process; they never cross the socket.
+
+interface BridgeFrame {
+  directory?: string
+  payload: any
+}
+
+// Splits a socket's byte stream into parsed lines; calls back in arrival order.
+// A line that isn't a JSON object is skipped: one bad writer must not throw
+// out of the "data" handler and take the process down.
+function readFrames(socket: net.Socket, onFrame: (frame: Record<string, any>) => void) {
+  let buffer = ""
+  socket.setEncoding("utf8")
+  socket.on("data", (chunk: string) => {
+    buffer += chunk
+    let end: number
+    while ((end = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 1)
+      if (!line) continue
+      let frame: unknown
+      try {
+        frame = JSON.parse(line)
+      } catch {
+        continue
+      }
+      if (typeof frame === "object" && frame !== null) onFrame(frame)
+    }
+  })
+}
+
+// Only frames carrying an event payload are re-published
+function isEventFrame(frame: Record<string, any>): frame is BridgeFrame {
+  return typeof frame.payload === "object" && frame.payload !== null && typeof frame.payload.type === "string"
+}
+
+const encodeFrame = (event: GlobalEvent) => JSON.stringify({ directory: event.directory, payload: event.payload }) + "\n"
+
+// Re-publish a remote event without forwarding it back out. Remote payloads
+// are remembered by identity (emitGlobal passes the object through), so an
+// event a local subscriber publishes in reaction to one is still forwarded.
+function createInjector() {
+  const injected = new WeakSet<object>()
+  return {
+    inject(frame: BridgeFrame) {
+      injected.add(frame.payload)
+      emitGlobal(frame.directory, frame.payload)
+    },
+    isRemote: (event: GlobalEvent) => injected.has(event.payload),
+  }
+}
+
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.connect(socketPath)
+    probe.once("connect", () => (probe.destroy(), resolve(true)))
+    probe.once("error", () => resolve(false))
+  })
+}
+
+// Deletes the socket file at socketPath unless a hub listens on it. A live
+// socket is never touched: it is probed in place first. Only a file that
+// answered nobody is moved to a private name and deleted from there, and it is
+// probed again after the move, since another process may have taken it over
+// and bound a new socket at that path in between. Such a socket is linked
+// back; if something else already holds the path, the moved socket is left
+// where it is and the error names it, rather than deleting a live hub's only
+// path.
+async function removeStaleSocket(socketPath: string): Promise<boolean> {
+  if (await isListening(socketPath)) return false
+  // Short suffix: socket paths are capped at ~108 bytes
+  const moved = `${socketPath}.${randomBytes(4).toString("hex")}`
+  try {
+    await fs.rename(socketPath, moved)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return true
+    throw error
+  }
+  if (!(await isListening(moved))) {
+    await fs.rm(moved, { force: true })
+    return true
+  }
+  try {
+    await fs.link(moved, socketPath)
+  } catch (error) {
+    throw new Error(`bus hub socket moved to ${moved} could not be restored to ${socketPath}`, { cause: error })
+  }
+  await fs.rm(moved, { force: true })
+  return false
+}
+
+// The hub has no replay for peers. A peer that stops reading is disconnected
+// past this many unsent bytes instead of growing the hub's memory; its bridge
+// reconnects, and the events it missed are lost to that process.
+const HUB_PEER_MAX_BUFFERED_BYTES = 4 * 1024 * 1024
+
+/**
+ * Hub: run by one process (the gateway). Relays every peer's events to all
+ * other peers and to its own GlobalBus, and its own events to every peer.
+ * Attach the event log here — the hub sees every event of every process.
+ */
+export async function startBusHub(socketPath: string) {
+  const peers = new Set<net.Socket>()
+  const { inject, isRemote } = createInjector()
+
+  const send = (peer: net.Socket, line: string) => {
+    if (peer.writableLength > HUB_PEER_MAX_BUFFERED_BYTES) return void peer.destroy()
+    peer.write(line)
+  }
+
+  const server = net.createServer((socket) => {
+    peers.add(socket)
+    readFrames(socket, (frame) => {
+      if (!isEventFrame(frame)) return
+      const line = JSON.stringify(frame) + "\n"
+      for (const peer of peers) if (peer !== socket) send(peer, line)
+      inject(frame)
+    })
+    socket.on("close", () => peers.delete(socket))
+    socket.on("error", () => socket.destroy())
+  })
+
+  const listen = () =>
+    new Promise<void>((resolve, reject) => {
+      server.once("error", reject)
+      server.listen(socketPath, () => {
+        server.off("error", reject)
+        resolve()
+      })
+    })
+  const alreadyRunning = () => new Error(`bus hub already running on ${socketPath}`)
+  const inUse = (error: unknown) => (error as NodeJS.ErrnoException).code === "EADDRINUSE"
+
+  // Bind first: an existing socket file fails with EADDRINUSE. One nobody
+  // listens on is left over from a crash and is taken over; if two processes
+  // take it over at once, the second listen() fails and that one gives up.
+  try {
+    await listen()
+  } catch (error) {
+    if (!inUse(error)) throw error
+    if (!(await removeStaleSocket(socketPath))) throw alreadyRunning()
+    await listen().catch((retry) => {
+      throw inUse(retry) ? alreadyRunning() : retry
+    })
+  }
+
+  const forward = (event: GlobalEvent) => {
+    if (isRemote(event)) return
+    const line = encodeFrame(event)
+    for (const peer of peers) send(peer, line)
+  }
+  GlobalBus.on("event", forward)
+
+  return {
+    async close() {
+      GlobalBus.off("event", forward)
+      for (const peer of peers) peer.destroy()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+// Events published while the hub is unreachable are held (oldest dropped past
+// this) and sent in order on reconnect
+const BRIDGE_OUTBOX_LIMIT = 10_000
+
+/** Peer: run by every other process (agent workers, secondary servers). */
+export function connectBusBridge(
+  socketPath: string,
+  opts: { reconnectMs?: number; onDrop?: (dropped: number) => void } = {},
+) {
+  const { inject, isRemote } = createInjector()
+  const outbox: string[] = []
+  let socket: net.Socket | undefined
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+  let connected = false
+  let closed = false
+  let dropped = 0
+
+  function connect() {
+    const next = net.connect(socketPath)
+    socket = next
+    next.once("connect", () => {
+      connected = true
+      if (dropped > 0) opts.onDrop?.(dropped)
+      dropped = 0
+      for (const line of outbox.splice(0)) next.write(line)
+    })
+    readFrames(next, (frame) => {
+      if (isEventFrame(frame)) inject(frame)
+    })
+    next.on("error", () => {}) // "close" follows; reconnect from there
+    next.on("close", () => {
+      connected = false
+      if (!closed) reconnectTimer = setTimeout(connect, opts.reconnectMs ?? 1000)
+    })
+  }
+
+  const forward = (event: GlobalEvent) => {
+    if (isRemote(event)) return
+    const line = encodeFrame(event)
+    if (connected) return void socket!.write(line)
+    outbox.push(line)
+    if (outbox.length > BRIDGE_OUTBOX_LIMIT) {
+      outbox.shift()
+      dropped++
+    }
+  }
+  GlobalBus.on("event", forward)
+  connect()
+
+  return {
+    close() {
+      closed = true
+      clearTimeout(reconnectTimer)
+      GlobalBus.off("event", forward)
+      socket?.end()
+    },
+  }
+}
@@ -107,7 +107,7 @@ interface InstanceContext {
 const instanceContext = /* Context.create<InstanceContext>("instance") */ null as any
 const cache = new Map<string, Promise<InstanceContext>>()
 
-const Instance = {
+export const Instance = {
   /**
    * Provides an isolated async context for a project directory.
    * Caches initialization per directory — second call reuses context.
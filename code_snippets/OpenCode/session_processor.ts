@@ -8,9 +8,11 @@
  */
 
 import z from "zod"
+import { extractResponseHeaders, rateLimitInfoFromError } from "../OpenClaw/rate_limit_headers"
+import { createResourceScheduler, resourcesFor } from "./tool_system"
 
 // --- Stream Event Types ---
-type StreamEvent =
+export type StreamEvent =
   | { type: "start" }
   | { type: "reasoning-start"; reasoningId: string }
   | { type: "reasoning-delta"; reasoningId: string; textDelta: string }
@@ -28,11 +30,13 @@ type StreamEvent =
 
 // --- Processor Creation ---
 
-function createProcessor(input: {
+export function createProcessor(input: {
   assistantMessage: AssistantMessage
   sessionID: string
   model: ModelInfo
   abort: AbortSignal
+  // Stream function override — a cassette recorder or replayer (session_replay.ts)
+  llm?: (input: StreamInput) => Promise<{ fullStream: AsyncIterable<StreamEvent> }>
 }) {
   const toolcalls: Record<string, ToolPart> = {}
   let snapshot: string | undefined
@@ -58,8 +62,14 @@ function createProcessor(input: {
           let currentText: TextPart | undefined
           const reasoningMap: Record<string, ReasoningPart> = {}
 
-          // Get streaming response from LLM
-          const stream = await callLLM(streamInput)
+          // Get streaming response from LLM. The SDK executes each tool call
+          // as it streams in; the scheduler lets independent calls overlap and
+          // holds conflicting ones (same file, bash) until earlier ones finish.
+          const scheduler = createResourceScheduler()
+          const stream = await (input.llm ?? callLLM)({
+            ...streamInput,
+            tools: scheduleTools(streamInput.tools, scheduler, input.abort),
+          })
 
           // --- ITERATE OVER STREAM EVENTS ---
           for await (const value of stream.fullStream) {
@@ -280,6 +290,27 @@ function createProcessor(input: {
   }
 }
 
+// --- Tool Scheduling ---
+// Parts are created at tool-input-start, in stream order, so the transcript
+// keeps call order even when results complete out of order.
+function scheduleTools(
+  tools: Record<string, any> | undefined,
+  scheduler: ReturnType<typeof createResourceScheduler>,
+  abort: AbortSignal,
+) {
+  if (!tools) return tools
+  return Object.fromEntries(
+    Object.entries(tools).map(([id, tool]) => [
+      id,
+      {
+        ...tool,
+        execute: (args: any, options: any) =>
+          scheduler.run(resourcesFor(tool, args), () => tool.execute(args, options), abort),
+      },
+    ]),
+  )
+}
+
 // --- Doom Loop Detection ---
 const DOOM_LOOP_THRESHOLD = 3
 
@@ -307,27 +338,27 @@ const RETRY_INITIAL_DELAY = 2000
 const RETRY_BACKOFF_FACTOR = 2
 const RETRY_MAX_DELAY_NO_HEADERS = 30_000
 
-function retryDelay(attempt: number, error?: any): number {
-  if (error?.responseHeaders) {
-    const retryAfterMs = error.responseHeaders["retry-after-ms"]
-    if (retryAfterMs) return parseFloat(retryAfterMs)
+// Exact waits come from the shared header parser (retry-after, retry-after-ms,
+// x-ratelimit-reset-*, anthropic-ratelimit-*-reset); backoff is only a fallback.
+export function retryDelay(attempt: number, error?: any): number {
+  const rateLimit = rateLimitInfoFromError(error)
+  if (rateLimit?.retryAfterMs !== undefined) return rateLimit.retryAfterMs
 
-    const retryAfter = error.responseHeaders["retry-after"]
-    if (retryAfter) {
-      const seconds = parseFloat(retryAfter)
-      if (!isNaN(seconds)) return Math.ceil(seconds * 1000)
-      const date = Date.parse(retryAfter) - Date.now()
-      if (!isNaN(date) && date > 0) return Math.ceil(date)
-    }
+  const backoff = RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1)
+  // Provider sent headers but no reset hint: don't cap, it may be a long outage
+  if (extractResponseHeaders(error)) return backoff
 
-    return RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1)
-  }
-
-  return Math.min(RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1), RETRY_MAX_DELAY_NO_HEADERS)
+  return Math.min(backoff, RETRY_MAX_DELAY_NO_HEADERS)
 }
 
 function isRetryable(error: any): string | undefined {
   if (error.isContextOverflow) return undefined // Not retryable — triggers compaction
+  const rateLimit = rateLimitInfoFromError(error)
+  if (rateLimit) {
+    return rateLimit.resetAt
+      ? `Rate Limited (resets ${new Date(rateLimit.resetAt).toISOString()})`
+      : "Rate Limited"
+  }
   if (error.isRetryable) return error.message
   if (error.message?.includes("too_many_requests")) return "Too Many Requests"
   if (error.message?.includes("rate_limit")) return "Rate Limited"
@@ -0,0 +1,315 @@
+/**
+ * OpenCode Session Record & Replay (LLM Cassettes)
+ *
+ * Records every LLM stream (the StreamEvent sequence) and every tool result
+ * of a session to a JSONL cassette, then feeds it back offline through the
+ * same processor. Replay checks each LLM request and each tool call the
+ * runtime makes against the recording, so a cassette doubles as a
+ * regression test: re-run it after a change and any divergence in tool
+ * calls or parameters is reported with the path of the first difference.
+ *
+ * Works at the two seams both loops already have: the stream function
+ * (OpenCode `callLLM`, OpenClaw `streamFn`) and tool `execute`.
+ *
+ * Source: packages/opencode/src/session/llm.ts (stream boundary)
+ */
+
+import fs from "fs/promises"
+import { stableStringify } from "../OpenClaw/tool_loop_detection"
+import type { StreamEvent } from "./session_processor"
+
+// ============================================================
+// 1. CASSETTE FORMAT
+// ============================================================
+
+// One JSON object per line. JSONL so a crashed run still leaves a
+// replayable prefix, and so cassettes diff cleanly in code review.
+//
+//   {"kind":"header","version":1,"sessionID":"ses_1","recordedAt":...}
+//   {"kind":"llm","seq":0,"request":{...},"events":[{"type":"start"},...]}
+//   {"kind":"tool","seq":1,"callID":"call_1","tool":"read","input":{...},"result":{...}}
+
+const CASSETTE_VERSION = 1
+
+/** Errors as JSON, keeping the fields retry logic reads (status, headers, flags). */
+export interface RecordedError {
+  name: string
+  message: string
+  status?: number
+  code?: string
+  headers?: Record<string, string>
+  isRetryable?: boolean
+  isContextOverflow?: boolean
+}
+
+export type RecordedEvent =
+  | Exclude<StreamEvent, { type: "tool-error" }>
+  | { type: "tool-error"; toolCallId: string; error: RecordedError }
+
+/** What the runtime asked for — compared on replay, never sent anywhere. */
+export interface RequestFingerprint {
+  model?: string
+  tools: string[]
+  /** Tool calls already in the history, in order. */
+  toolCalls: Array<{ tool: string; input: unknown }>
+}
+
+export type CassetteEntry =
+  | { kind: "header"; version: number; sessionID: string; recordedAt: number }
+  | { kind: "llm"; seq: number; request: RequestFingerprint; events: RecordedEvent[]; error?: RecordedError }
+  | { kind: "tool"; seq: number; callID?: string; tool: string; input: unknown; result?: unknown; error?: RecordedError }
+
+type StreamFn = (input: any) => Promise<{ fullStream: AsyncIterable<StreamEvent> }>
+type ToolExecute<R> = (input: any, ctx?: { callID?: string }) => Promise<R>
+
+function serializeError(e: any): RecordedError {
+  const headers = e?.responseHeaders ?? e?.headers
+  return {
+    name: e?.name ?? "Error",
+    message: e?.message ?? String(e),
+    ...(typeof e?.status === "number" && { status: e.status }),
+    ...(typeof e?.code === "string" && { code: e.code }),
+    ...(headers && typeof headers === "object" && { headers: Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, String(v)])) }),
+    ...(e?.isRetryable !== undefined && { isRetryable: e.isRetryable }),
+    ...(e?.isContextOverflow !== undefined && { isContextOverflow: e.isContextOverflow }),
+  }
+}
+
+function rehydrateError(r: RecordedError): Error {
+  const { name, message, headers, ...rest } = r
+  return Object.assign(new Error(message), { name, ...rest, ...(headers && { responseHeaders: headers }) })
+}
+
+function serializeEvent(event: StreamEvent): RecordedEvent {
+  return event.type === "tool-error" ? { ...event, error: serializeError(event.error) } : event
+}
+
+function rehydrateEvent(event: RecordedEvent): StreamEvent {
+  return event.type === "tool-error" ? { ...event, error: rehydrateError(event.error) } : event
+}
+
+/**
+ * Default fingerprint: model id, offered tool names, and every tool call
+ * found in the message history (AI SDK `tool-call` parts or Anthropic
+ * `tool_use` blocks). Pass your own when the request shape differs.
+ */
+export function fingerprintRequest(input: any): RequestFingerprint {
+  const toolCalls: RequestFingerprint["toolCalls"] = []
+  const walk = (node: any) => {
+    if (!node || typeof node !== "object") return
+    if (Array.isArray(node)) return node.forEach(walk)
+    if (node.type === "tool-call" && typeof node.toolName === "string") {
+      toolCalls.push({ tool: node.toolName, input: node.input ?? node.args })
+    } else if (node.type === "tool_use" && typeof node.name === "string") {
+      toolCalls.push({ tool: node.name, input: node.input })
+    } else {
+      Object.values(node).forEach(walk)
+    }
+  }
+  walk(input?.messages)
+  return {
+    model: typeof input?.model === "string" ? input.model : input?.model?.id,
+    tools: Object.keys(input?.tools ?? {}).sort(),
+    toolCalls,
+  }
+}
+
+// ============================================================
+// 2. RECORDER
+// ============================================================
+
+/**
+ * Wrap the live stream function and tools; every interaction is appended to
+ * `file` as it completes. Entries carry a sequence number taken when the
+ * call STARTS, so tools that run while a stream is still open sort after it.
+ */
+export function createRecorder(file: string, opts: { sessionID: string; fingerprint?: (input: any) => RequestFingerprint }) {
+  let seq = 0
+  let writes: Promise<void> = fs.writeFile(
+    file,
+    JSON.stringify({ kind: "header", version: CASSETTE_VERSION, sessionID: opts.sessionID, recordedAt: Date.now() }) + "\n",
+  )
+  // Appends are chained so lines land in completion order, never interleaved
+  const write = (entry: CassetteEntry) => {
+    writes = writes.then(() => fs.appendFile(file, JSON.stringify(entry) + "\n"))
+    return writes
+  }
+  const fingerprint = opts.fingerprint ?? fingerprintRequest
+
+  return {
+    callLLM(inner: StreamFn): StreamFn {
+      return async (input) => {
+        const entrySeq = seq++
+        const request = fingerprint(input)
+        let stream: Awaited<ReturnType<StreamFn>>
+        try {
+          stream = await inner(input)
+        } catch (e) {
+          await write({ kind: "llm", seq: entrySeq, request, events: [], error: serializeError(e) })
+          throw e
+        }
+
+        const events: RecordedEvent[] = []
+        async function* tee() {
+          let error: RecordedError | undefined
+          try {
+            for await (const event of stream.fullStream) {
+              events.push(serializeEvent(event))
+              yield event
+            }
+          } catch (e) {
+            error = serializeError(e)
+            throw e
+          } finally {
+            // Also runs when the consumer breaks early (compaction): replay stops at the same event
+            await write({ kind: "llm", seq: entrySeq, request, events, ...(error && { error }) })
+          }
+        }
+        return { ...stream, fullStream: tee() }
+      }
+    },
+
+    tool<R>(name: string, execute: ToolExecute<R>): ToolExecute<R> {
+      return async (input, ctx) => {
+        const entrySeq = seq++
+        const base = { kind: "tool" as const, seq: entrySeq, callID: ctx?.callID, tool: name, input }
+        try {
+          const result = await execute(input, ctx)
+          await write({ ...base, result })
+          return result
+        } catch (e) {
+          await write({ ...base, error: serializeError(e) })
+          throw e
+        }
+      }
+    },
+
+    /** Resolves once every pending line is on disk. */
+    flush(): Promise<void> {
+      return writes
+    },
+  }
+}
+
+// ============================================================
+// 3. REPLAY
+// ============================================================
+
+export interface ReplayDivergence {
+  kind: "request" | "tool_name" | "tool_input" | "extra_llm_call" | "extra_tool_call" | "unconsumed"
+  seq?: number
+  /** JSON path of the first difference, e.g. "toolCalls[2].input.filePath". */
+  path?: string
+  expected?: unknown
+  actual?: unknown
+  detail: string
+}
+
+export class ReplayDivergenceError extends Error {
+  constructor(readonly divergence: ReplayDivergence) {
+    super(`Replay diverged: ${divergence.detail}${divergence.path ? ` at ${divergence.path}` : ""}`)
+    this.name = "ReplayDivergenceError"
+  }
+}
+
+export async function loadCassette(file: string): Promise<CassetteEntry[]> {
+  const text = await fs.readFile(file, "utf8")
+  const entries = text.split("\n").filter(Boolean).map((line) => JSON.parse(line) as CassetteEntry)
+  const header = entries[0]
+  if (header?.kind !== "header" || header.version !== CASSETTE_VERSION) {
+    throw new Error(`${file}: not a v${CASSETTE_VERSION} cassette`)
+  }
+  return entries
+}
+
+/** First differing path between two JSON values, or undefined when equal. */
+function firstDifference(expected: unknown, actual: unknown, path = ""): { path: string; expected: unknown; actual: unknown } | undefined {
+  if (stableStringify(expected) === stableStringify(actual)) return undefined
+  if (expected && actual && typeof expected === "object" && typeof actual === "object"
+    && Array.isArray(expected) === Array.isArray(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)])
+    for (const key of [...keys].sort((a, b) => Number(a) - Number(b) || a.localeCompare(b))) {
+      const child = Array.isArray(expected) ? `${path}[${key}]` : path ? `${path}.${key}` : key
+      const diff = firstDifference((expected as any)[key], (actual as any)[key], child)
+      if (diff) return diff
+    }
+  }
+  return { path: path || "(root)", expected, actual }
+}
+
+/**
+ * Serve a cassette in place of the network and the tools. Tools never run:
+ * each call is checked against the recording and gets the recorded result.
+ *
+ * onDivergence "throw" (default) fails at the first mismatch, for tests;
+ * "collect" keeps replaying and reports everything from finish().
+ */
+export function createReplayProvider(
+  entries: CassetteEntry[],
+  opts: { onDivergence?: "throw" | "collect"; fingerprint?: (input: any) => RequestFingerprint } = {},
+) {
+  const byStart = (a: { seq: number }, b: { seq: number }) => a.seq - b.seq
+  const llm = entries.filter((e): e is Extract<CassetteEntry, { kind: "llm" }> => e.kind === "llm").sort(byStart)
+  const tools = entries.filter((e): e is Extract<CassetteEntry, { kind: "tool" }> => e.kind === "tool").sort(byStart)
+  const divergences: ReplayDivergence[] = []
+  const fingerprint = opts.fingerprint ?? fingerprintRequest
+
+  const diverge = (d: ReplayDivergence) => {
+    divergences.push(d)
+    if ((opts.onDivergence ?? "throw") === "throw") throw new ReplayDivergenceError(d)
+  }
+
+  return {
+    callLLM: (async (input) => {
+      const recorded = llm.shift()
+      if (!recorded) {
+        diverge({ kind: "extra_llm_call", detail: "LLM called more times than recorded" })
+        return { fullStream: (async function* () {})() }
+      }
+      const diff = firstDifference(recorded.request, fingerprint(input))
+      if (diff) diverge({ kind: "request", seq: recorded.seq, ...diff, detail: "LLM request differs from recording" })
+      if (recorded.error && recorded.events.length === 0) throw rehydrateError(recorded.error)
+
+      async function* replay() {
+        for (const event of recorded!.events) yield rehydrateEvent(event)
+        if (recorded!.error) throw rehydrateError(recorded!.error)
+      }
+      return { fullStream: replay() }
+    }) as StreamFn,
+
+    tool<R>(name: string, _execute?: ToolExecute<R>): ToolExecute<R> {
+      return async (input, ctx) => {
+        // Parallel tools may start in a different order: prefer the call id
+        const index = ctx?.callID ? tools.findIndex((t) => t.callID === ctx.callID) : -1
+        const [recorded] = tools.splice(index >= 0 ? index : 0, 1)
+        if (!recorded) {
+          diverge({ kind: "extra_tool_call", actual: { tool: name, input }, detail: `unrecorded call to ${name}` })
+          throw new Error(`replay: no recorded result for ${name}`)
+        }
+        if (recorded.tool !== name) {
+          diverge({ kind: "tool_name", seq: recorded.seq, expected: recorded.tool, actual: name, detail: `expected ${recorded.tool}, runtime called ${name}` })
+        } else {
+          const diff = firstDifference(recorded.input, input, "input")
+          if (diff) diverge({ kind: "tool_input", seq: recorded.seq, ...diff, detail: `${name} called with different parameters` })
+        }
+        if (recorded.error) throw rehydrateError(recorded.error)
+        return recorded.result as R
+      }
+    },
+
+    /** All divergences, including recorded calls the run never made. */
+    finish(): ReplayDivergence[] {
+      for (const left of [...llm, ...tools]) {
+        divergences.push({
+          kind: "unconsumed",
+          seq: left.seq,
+          expected: left.kind === "tool" ? { tool: left.tool, input: left.input } : left.request,
+          detail: `recorded ${left.kind === "tool" ? `call to ${left.tool}` : "LLM call"} was never made`,
+        })
+      }
+      llm.length = 0
+      tools.length = 0
+      return divergences
+    },
+  }
+}
@@ -11,6 +11,7 @@
 import { $ } from "bun"
 import path from "path"
 import fs from "fs/promises"
+import { clearCachedResults } from "./tool_result_cache"
 
 // ============================================================
 // 1. FILESYSTEM SNAPSHOTS VIA GIT
@@ -28,7 +29,7 @@ function gitdir(projectId: string): string {
  * Returns a hash that can be used for diffing and reverting.
  * Uses git write-tree (not commit) — O(1) snapshot.
  */
-async function track(projectId: string, worktree: string): Promise<string | undefined> {
+export async function track(projectId: string, worktree: string): Promise<string | undefined> {
   const git = gitdir(projectId)
 
   // Initialize git repo for tracking (first time only)
@@ -198,7 +199,7 @@ async function restoreFull(projectId: string, worktree: string, snapshot: string
  * 3. Compute diffs for UI display
  * 4. Store revert state on session (enables unrevert)
  */
-async function revertSession(input: { sessionID: string; messageID: string; partID?: string }) {
+export async function revertSession(input: { sessionID: string; messageID: string; partID?: string }) {
   const messages = await getMessages(input.sessionID)
   const session = await getSession(input.sessionID)
   let revertPoint: { messageID: string; partID?: string } | undefined
@@ -230,8 +231,9 @@ async function revertSession(input: { sessionID: string; messageID: string; part
   // Save snapshot for potential unrevert
   const snapshot = session.revert?.snapshot ?? (await track("project-id", "/worktree"))
 
-  // Revert files
+  // Revert files (cached tool results may describe the undone edits)
   await revertFiles("project-id", "/worktree", patches)
+  clearCachedResults(input.sessionID)
 
   // Compute diffs for UI
   const diffs = snapshot ? await diffFull("project-id", "/worktree", snapshot, "HEAD") : []
@@ -255,6 +257,7 @@ async function unrevertSession(sessionID: string) {
 
   // Restore to the snapshot taken before revert
   await restoreFull("project-id", "/worktree", session.revert.snapshot)
+  clearCachedResults(sessionID)
   session.revert = undefined
   return session
 }
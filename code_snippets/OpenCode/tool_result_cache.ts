@@ -0,0 +1,134 @@
+/**
+ * OpenCode Tool Result Cache (Idempotent Read-Only Tools)
+ *
+ * Agents re-run the same read/glob/grep/webfetch within a session. A cached
+ * result is served while ALL of these hold:
+ *   - younger than the policy's TTL
+ *   - no write in this session has touched what it read (tool_system.ts
+ *     drops entries whose read side overlaps a write: an edit of /src/a.ts
+ *     drops read(/src/a.ts) and grep(/src); bash and other exclusive tools
+ *     drop everything)
+ *   - every file it read still has the mtime it had before the tool ran
+ *     (catches edits from outside the session; a directory's mtime only
+ *     changes when entries are added or removed)
+ * Network reads (webfetch) depend on nothing local, so only the TTL applies.
+ * A hit re-asks every permission the original run asked, so a rule changed
+ * to "deny" since then still blocks it. Revert, compaction and session
+ * deletion drop the session's cache entirely.
+ *
+ * Kept apart from tool_system.ts so snapshot revert and compaction can clear
+ * it without importing the tool system (which snapshots through them).
+ *
+ * Source: packages/opencode/src/tool/ (extended)
+ */
+
+import fs from "fs/promises"
+import { GlobalBus, SessionDeleted, type GlobalEvent } from "./event_bus_sse"
+import { Instance } from "./instance_context"
+
+// ============================================================
+// 1. POLICY & ENTRIES
+// ============================================================
+
+export interface CachePolicy<A = any> {
+  ttlMs: number
+  // Normalize args before hashing (e.g. resolve paths). Default: args as given
+  key?(args: A): unknown
+}
+
+type FileMtimes = Array<[file: string, mtimeMs: number | null]>
+
+interface CacheEntry {
+  result: any
+  storedAt: number
+  expiresAt: number
+  reads: string[]
+  mtimes: FileMtimes
+  asks: any[]
+}
+
+// ============================================================
+// 2. PER-INSTANCE STATE
+// ============================================================
+
+// sessionID → key → entry, one map per instance. The SessionDeleted listener
+// is registered with the state and removed when the instance is disposed.
+const state = Instance.state(
+  () => {
+    const caches = new Map<string, Map<string, CacheEntry>>()
+    const onEvent = (event: GlobalEvent) => {
+      if (event.payload?.type === SessionDeleted.type) caches.delete(event.payload.properties.info.id)
+    }
+    GlobalBus.on("event", onEvent)
+    return { caches, onEvent }
+  },
+  async ({ caches, onEvent }) => {
+    GlobalBus.off("event", onEvent)
+    caches.clear()
+  },
+)
+
+// ============================================================
+// 3. LOOKUP, STORE, INVALIDATION
+// ============================================================
+
+async function mtimeOf(file: string): Promise<number | null> {
+  return fs.stat(file).then((s) => s.mtimeMs, () => null)
+}
+
+function filePaths(resources: string[]): string[] {
+  return resources.filter((r) => r.startsWith("file:")).map((r) => r.slice("file:".length))
+}
+
+export async function snapshotMtimes(reads: string[]): Promise<FileMtimes> {
+  return Promise.all(filePaths(reads).map(async (f) => [f, await mtimeOf(f)] as [string, number | null]))
+}
+
+export async function lookupCachedResult<R, A>(
+  sessionID: string,
+  key: string,
+): Promise<{ result: R; ageMs: number; asks: A[] } | undefined> {
+  const cache = state().caches.get(sessionID)
+  const entry = cache?.get(key)
+  if (!cache || !entry) return undefined
+  const now = Date.now()
+  if (now >= entry.expiresAt) {
+    cache.delete(key)
+    return undefined
+  }
+  for (const [file, mtime] of entry.mtimes) {
+    if ((await mtimeOf(file)) !== mtime) {
+      cache.delete(key)
+      return undefined
+    }
+  }
+  return { result: entry.result, ageMs: now - entry.storedAt, asks: entry.asks }
+}
+
+export function storeCachedResult(
+  sessionID: string,
+  key: string,
+  entry: Pick<CacheEntry, "result" | "reads" | "mtimes" | "asks">,
+  ttlMs: number,
+) {
+  const { caches } = state()
+  const now = Date.now()
+  let cache = caches.get(sessionID)
+  if (!cache) caches.set(sessionID, (cache = new Map()))
+  cache.set(key, { ...entry, storedAt: now, expiresAt: now + ttlMs })
+}
+
+// Drops every entry whose reads `stale` flags; the caller decides what a
+// write overlaps (tool_system.ts: resource-set conflicts)
+export function dropCachedResults(sessionID: string, stale: (reads: string[]) => boolean) {
+  const cache = state().caches.get(sessionID)
+  if (!cache) return
+  for (const [key, entry] of cache) {
+    if (stale(entry.reads)) cache.delete(key)
+  }
+}
+
+// Session reverted (snapshot restore rewrites files) or compacted
+export function clearCachedResults(sessionID: string) {
+  state().caches.delete(sessionID)
+}
@@ -1,20 +1,34 @@
 /**
  * OpenCode Tool System Patterns
  *
- * Tool definition, registry, permission checking, output truncation,
- * batch execution, and fuzzy edit matching.
+ * Tool definition, registry, permission checking, structure-aware output truncation,
+ * result caching for idempotent reads, conflict-aware parallel scheduling,
+ * batch execution, fuzzy edit matching, and all-or-nothing multi-file patches.
  *
  * Source: packages/opencode/src/tool/
  */
 
+import fs from "fs/promises"
+import path from "path"
 import z from "zod"
+import { truncateStructured } from "../OpenClaw/structured_truncation"
+import { hashToolCall } from "../OpenClaw/tool_loop_detection"
+import { Instance } from "./instance_context"
+import { track } from "./snapshot_revert"
+import {
+  dropCachedResults,
+  lookupCachedResult,
+  snapshotMtimes,
+  storeCachedResult,
+  type CachePolicy,
+} from "./tool_result_cache"
 
 // ============================================================
 // 1. TOOL DEFINITION PATTERN
 // ============================================================
 
 namespace Tool {
-  interface Context {
+  export interface Context {
     sessionID: string
     messageID: string
     agent: string
@@ -22,10 +36,17 @@ namespace Tool {
     callID?: string
     messages: any[]
     metadata(input: { title?: string; metadata?: any }): void
-    ask(input: { permission: string; patterns: string[]; always?: string[]; metadata?: any }): Promise<void>
+    ask(input: AskRequest): Promise<void>
   }
 
-  interface Result {
+  export interface AskRequest {
+    permission: string
+    patterns: string[]
+    always?: string[]
+    metadata?: any
+  }
+
+  export interface Result {
     title: string
     output: string
     metadata: Record<string, any>
@@ -33,13 +54,17 @@ namespace Tool {
   }
 
   // Tool.define() wraps execute with validation + truncation
-  function define<P extends z.ZodType>(
+  export function define<P extends z.ZodType>(
     id: string,
     init: () => Promise<{
       description: string
       parameters: P
       execute(args: z.infer<P>, ctx: Context): Promise<Result>
       formatValidationError?(error: z.ZodError): string
+      // What a call touches, for the scheduler (section 7). Omitted = exclusive.
+      resources?(args: z.infer<P>): ResourceSet
+      // Idempotent read-only tools only (section 3)
+      cache?: CachePolicy<z.infer<P>>
     }>,
   ) {
     return {
@@ -48,7 +73,7 @@ namespace Tool {
         const toolInfo = await init()
         const originalExecute = toolInfo.execute
 
-        // WRAPPER: Validation + Truncation
+        // WRAPPER: Validation + Cache + Truncation
         toolInfo.execute = async (args, ctx) => {
           // 1. Zod validation
           try {
@@ -60,12 +85,38 @@ namespace Tool {
             throw new Error(`Tool ${id} called with invalid arguments: ${error}. Please rewrite the input.`)
           }
 
-          // 2. Execute
-          const result = await originalExecute(args, ctx)
+          // 2. Cache lookup (read-only tools that opted in). A hit replays the
+          // permission requests the original run made: the answer may differ now
+          const resources = resourcesFor(toolInfo, args)
+          const cacheKey = toolInfo.cache && hashToolCall(id, toolInfo.cache.key?.(args) ?? args)
+          if (cacheKey) {
+            const hit = await lookupCachedResult<Result, AskRequest>(ctx.sessionID, cacheKey)
+            if (hit) {
+              for (const request of hit.asks) await ctx.ask(request)
+              return { ...hit.result, metadata: { ...hit.result.metadata, cache: { hit: true, ageMs: hit.ageMs } } }
+            }
+          }
+
+          // mtimes are taken before executing: a file changed while the tool
+          // ran must not be cached as matching the result
+          const mtimes = cacheKey ? await snapshotMtimes(resources.read) : []
+          const asks: AskRequest[] = []
+          const runCtx: Context = cacheKey
+            ? { ...ctx, ask: (request) => (asks.push(request), ctx.ask(request)) }
+            : ctx
+
+          // 3. Execute. Anything this call may have written drops the cached
+          // reads it overlaps — even on failure, the write may be half done.
+          let result: Result
+          try {
+            result = await originalExecute(args, runCtx)
+          } finally {
+            if (resources.write.length > 0) invalidateCachedResults(ctx.sessionID, resources.write)
+          }
 
-          // 3. Auto-truncation (2000 lines / 50KB)
+          // 4. Auto-truncation (2000 lines / 50KB)
           const truncated = truncateOutput(result.output)
-          return {
+          const final: Result = {
             ...result,
             output: truncated.content,
             metadata: {
@@ -74,6 +125,10 @@ namespace Tool {
               ...(truncated.truncated && { outputPath: truncated.outputPath }),
             },
           }
+          if (cacheKey) {
+            storeCachedResult(ctx.sessionID, cacheKey, { result: final, reads: resources.read, mtimes, asks }, toolInfo.cache!.ttlMs)
+          }
+          return final
         }
 
         return toolInfo
@@ -101,18 +156,39 @@ function truncateOutput(text: string): { content: string; truncated: boolean; ou
   const filepath = `/tmp/tool-output/${generateId("tool")}`
   writeFile(filepath, text)
 
-  const truncatedLines = lines.slice(0, MAX_LINES).join("\n")
   const hint = `\n\n[Output truncated. Full output saved to: ${filepath}]\nUse Grep to search or Read with offset/limit to paginate.`
 
+  // JSON / diff / stack trace / log: cut along the structure; plain text keeps the first MAX_LINES
+  const structured = truncateStructured(text, MAX_BYTES - hint.length)
+  const kept =
+    structured && fitsLimits(structured.text) ? structured.text : lines.slice(0, MAX_LINES).join("\n")
+
   return {
-    content: truncatedLines + hint,
+    content: kept + hint,
     truncated: true,
     outputPath: filepath,
   }
 }
 
+// Structured budgets are in chars; multi-byte output can still exceed MAX_BYTES
+function fitsLimits(text: string): boolean {
+  return text.split("\n").length <= MAX_LINES && new TextEncoder().encode(text).length <= MAX_BYTES
+}
+
 // ============================================================
-// 3. TOOL REGISTRY & FILTERING
+// 3. RESULT CACHE (IDEMPOTENT READ-ONLY TOOLS)
+// ============================================================
+
+// Storage, TTL and mtime checks live in tool_result_cache.ts. What a write
+// invalidates is decided here, with the scheduler's resource sets: anything
+// a write overlaps is dropped from the session's cache.
+
+export function invalidateCachedResults(sessionID: string, writes: string[]) {
+  dropCachedResults(sessionID, (reads) => conflicts({ read: reads, write: [] }, { read: [], write: writes }))
+}
+
+// ============================================================
+// 4. TOOL REGISTRY & FILTERING
 // ============================================================
 
 // Tools loaded from multiple sources
@@ -158,7 +234,7 @@ async function loadTools(model: { providerID: string; modelID: string }, agent?:
 }
 
 // ============================================================
-// 4. EDIT TOOL: 9-STAGE FUZZY MATCHING
+// 5. EDIT TOOL: 9-STAGE FUZZY MATCHING
 // ============================================================
 
 // The edit tool uses a fallback chain of replacement strategies
@@ -215,16 +291,23 @@ function* LineTrimmedReplacer(_content: string, oldString: string) {
 }
 
 function* WhitespaceNormalizedReplacer(content: string, oldString: string) {
-  // Normalize whitespace in both content and search string
-  const normalized = oldString.replace(/\s+/g, " ")
-  const contentNormalized = content.replace(/\s+/g, " ")
-  const index = contentNormalized.indexOf(normalized)
-  if (index !== -1) {
-    // Map back to original content positions
-    yield content.slice(index, index + normalized.length) // simplified
-  }
+  // Any whitespace run inside oldString matches any whitespace run in content;
+  // leading/trailing indentation matches the line's own, so it is replaced too
+  const body = oldString.trim()
+  if (!body) return
+  const lead = /^\s/.test(oldString) ? "[ \\t]*" : ""
+  const trail = /\s$/.test(oldString) ? "[ \\t]*" : ""
+  const pattern = new RegExp(lead + body.split(/\s+/).map(escapeRegExp).join("\\s+") + trail, "g")
+  for (const match of content.matchAll(pattern)) yield match[0]
 }
 
+const BLOCK_ANCHOR_MIN_SIMILARITY = 0.5
+// Anchors like "}" repeat all over a file. Each first-line anchor is paired
+// with one last-line anchor only — the one whose span is closest to
+// oldString's line count, within twice that — and at most this many pairs
+// are compared per call
+const BLOCK_ANCHOR_MAX_PAIRS = 50
+
 function* BlockAnchorReplacer(content: string, oldString: string) {
   // Match first and last lines as anchors, check similarity of middle
   const lines = oldString.split("\n")
@@ -232,17 +315,19 @@ function* BlockAnchorReplacer(content: string, oldString: string) {
   const first = lines[0].trim()
   const last = lines[lines.length - 1].trim()
   const contentLines = content.split("\n")
+  const expectedEnd = lines.length - 1 // offset of the last line from the first
+  let pairs = 0
   for (let i = 0; i < contentLines.length; i++) {
-    if (contentLines[i].trim() === first) {
-      for (let j = i + 1; j < contentLines.length; j++) {
-        if (contentLines[j].trim() === last) {
-          const candidate = contentLines.slice(i, j + 1).join("\n")
-          if (similarity(candidate, oldString) > 0.5) {
-            yield candidate
-          }
-        }
-      }
+    if (contentLines[i].trim() !== first) continue
+    let end = -1
+    for (let j = i + 1; j < Math.min(contentLines.length, i + lines.length * 2); j++) {
+      if (contentLines[j].trim() !== last) continue
+      if (end === -1 || Math.abs(j - i - expectedEnd) < Math.abs(end - i - expectedEnd)) end = j
     }
+    if (end === -1) continue
+    if (++pairs > BLOCK_ANCHOR_MAX_PAIRS) return
+    const candidate = contentLines.slice(i, end + 1).join("\n")
+    if (isSimilar(candidate, oldString, BLOCK_ANCHOR_MIN_SIMILARITY)) yield candidate
   }
 }
 
@@ -263,12 +348,531 @@ function similarity(a: string, b: string): number {
   return (longer.length - editDistance(longer, shorter)) / longer.length
 }
 
-function editDistance(_a: string, _b: string): number {
-  return 0 // placeholder
+// similarity(a, b) > threshold, without finishing the distance once it can't be
+function isSimilar(a: string, b: string, threshold: number): boolean {
+  const longer = Math.max(a.length, b.length)
+  if (longer === 0) return true
+  // similarity > threshold ⇔ distance < longer * (1 - threshold)
+  const maxDistance = Math.ceil(longer * (1 - threshold)) - 1
+  return editDistance(a, b, maxDistance) <= maxDistance
+}
+
+// Levenshtein distance, two rows at a time. Past `max` the exact value doesn't
+// matter: returns max + 1 as soon as every cell of a row exceeds it (row
+// minimums never decrease) or the lengths alone differ by more
+function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function sameIgnoringWhitespace(a: string, b: string): boolean {
+  return a.replace(/\s+/g, " ").trim() === b.replace(/\s+/g, " ").trim()
+}
+
+// ============================================================
+// 6. APPLY_PATCH: MULTI-FILE, ALL-OR-NOTHING
+// ============================================================
+
+// The patch envelope GPT models are trained on:
+//
+//   *** Begin Patch
+//   *** Add File: src/new.ts          every body line starts with "+"
+//   +export const x = 1
+//   *** Delete File: src/old.ts
+//   *** Update File: src/a.ts
+//   *** Move to: src/b.ts             optional: rename, with or without hunks
+//   @@ function foo() {               optional anchor: hunk matches after this line
+//    context
+//   -removed
+//   +added
+//   *** End of File                   optional: pure insertion goes at the end
+//   *** End Patch
+//
+// Three phases, and nothing is written until the first two succeed:
+//   1. Parse the whole envelope
+//   2. Plan every file in memory: each hunk is located with the edit tool's
+//      replacer tiers that yield real text of the file (exact first, then
+//      whitespace-tolerant, then anchors), and must match exactly once. ALL
+//      problems are collected, so the model can fix the patch in one round
+//      instead of one error per retry
+//   3. Snapshot the worktree via track(), then write. If any write fails,
+//      every file already touched is put back the way it was
+
+type PatchHunk = {
+  line: number // 1-based line of the hunk in the patch, for error messages
+  anchor?: string
+  oldText: string
+  newText: string
+  lines: Array<{ tag: " " | "-" | "+"; text: string }>
+  endOfFile: boolean
+}
+
+type PatchOp =
+  | { type: "add"; path: string; content: string }
+  | { type: "delete"; path: string }
+  | { type: "update"; path: string; moveTo?: string; hunks: PatchHunk[] }
+
+const FILE_HEADER = /^\*\*\* (Add|Delete|Update) File: (.+)$/
+
+function parsePatch(patchText: string): PatchOp[] {
+  const lines = patchText.replace(/\r\n/g, "\n").split("\n")
+  const begin = lines.findIndex((l) => l.trim() === "*** Begin Patch")
+  const end = lines.findIndex((l) => l.trim() === "*** End Patch")
+  if (begin === -1) throw new Error("Patch must start with '*** Begin Patch'")
+  if (end < begin) throw new Error("Patch must end with '*** End Patch'")
+
+  const ops: PatchOp[] = []
+  let i = begin + 1
+  const fail = (message: string): never => {
+    throw new Error(`Patch line ${i + 1}: ${message}`)
+  }
+
+  while (i < end) {
+    const header = lines[i].match(FILE_HEADER)
+    if (!header) fail(`expected '*** Add File:', '*** Delete File:' or '*** Update File:', got "${lines[i]}"`)
+    const [, kind, file] = header!
+    i++
+
+    if (kind === "Delete") {
+      ops.push({ type: "delete", path: file.trim() })
+      continue
+    }
+
+    if (kind === "Add") {
+      const body: string[] = []
+      for (; i < end && !lines[i].startsWith("*** "); i++) {
+        if (!lines[i].startsWith("+")) fail(`lines of an added file must start with "+"`)
+        body.push(lines[i].slice(1))
+      }
+      ops.push({ type: "add", path: file.trim(), content: body.length ? body.join("\n") + "\n" : "" })
+      continue
+    }
+
+    const moveTo = lines[i]?.match(/^\*\*\* Move to: (.+)$/)?.[1].trim()
+    if (moveTo) i++
+    const hunks: PatchHunk[] = []
+    while (i < end && !FILE_HEADER.test(lines[i])) {
+      const hunk: PatchHunk = { line: i + 1, oldText: "", newText: "", lines: [], endOfFile: false }
+      if (lines[i].startsWith("@@")) {
+        hunk.anchor = lines[i].slice(2).trim() || undefined
+        i++
+      }
+      const oldLines: string[] = []
+      const newLines: string[] = []
+      for (; i < end && !lines[i].startsWith("@@") && !lines[i].startsWith("*** "); i++) {
+        const [tag, body] = [lines[i][0] ?? " ", lines[i].slice(1)] // "" is a blank context line
+        if (tag === " ") oldLines.push(body), newLines.push(body)
+        else if (tag === "-") oldLines.push(body)
+        else if (tag === "+") newLines.push(body)
+        else fail(`hunk lines must start with " ", "-" or "+"`)
+        hunk.lines.push({ tag: tag as " " | "-" | "+", text: body })
+      }
+      if (lines[i]?.trim() === "*** End of File") {
+        hunk.endOfFile = true
+        i++
+      }
+      if (oldLines.length === 0 && newLines.length === 0) fail(`expected a hunk, got "${lines[i]}"`)
+      hunk.oldText = oldLines.join("\n")
+      hunk.newText = newLines.join("\n")
+      hunks.push(hunk)
+    }
+    if (hunks.length === 0 && !moveTo) fail(`'*** Update File: ${file.trim()}' has no hunks`)
+    ops.push({ type: "update", path: file.trim(), moveTo, hunks })
+  }
+  return ops
+}
+
+// Files a patch writes, for the scheduler — a rename writes both paths.
+// Relative to Instance.directory, like every path in the patch
+function patchedFiles(patchText: string): string[] {
+  return [...patchText.matchAll(/^\*\*\* (?:(?:Add|Update|Delete) File|Move to): (.+)$/gm)].map((m) => m[1].trim())
+}
+
+interface HunkMatch {
+  index: number
+  candidate: string
+  strategy: string // replacer that found it
+  confidence: number // 1 for an exact match, else similarity to the hunk's old text
+}
+
+// applyEdit's tiers that yield text actually present in the file; the rest
+// are sketches above and never locate anything a hunk could trust. Unlike
+// REPLACERS, BlockAnchor comes last: it accepts a merely similar body, and a
+// patch has no old_string the model can correct, so every tier that matches
+// the same words (whitespace aside) gets its turn first
+const HUNK_REPLACERS: Replacer[] = [
+  SimpleReplacer,
+  LineTrimmedReplacer,
+  WhitespaceNormalizedReplacer,
+  BlockAnchorReplacer,
+]
+
+// A hunk replaces exactly one place: an ambiguous candidate falls through to
+// the next tier, never to "replace all". Every candidate is re-checked
+// against the hunk's old text — whitespace may differ, words may not —
+// except anchor matches, which only need a similar body
+function matchHunk(content: string, oldText: string): HunkMatch | null {
+  for (const replacer of HUNK_REPLACERS) {
+    for (const candidate of replacer(content, oldText)) {
+      const index = content.indexOf(candidate)
+      if (!candidate || index === -1 || content.indexOf(candidate, index + 1) !== -1) continue
+      const verified =
+        replacer === BlockAnchorReplacer
+          ? isSimilar(candidate, oldText, BLOCK_ANCHOR_MIN_SIMILARITY)
+          : sameIgnoringWhitespace(candidate, oldText)
+      if (!verified) continue
+      const confidence = replacer === SimpleReplacer ? 1 : similarity(candidate, oldText)
+      return { index, candidate, strategy: replacer.name, confidence }
+    }
+  }
+  return null
+}
+
+interface FilePlan {
+  op: PatchOp
+  source: string // absolute path
+  target: string // absolute path written (differs from source on rename)
+  before: string | null // null: file doesn't exist yet
+  after: string | null // null: file is deleted
+  hunks: Array<{ line: number; strategy: string; confidence: number }>
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  return fs.readFile(file, "utf8").catch(() => null)
+}
+
+async function planPatch(ops: PatchOp[], root: string): Promise<{ plans: FilePlan[]; errors: string[] }> {
+  const plans: FilePlan[] = []
+  const errors: string[] = []
+  const claimed = new Set<string>()
+  const claim = (file: string) => {
+    if (claimed.has(file)) errors.push(`${path.relative(root, file)}: touched more than once in one patch`)
+    claimed.add(file)
+  }
+
+  for (const op of ops) {
+    const source = path.resolve(root, op.path)
+    const target = op.type === "update" && op.moveTo ? path.resolve(root, op.moveTo) : source
+    const rel = path.relative(root, source)
+    claim(source)
+    if (target !== source) claim(target)
+
+    const before = await readIfExists(source)
+    if (op.type === "add") {
+      if (before !== null) errors.push(`${rel}: Add File, but the file already exists`)
+      plans.push({ op, source, target, before, after: op.content, hunks: [] })
+      continue
+    }
+    if (before === null) {
+      errors.push(`${rel}: ${op.type === "delete" ? "Delete" : "Update"} File, but the file does not exist`)
+      continue
+    }
+    if (op.type === "delete") {
+      plans.push({ op, source, target, before, after: null, hunks: [] })
+      continue
+    }
+    if (target !== source && (await readIfExists(target)) !== null) {
+      errors.push(`${path.relative(root, target)}: Move to, but the file already exists`)
+    }
+
+    // Hunks apply top to bottom; each one searches after the previous one
+    let content = before
+    let cursor = 0
+    const hunks: FilePlan["hunks"] = []
+    for (const hunk of op.hunks) {
+      let from = cursor
+      if (hunk.anchor) {
+        const anchorAt = findAnchorLine(content, hunk.anchor, cursor)
+        if (anchorAt === -1) {
+          errors.push(`${rel}: hunk at patch line ${hunk.line}: anchor "@@ ${hunk.anchor}" not found`)
+          continue
+        }
+        from = anchorAt
+      }
+
+      if (!hunk.oldText) {
+        // Pure insertion: right after the anchor line, or at the end of the file
+        const at = hunk.anchor && !hunk.endOfFile ? from : content.length
+        const sep = at > 0 && content[at - 1] !== "\n" ? "\n" : ""
+        const inserted = sep + hunk.newText + "\n"
+        content = content.slice(0, at) + inserted + content.slice(at)
+        cursor = at + inserted.length
+        hunks.push({ line: hunk.line, strategy: "insert", confidence: 1 })
+        continue
+      }
+
+      const match = matchHunk(content.slice(from), hunk.oldText)
+      if (!match) {
+        errors.push(`${rel}: hunk at patch line ${hunk.line}: context not found (or matches more than one place)`)
+        continue
+      }
+      const index = from + match.index
+      const replacement = replaceHunkLines(hunk, match.candidate)
+      content = content.slice(0, index) + replacement + content.slice(index + match.candidate.length)
+      cursor = index + replacement.length
+      hunks.push({ line: hunk.line, strategy: match.strategy, confidence: match.confidence })
+    }
+    plans.push({ op, source, target, before, after: content, hunks })
+  }
+  return { plans, errors }
+}
+
+// Text that replaces a matched hunk. Context lines keep the file's own text,
+// so a loose match (trimmed, whitespace-normalized, anchored) doesn't re-indent
+// or re-space lines the patch only quoted; only -/+ lines change. When the
+// match has a different line count than the hunk's old side, only the leading
+// and trailing context runs can be paired with file lines.
+function replaceHunkLines(hunk: PatchHunk, candidate: string): string {
+  const fileLines = candidate.split("\n")
+  const oldCount = hunk.lines.filter((l) => l.tag !== "+").length
+  if (fileLines.length === oldCount) {
+    const out: string[] = []
+    let k = 0
+    for (const line of hunk.lines) {
+      if (line.tag === "+") out.push(line.text)
+      else if (line.tag === " ") out.push(fileLines[k++])
+      else k++
+    }
+    return out.join("\n")
+  }
+
+  const firstChange = hunk.lines.findIndex((l) => l.tag !== " ")
+  if (firstChange === -1) return candidate
+  let lastChange = hunk.lines.length - 1
+  while (hunk.lines[lastChange].tag === " ") lastChange--
+  const lead = Math.min(firstChange, fileLines.length)
+  const trail = Math.min(hunk.lines.length - 1 - lastChange, fileLines.length - lead)
+  return [
+    ...fileLines.slice(0, lead),
+    ...hunk.lines.slice(firstChange, lastChange + 1).filter((l) => l.tag !== "-").map((l) => l.text),
+    ...fileLines.slice(fileLines.length - trail),
+  ].join("\n")
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = path.relative(dir, file)
+  return rel === "" || (rel.split(path.sep)[0] !== ".." && !path.isAbsolute(rel))
+}
+
+// Offset just past the first line at/after `from` whose trimmed text equals the anchor
+function findAnchorLine(content: string, anchor: string, from: number): number {
+  let start = content.lastIndexOf("\n", from - 1) + 1
+  while (start < content.length) {
+    const end = content.indexOf("\n", start)
+    const lineEnd = end === -1 ? content.length : end
+    if (start >= from && content.slice(start, lineEnd).trim() === anchor) return end === -1 ? lineEnd : end + 1
+    start = lineEnd + 1
+  }
+  return -1
+}
+
+// Write phase. Every file is recorded before it is touched; the first failure
+// puts them all back (newest first) and rethrows.
+async function commitPlans(plans: FilePlan[]) {
+  const undo: Array<{ file: string; content: string | null }> = []
+  const touch = async (file: string, content: string | null) => {
+    undo.push({ file, content: await readIfExists(file) })
+    if (content === null) return fs.rm(file, { force: true })
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, content)
+  }
+  try {
+    for (const plan of plans) {
+      if (plan.after !== null) await touch(plan.target, plan.after)
+      if (plan.after === null || plan.target !== plan.source) await touch(plan.source, null)
+    }
+  } catch (error: any) {
+    for (const { file, content } of undo.reverse()) {
+      await (content === null ? fs.rm(file, { force: true }) : fs.writeFile(file, content)).catch(() => {})
+    }
+    throw new Error(`apply_patch: write failed, all files rolled back: ${error.message}`)
+  }
+}
+
+function describePlan(plan: FilePlan, root: string): string {
+  const rel = (file: string) => path.relative(root, file)
+  if (plan.op.type === "add") return `A ${rel(plan.target)}`
+  if (plan.op.type === "delete") return `D ${rel(plan.source)}`
+  const hunks = plan.hunks.map((h) => (h.strategy === "SimpleReplacer" || h.strategy === "insert" ? "" : ` [${h.strategy} ${h.confidence.toFixed(2)}]`))
+  const renamed = plan.target !== plan.source ? `R ${rel(plan.source)} → ${rel(plan.target)}` : `M ${rel(plan.source)}`
+  return `${renamed} (${plan.hunks.length} hunk${plan.hunks.length === 1 ? "" : "s"})${hunks.join("")}`
+}
+
+const ApplyPatchTool = Tool.define("apply_patch", async () => ({
+  description: "Apply a multi-file patch (add, delete, rename, update). All files change, or none do.",
+  parameters: z.object({
+    patchText: z.string().describe("The full patch, from '*** Begin Patch' to '*** End Patch'"),
+  }),
+  resources: (args): ResourceSet => ({ read: [], write: patchedFiles(args.patchText).map(fileResource) }),
+  async execute(args, ctx) {
+    const root = Instance.directory
+    const ops = parsePatch(args.patchText)
+
+    // Paths that leave the worktree ("../other", absolute) need their own
+    // permission before anything outside is even read
+    const external = ops
+      .flatMap((op) => [op.path, ...(op.type === "update" && op.moveTo ? [op.moveTo] : [])])
+      .map((p) => path.resolve(root, p))
+      .filter((f) => !isInside(Instance.worktree, f))
+    if (external.length > 0) {
+      await ctx.ask({
+        permission: "external_directory",
+        patterns: [...new Set(external.map((f) => path.join(path.dirname(f), "*")))],
+        metadata: { files: external },
+      })
+    }
+
+    const { plans, errors } = await planPatch(ops, root)
+    if (errors.length > 0) {
+      throw new Error(`Patch not applied, nothing was written:\n${errors.map((e) => `- ${e}`).join("\n")}`)
+    }
+
+    const files = [...new Set(plans.flatMap((p) => [p.source, p.target]))]
+    await ctx.ask({
+      permission: "edit",
+      patterns: files.map((f) => path.relative(Instance.worktree, f)),
+      always: ["*"],
+      metadata: { files },
+    })
+
+    // Pre-patch tree: revertFiles(project, worktree, [{ hash: snapshot, files }])
+    // undoes this call after the fact, e.g. from session revert
+    const snapshot = await track(Instance.project.id, Instance.worktree)
+    await commitPlans(plans)
+
+    return {
+      title: `${plans.length} file${plans.length === 1 ? "" : "s"} changed`,
+      output: plans.map((p) => describePlan(p, root)).join("\n"),
+      metadata: {
+        snapshot,
+        files,
+        hunks: plans.flatMap((p) => p.hunks.map((h) => ({ file: path.relative(root, p.source), ...h }))),
+      },
+    }
+  },
+}))
+
+// ============================================================
+// 7. PARALLEL SCHEDULER (RESOURCE SETS)
+// ============================================================
+
+// Each call declares what it reads and writes:
+//   "file:<abs path>"  — a file, or a directory subtree (glob/grep roots)
+//   "network", "process", "todo", ...  — named shared resources
+//   "*"                — everything (bash, task: can't know what they touch)
+// Two calls conflict when either one WRITES something the other reads or
+// writes. Reads never conflict with reads.
+
+export interface ResourceSet {
+  read: string[]
+  write: string[]
+}
+
+export const EXCLUSIVE: ResourceSet = { read: [], write: ["*"] }
+
+// Relative paths are the instance's, not the server process's cwd
+export function fileResource(filePath: string): string {
+  return `file:${path.resolve(Instance.directory, filePath)}`
+}
+
+function overlaps(a: string, b: string): boolean {
+  if (a === "*" || b === "*" || a === b) return true
+  if (!a.startsWith("file:") || !b.startsWith("file:")) return false
+  // Subtree: a read of file:/src overlaps a write of file:/src/a.ts
+  const [x, y] = a.length < b.length ? [a, b] : [b, a]
+  return y.startsWith(x.endsWith(path.sep) ? x : x + path.sep)
+}
+
+function conflicts(a: ResourceSet, b: ResourceSet): boolean {
+  const touches = (writes: string[], other: ResourceSet) =>
+    writes.some((w) => [...other.read, ...other.write].some((r) => overlaps(w, r)))
+  return touches(a.write, b) || touches(b.write, a)
+}
+
+/**
+ * Admission-ordered scheduler. A call starts as soon as no EARLIER call it
+ * conflicts with is still waiting or running, and a concurrency slot is
+ * free — so conflicting calls run in transcript order while independent
+ * later calls overtake them. Calls can be admitted up front (batch) or as
+ * they stream in (session processor); admission order is the order of
+ * run() calls.
+ */
+export function createResourceScheduler(opts: { concurrency?: number } = {}) {
+  const concurrency = opts.concurrency ?? 8
+  type Entry = { resources: ResourceSet; running: boolean; start: () => void }
+  const queue: Entry[] = [] // admitted and not yet finished, in admission order
+
+  function pump() {
+    let running = queue.filter((e) => e.running).length
+    for (let i = 0; i < queue.length && running < concurrency; i++) {
+      const entry = queue[i]
+      if (entry.running) continue
+      if (queue.slice(0, i).some((earlier) => conflicts(earlier.resources, entry.resources))) continue
+      entry.running = true
+      running++
+      entry.start()
+    }
+  }
+
+  function remove(entry: Entry) {
+    const index = queue.indexOf(entry)
+    if (index !== -1) queue.splice(index, 1)
+    pump()
+  }
+
+  return {
+    run<T>(resources: ResourceSet, task: () => Promise<T>, abort?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        if (abort?.aborted) return reject(abort.reason ?? new Error("Aborted"))
+        const onAbort = () => {
+          // Only calls still waiting are dropped; running ones see the signal themselves
+          if (entry.running) return
+          remove(entry)
+          reject(abort!.reason ?? new Error("Aborted"))
+        }
+        const entry: Entry = {
+          resources,
+          running: false,
+          start: () => {
+            abort?.removeEventListener("abort", onAbort)
+            task().then(resolve, reject).finally(() => remove(entry))
+          },
+        }
+        abort?.addEventListener("abort", onAbort, { once: true })
+        queue.push(entry)
+        pump()
+      })
+    },
+  }
+}
+
+/** Resource set for one call of `tool`; tools that don't declare are exclusive. */
+export function resourcesFor(tool: { resources?: (args: any) => ResourceSet } | undefined, args: any): ResourceSet {
+  try {
+    return tool?.resources?.(args) ?? EXCLUSIVE
+  } catch {
+    return EXCLUSIVE // malformed args: validation will reject the call anyway
+  }
 }
 
 // ============================================================
-// 5. BATCH TOOL (PARALLEL MULTI-TOOL)
+// 8. BATCH TOOL (PARALLEL MULTI-TOOL)
 // ============================================================
 
 const BATCH_MAX_CALLS = 25
@@ -281,18 +885,26 @@ async function executeBatch(
 ) {
   const calls = params.tool_calls.slice(0, BATCH_MAX_CALLS)
 
-  const executeCall = async (call: { tool: string; parameters: any }) => {
+  type Prepared =
+    | { call: { tool: string; parameters: any }; error: string }
+    | { call: { tool: string; parameters: any }; tool: any; partID: string }
+
+  const prepare = async (call: { tool: string; parameters: any }): Promise<Prepared> => {
     if (BATCH_DISALLOWED.has(call.tool)) {
-      return { success: false, tool: call.tool, error: `Tool '${call.tool}' not allowed in batch` }
+      return { call, error: `Tool '${call.tool}' not allowed in batch` }
     }
 
     const tool = toolMap.get(call.tool)
     if (!tool) {
-      return { success: false, tool: call.tool, error: `Tool '${call.tool}' not found` }
+      return { call, error: `Tool '${call.tool}' not found` }
     }
 
     const partID = generateId("part")
+    await updateToolState(partID, { status: "pending", input: call.parameters })
+    return { call, tool, partID }
+  }
 
+  const executeCall = async ({ call, tool, partID }: Extract<Prepared, { partID: string }>) => {
     // Track running state
     await updateToolState(partID, { status: "running", input: call.parameters })
 
@@ -306,8 +918,28 @@ async function executeBatch(
     }
   }
 
-  // Execute ALL calls in parallel
-  const results = await Promise.all(calls.map(executeCall))
+  // Part ids and pending parts are created in the order the calls were
+  // listed, before anything is scheduled, so the transcript shows them in
+  // that order whatever order they are admitted and finish in
+  const prepared: Prepared[] = []
+  for (const call of calls) prepared.push(await prepare(call))
+
+  // Independent calls run in parallel; conflicting ones (two edits of one
+  // file, a read of a file being written) run in the order they were listed.
+  // Results stay in call order either way.
+  const scheduler = createResourceScheduler()
+  const results = await Promise.all(
+    prepared.map(async (entry) => {
+      if ("error" in entry) return { success: false, tool: entry.call.tool, error: entry.error }
+      try {
+        return await scheduler.run(resourcesFor(entry.tool, entry.call.parameters), () => executeCall(entry), ctx.abort)
+      } catch (error: any) {
+        // Aborted while still waiting for its resources: never ran
+        await updateToolState(entry.partID, { status: "error", error: error?.message ?? String(error) })
+        return { success: false, tool: entry.call.tool, error }
+      }
+    }),
+  )
 
   const successful = results.filter((r) => r.success).length
   return {
@@ -318,7 +950,7 @@ async function executeBatch(
 }
 
 // ============================================================
-// 6. PERMISSION PATTERN (Used by all tools)
+// 9. PERMISSION PATTERN (Used by all tools)
 // ============================================================
 
 // Every tool that accesses files/system calls ctx.ask()
@@ -346,16 +978,20 @@ function loadPluginTools(): Promise<any[]> { return Promise.resolve([]) }
 function updateToolState(_partID: string, _state: any): Promise<void> { return Promise.resolve() }
 function formatBatchResults(_results: any[]): string { return "" }
 
-const BashTool = { id: "bash" }
-const ReadTool = { id: "read" }
-const EditTool = { id: "edit" }
-const WriteTool = { id: "write" }
-const GlobTool = { id: "glob" }
-const GrepTool = { id: "grep" }
-const TaskTool = { id: "task" }
-const WebFetchTool = { id: "webfetch" }
-const TodoWriteTool = { id: "todowrite" }
-const WebSearchTool = { id: "websearch" }
-const CodeSearchTool = { id: "codesearch" }
-const SkillTool = { id: "skill" }
-const ApplyPatchTool = { id: "apply_patch" }
+const readsFile = (a: any): ResourceSet => ({ read: [fileResource(a.filePath)], write: [] })
+const writesFile = (a: any): ResourceSet => ({ read: [], write: [fileResource(a.filePath)] })
+const readsTree = (a: any): ResourceSet => ({ read: [fileResource(a.path ?? Instance.directory)], write: [] })
+const readsNetwork = (): ResourceSet => ({ read: ["network"], write: [] })
+
+const BashTool = { id: "bash" } // no resources → exclusive
+const ReadTool = { id: "read", resources: readsFile, cache: { ttlMs: 5 * 60_000 } }
+const EditTool = { id: "edit", resources: writesFile }
+const WriteTool = { id: "write", resources: writesFile }
+const GlobTool = { id: "glob", resources: readsTree, cache: { ttlMs: 60_000 } }
+const GrepTool = { id: "grep", resources: readsTree, cache: { ttlMs: 60_000 } }
+const TaskTool = { id: "task" } // subagent may do anything → exclusive
+const WebFetchTool = { id: "webfetch", resources: readsNetwork, cache: { ttlMs: 15 * 60_000 } }
+const TodoWriteTool = { id: "todowrite", resources: (): ResourceSet => ({ read: [], write: ["todo"] }) }
+const WebSearchTool = { id: "websearch", resources: readsNetwork }
+const CodeSearchTool = { id: "codesearch", resources: readsNetwork }
+const SkillTool = { id: "skill", resources: (): ResourceSet => ({ read: ["skills"], write: [] }) }
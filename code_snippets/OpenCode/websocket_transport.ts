@@ -0,0 +1,278 @@
+/**
+ * OpenCode WebSocket Transport (Events Down, Commands Up)
+ *
+ * SSE only flows server → client, so prompting, aborting, answering a
+ * permission.asked event and reverting each need their own HTTP call. One
+ * WebSocket carries both directions: the same bus events as the SSE route
+ * (same ids, filters and Last-Event-ID resume), and typed commands the
+ * server acknowledges by id. Both directions are Zod-parsed on receipt —
+ * commands against Command, events against BusEvent.payloads().
+ *
+ * Source: packages/opencode/src/server/server.ts (event + session routes)
+ */
+
+import z from "zod"
+import {
+  BusEvent,
+  GlobalBus,
+  ResyncRequired,
+  currentEventID,
+  matchesFilter,
+  parseEventFilter,
+  replaySince,
+  type GlobalEvent,
+} from "./event_bus_sse"
+import { revertSession } from "./snapshot_revert"
+
+// ============================================================
+// 1. WIRE PROTOCOL
+// ============================================================
+
+export const Command = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("session.prompt"),
+    sessionID: z.string(),
+    parts: z.array(z.object({ type: z.literal("text"), text: z.string() })).min(1),
+    agent: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("session.abort"),
+    sessionID: z.string(),
+  }),
+  // Answers a permission.asked event
+  z.object({
+    type: z.literal("permission.reply"),
+    sessionID: z.string(),
+    requestID: z.string(),
+    reply: z.enum(["once", "always", "reject"]),
+  }),
+  z.object({
+    type: z.literal("session.revert"),
+    sessionID: z.string(),
+    messageID: z.string(),
+    partID: z.string().optional(),
+  }),
+])
+export type Command = z.infer<typeof Command>
+
+// Client → server. `id` is chosen by the client and echoed in the result.
+const ClientFrame = z.object({ id: z.string(), command: Command })
+
+export type BusPayload = { type: string; properties: any }
+
+// Server → client
+export type ServerFrame =
+  | { kind: "event"; id?: string; event: BusPayload }
+  | { kind: "result"; id: string; ok: true; data?: unknown }
+  | { kind: "result"; id: string; ok: false; error: string }
+
+export function describeError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")
+  }
+  return error instanceof Error ? error.message : String(error)
+}
+
+// ============================================================
+// 2. SERVER ENDPOINT (Hono upgradeWebSocket handlers)
+// ============================================================
+
+// A socket has no stream backpressure to lean on. Past this many unsent bytes
+// the client is closed with 1013 ("try again later"); it reconnects with its
+// lastEventId and the replay buffer covers the gap — same recovery as SSE.
+const WS_MAX_BUFFERED_BYTES = 1024 * 1024
+
+interface WSContext {
+  send(data: string): void
+  close(code?: number, reason?: string): void
+  raw?: { bufferedAmount?: number }
+}
+
+// app.get("/ws", upgradeWebSocket((c) => websocketHandlers(c)))
+// Query parameters are the SSE route's: directory, sessionID, type, lastEventId
+function websocketHandlers(c: { req: { query(name: string): string | undefined } }) {
+  const filter = parseEventFilter((name) => c.req.query(name))
+  const lastEventID = c.req.query("lastEventId")
+  let handler: ((event: GlobalEvent) => void) | undefined
+
+  const send = (ws: WSContext, frame: ServerFrame) => ws.send(JSON.stringify(frame))
+
+  return {
+    onOpen(_evt: unknown, ws: WSContext) {
+      // Replay, then subscribe, in the same tick (see sseRoute)
+      if (lastEventID) {
+        const missed = replaySince(lastEventID, filter)
+        if (missed === "resync") {
+          send(ws, { kind: "event", id: currentEventID(), event: { type: ResyncRequired.type, properties: { lastEventID } } })
+        } else {
+          for (const event of missed) {
+            if (matchesFilter(event, filter)) send(ws, { kind: "event", id: event.id, event: event.payload })
+          }
+        }
+      }
+
+      handler = (event: GlobalEvent) => {
+        if (!matchesFilter(event, filter)) return
+        if ((ws.raw?.bufferedAmount ?? 0) > WS_MAX_BUFFERED_BYTES) {
+          GlobalBus.off("event", handler!)
+          ws.close(1013, "slow consumer: reconnect with lastEventId")
+          return
+        }
+        send(ws, { kind: "event", id: event.id, event: event.payload })
+      }
+      GlobalBus.on("event", handler)
+    },
+
+    async onMessage(evt: { data: unknown }, ws: WSContext) {
+      let frame: z.infer<typeof ClientFrame>
+      try {
+        frame = ClientFrame.parse(JSON.parse(String(evt.data)))
+      } catch (error) {
+        // Still answer under the client's id when the envelope had one
+        const id = (() => {
+          try {
+            return String(JSON.parse(String(evt.data)).id ?? "")
+          } catch {
+            return ""
+          }
+        })()
+        return send(ws, { kind: "result", id, ok: false, error: `invalid command: ${describeError(error)}` })
+      }
+
+      try {
+        const data = await runCommand(frame.command)
+        send(ws, { kind: "result", id: frame.id, ok: true, data })
+      } catch (error) {
+        send(ws, { kind: "result", id: frame.id, ok: false, error: describeError(error) })
+      }
+    },
+
+    onClose() {
+      if (handler) GlobalBus.off("event", handler)
+    },
+  }
+}
+
+// Also the handler of the HTTP command routes (api_codegen.ts). A prompt is
+// acknowledged once it is queued — its progress arrives as message.* events,
+// not in the result.
+export async function runCommand(command: Command): Promise<unknown> {
+  switch (command.type) {
+    case "session.prompt":
+      return startPrompt(command.sessionID, command.parts, command.agent)
+    case "session.abort":
+      return abortSession(command.sessionID)
+    case "permission.reply":
+      return replyPermission(command.sessionID, command.requestID, command.reply)
+    case "session.revert":
+      return revertSession(command)
+  }
+}
+
+// ============================================================
+// 3. CLIENT SDK
+// ============================================================
+
+// Typed wrapper around the socket. Reconnects on drop, resuming from the last
+// event id seen. Commands are never resent on reconnect (a prompt isn't
+// idempotent): in-flight ones reject and the caller decides.
+export function createWebSocketClient(
+  serverUrl: string,
+  opts: {
+    directory: string
+    sessionID?: string
+    types?: string[]
+    // Events that fail BusEvent.payloads() — e.g. a type newer than this client —
+    // and frames that aren't JSON at all (reported with the raw text)
+    onInvalidEvent?: (event: unknown, error: z.ZodError | SyntaxError) => void
+  },
+) {
+  const EventPayload = BusEvent.payloads()
+  const listeners = new Set<(event: BusPayload) => void>()
+  const pending = new Map<string, { resolve: (data: unknown) => void; reject: (error: Error) => void }>()
+  const outbox: string[] = [] // commands issued while (re)connecting
+  let lastEventId: string | undefined
+  let nextCommandID = 0
+  let closed = false
+  let ws: WebSocket
+
+  function connect() {
+    const query = new URLSearchParams({ directory: opts.directory })
+    if (opts.sessionID) query.set("sessionID", opts.sessionID)
+    if (opts.types?.length) query.set("type", opts.types.join(","))
+    if (lastEventId) query.set("lastEventId", lastEventId)
+    ws = new WebSocket(`${serverUrl.replace(/^http/, "ws")}/ws?${query}`)
+
+    ws.onopen = () => {
+      for (const frame of outbox.splice(0)) ws.send(frame)
+    }
+    ws.onmessage = (message) => {
+      let frame: ServerFrame
+      try {
+        frame = JSON.parse(String(message.data))
+      } catch (error) {
+        return opts.onInvalidEvent?.(message.data, error as SyntaxError)
+      }
+      if (frame.kind === "result") {
+        const waiter = pending.get(frame.id)
+        pending.delete(frame.id)
+        if (frame.ok) waiter?.resolve(frame.data)
+        else waiter?.reject(new Error(frame.error))
+        return
+      }
+      if (frame.id) lastEventId = frame.id
+      const parsed = EventPayload.safeParse(frame.event)
+      if (!parsed.success) return opts.onInvalidEvent?.(frame.event, parsed.error)
+      for (const listener of listeners) listener(parsed.data as BusPayload)
+    }
+    ws.onclose = () => {
+      failPending("connection closed before the command was acknowledged")
+      if (!closed) setTimeout(connect, 1000)
+    }
+  }
+
+  // Queued frames go with their waiters: a command the caller saw fail
+  // must not run after a reconnect
+  function failPending(reason: string) {
+    for (const waiter of pending.values()) waiter.reject(new Error(reason))
+    pending.clear()
+    outbox.length = 0
+  }
+
+  function send(command: Command): Promise<unknown> {
+    const id = `cmd_${++nextCommandID}`
+    const frame = JSON.stringify({ id, command: Command.parse(command) })
+    return new Promise((resolve, reject) => {
+      if (closed) return reject(new Error("client closed"))
+      pending.set(id, { resolve, reject })
+      if (ws.readyState === WebSocket.OPEN) ws.send(frame)
+      else outbox.push(frame)
+    })
+  }
+
+  connect()
+
+  return {
+    prompt: (sessionID: string, text: string, agent?: string) =>
+      send({ type: "session.prompt", sessionID, parts: [{ type: "text", text }], agent }),
+    abort: (sessionID: string) => send({ type: "session.abort", sessionID }),
+    answerPermission: (sessionID: string, requestID: string, reply: "once" | "always" | "reject") =>
+      send({ type: "permission.reply", sessionID, requestID, reply }),
+    revert: (sessionID: string, messageID: string, partID?: string) =>
+      send({ type: "session.revert", sessionID, messageID, partID }),
+    subscribe(listener: (event: BusPayload) => void) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    close() {
+      closed = true
+      failPending("client closed")
+      ws.close()
+    },
+  }
+}
+
+// --- Placeholder functions ---
+function startPrompt(_sessionID: string, _parts: any[], _agent?: string): Promise<{ messageID: string }> { return Promise.resolve({ messageID: "" }) }
+function abortSession(_sessionID: string): Promise<void> { return Promise.resolve() }
+function replyPermission(_sessionID: string, _requestID: string, _reply: string): Promise<void> { return Promise.resolve() }